@@ -0,0 +1,20 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  moduleNameMapper: {
+    '/config/redis$': '<rootDir>/tests/mocks/redis.ts',
+  },
+  transform: {
+    '^.+\\.ts$': [
+      'ts-jest',
+      {
+        tsconfig: {
+          rootDir: '.',
+          types: ['node', 'jest'],
+        },
+      },
+    ],
+  },
+};
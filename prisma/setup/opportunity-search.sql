@@ -0,0 +1,34 @@
+-- Full-text search over opportunities, run after `prisma db push` or
+-- `prisma migrate dev` (npm run prisma:setup). Prisma manages the column and
+-- its index but not the trigger that fills it, so this script creates the
+-- trigger and backfills rows written before it existed. Safe to run again.
+--
+-- The search document weights the title highest (A), then the organization
+-- (B), then the requirements and description (C). A trigger keeps it in sync
+-- on every insert and update, as array_to_string is not immutable and
+-- cannot back a generated column.
+
+ALTER TABLE "opportunities" ADD COLUMN IF NOT EXISTS "search_vector" tsvector;
+
+CREATE OR REPLACE FUNCTION opportunities_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.organization, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(NEW.requirements, ' '), '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS opportunities_search_vector_trigger ON "opportunities";
+
+CREATE TRIGGER opportunities_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF title, organization, requirements, description
+  ON "opportunities"
+  FOR EACH ROW EXECUTE FUNCTION opportunities_search_vector_update();
+
+-- Backfill rows written before the trigger existed
+UPDATE "opportunities" SET "title" = "title" WHERE "search_vector" IS NULL;
+
+CREATE INDEX IF NOT EXISTS "opportunities_search_vector_idx" ON "opportunities" USING GIN ("search_vector");
@@ -15,6 +15,16 @@ interface Config {
   UPLOAD_DIR: string;
   REDIS_URL: string;
   SCRAPERDO_API_KEY: string;
+  HTTP_FETCHER_USER_AGENT: string;
+  FETCH_FIXTURES_DIR: string;
+  FETCH_FIXTURES_RECORD: string;
+  CRAWL_SCHEDULER_ENABLED: string;
+  CRAWL_DEFAULT_REQUESTS_PER_MINUTE: string;
+  CRAWL_DOMAIN_RATE_LIMITS: string;
+  OPPORTUNITY_LIVENESS_ENABLED: string;
+  CRAWL_HEALTH_QUARANTINE_THRESHOLD: string;
+  CRAWL_ALERT_WEBHOOK_URL: string;
+  CURRENCY_RATES: string;
 }
 
 const getGeminiKeys = (key: string) => {
@@ -35,6 +45,18 @@ export const config: Config = {
   UPLOAD_DIR: process.env.UPLOAD_DIR!,
   REDIS_URL: process.env.REDIS_URL!,
   SCRAPERDO_API_KEY: process.env.SCRAPERDO_API_KEY!,
+  HTTP_FETCHER_USER_AGENT: process.env.HTTP_FETCHER_USER_AGENT!,
+  FETCH_FIXTURES_DIR: process.env.FETCH_FIXTURES_DIR!,
+  FETCH_FIXTURES_RECORD: process.env.FETCH_FIXTURES_RECORD!,
+  CRAWL_SCHEDULER_ENABLED: process.env.CRAWL_SCHEDULER_ENABLED!,
+  CRAWL_DEFAULT_REQUESTS_PER_MINUTE:
+    process.env.CRAWL_DEFAULT_REQUESTS_PER_MINUTE!,
+  CRAWL_DOMAIN_RATE_LIMITS: process.env.CRAWL_DOMAIN_RATE_LIMITS!,
+  OPPORTUNITY_LIVENESS_ENABLED: process.env.OPPORTUNITY_LIVENESS_ENABLED!,
+  CRAWL_HEALTH_QUARANTINE_THRESHOLD:
+    process.env.CRAWL_HEALTH_QUARANTINE_THRESHOLD!,
+  CRAWL_ALERT_WEBHOOK_URL: process.env.CRAWL_ALERT_WEBHOOK_URL!,
+  CURRENCY_RATES: process.env.CURRENCY_RATES!,
   PINECONE_API_KEY: process.env.PINECONE_API_KEY!,
   OPENAI_API_KEY: process.env.OPENAI_API_KEY!,
   GEN_API_KEY: process.env.GEN_API_KEY!,
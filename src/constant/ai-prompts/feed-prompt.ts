@@ -0,0 +1,54 @@
+import { LLMPromptBuilder } from '../../utils/llm-prompt-builder';
+
+export const extractFeedItemDetailsPrompt = (md: string) => {
+  const prompt = new LLMPromptBuilder()
+    .addInstruction(
+      'You are a smart extraction agent. Given the page linked from an RSS, Atom or JSON feed item (converted from HTML to Markdown), extract structured opportunity metadata in JSON format. Only extract information that is explicitly stated in the content. Do not guess or hallucinate missing details.',
+      'critical'
+    )
+    .addContext('Source: Opportunity page linked from a syndication feed item')
+    .addRule(
+      'All values must be pulled directly from the text. If something is not clearly mentioned, return null or empty array'
+    )
+    .addRule(
+      'Ignore navigation, sidebars, comments and related-post links; only use the main article content'
+    )
+    .addRule(
+      'Extract eligibility criteria from sections that describe who can apply'
+    )
+    .addRule(
+      'Extract requirements from sections that describe what applicants need'
+    )
+    .addRule(
+      'isRemote should be true if the opportunity mentions remote work or virtual participation'
+    )
+    .addRule('Do not format output as markdown. Return clean, plain JSON only')
+    .addNote(
+      'Focus on accuracy over completeness. Missing data is better than incorrect data.'
+    )
+    .addSection(
+      'Response Format',
+      `Return the following JSON structure:
+{
+  "title": "string",
+  "organization": "string",
+  "description": "string",
+  "requirements": ["string"],
+  "benefits": ["string"],
+  "compensation": "string | null",
+  "compensationType": "string | null",
+  "locations": ["string"],
+  "deadline": "string | null",
+  "eligibility": ["string"],
+  "applicationUrl": "string | null",
+  "contactEmail": "string | null",
+  "duration": "string | null",
+  "experienceLevel": "string | null",
+  "isRemote": boolean | null
+}`
+    )
+    .setVariables({ markdown_content: md })
+    .compose();
+
+  return prompt;
+};
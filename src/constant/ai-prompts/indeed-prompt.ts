@@ -0,0 +1,79 @@
+import { LLMPromptBuilder } from '../../utils/llm-prompt-builder';
+
+export const extractIndeedListingsPrompt = (md: string) => {
+  const prompt = new LLMPromptBuilder()
+    .addInstruction(
+      'You are a smart extraction agent. Given an Indeed job search results page (converted from HTML to Markdown), extract every job card explicitly present in the content. Do not guess or hallucinate missing information.',
+      'critical'
+    )
+    .addContext('Source: Indeed job search results page')
+    .addRule('opportunity_id: The Indeed job key, i.e. the "jk" or "vjk" query parameter of the job link')
+    .addRule('url: The absolute link to the job posting')
+    .addRule('Do not guess. If a field like deadline is not explicitly in the text, simply set it to null')
+    .addRule('Skip sponsored or promoted cards that do not have a job key')
+    .addExample('opportunity_id: "3f9b2c1d4e5a6b7c"')
+    .addExample('title: "Junior Data Analyst"')
+    .addNote('Return only valid JSON. No markdown formatting.')
+    .addSection(
+      'Response Format',
+      `Return the following JSON structure:
+{
+  "opportunity_listings": [
+    {
+      "opportunity_id": "string",
+      "title": "string",
+      "organization": "string | null",
+      "location": "string | null",
+      "deadline": "string | null",
+      "url": "string | null"
+    }
+  ]
+}`
+    )
+    .setVariables({ markdown_content: md })
+    .compose();
+
+  return prompt;
+};
+
+export const extractIndeedDetailsPrompt = (md: string) => {
+  const prompt = new LLMPromptBuilder()
+    .addInstruction(
+      'You are a smart extraction agent. Given the description of an Indeed job posting (converted from HTML to Markdown), extract structured metadata in JSON format. Only extract information that is explicitly stated in the content. Do not guess or hallucinate missing details.',
+      'critical'
+    )
+    .addContext('Source: Indeed job posting page')
+    .addRule('All values must be pulled directly from the text. If something is not clearly mentioned, return null or empty array')
+    .addRule('requirements: Qualifications, skills and experience the applicant needs')
+    .addRule('benefits: Perks, allowances and benefits offered')
+    .addRule('eligibility: Who may apply, e.g. nationality, location or work authorization restrictions')
+    .addRule('deadline: Only if an application closing date is stated')
+    .addRule('experienceLevel should identify the target experience level: entry-level, mid-level, senior, etc.')
+    .addRule('Do not format output as markdown. Return clean, plain JSON only')
+    .addNote('Focus on accuracy over completeness. Missing data is better than incorrect data.')
+    .addSection(
+      'Response Format',
+      `Return the following JSON structure:
+{
+  "title": "string",
+  "organization": "string",
+  "description": "string",
+  "requirements": ["string"],
+  "benefits": ["string"],
+  "compensation": "string | null",
+  "compensationType": "string | null",
+  "locations": ["string"],
+  "deadline": "string | null",
+  "eligibility": ["string"],
+  "applicationUrl": "string | null",
+  "contactEmail": "string | null",
+  "experienceLevel": "string | null",
+  "duration": "string | null",
+  "isRemote": boolean | null
+}`
+    )
+    .setVariables({ markdown_content: md })
+    .compose();
+
+  return prompt;
+};
@@ -0,0 +1,47 @@
+import { LLMPromptBuilder } from '../../utils/llm-prompt-builder';
+
+export const extractLinkedInDetailsPrompt = (md: string) => {
+  const prompt = new LLMPromptBuilder()
+    .addInstruction(
+      'You are a smart extraction agent. Given the description of a LinkedIn job posting (converted from HTML to Markdown), extract structured metadata in JSON format. Only extract information that is explicitly stated in the content. Do not guess or hallucinate missing details.',
+      'critical'
+    )
+    .addContext('Source: LinkedIn public job posting page')
+    .addRule(
+      'All values must be pulled directly from the text. If something is not clearly mentioned, return null or empty array'
+    )
+    .addRule(
+      'requirements: Qualifications, skills and experience the applicant needs'
+    )
+    .addRule('benefits: Perks, allowances and benefits offered')
+    .addRule(
+      'eligibility: Who may apply, e.g. nationality, location or work authorization restrictions'
+    )
+    .addRule('deadline: Only if an application closing date is stated')
+    .addRule('Do not format output as markdown. Return clean, plain JSON only')
+    .addNote(
+      'Focus on accuracy over completeness. Missing data is better than incorrect data.'
+    )
+    .addSection(
+      'Response Format',
+      `Return the following JSON structure:
+{
+  "title": "string",
+  "organization": "string",
+  "description": "string",
+  "requirements": ["string"],
+  "benefits": ["string"],
+  "compensation": "string | null",
+  "locations": ["string"],
+  "deadline": "string | null",
+  "eligibility": ["string"],
+  "contactEmail": "string | null",
+  "duration": "string | null",
+  "isRemote": boolean | null
+}`
+    )
+    .setVariables({ markdown_content: md })
+    .compose();
+
+  return prompt;
+};
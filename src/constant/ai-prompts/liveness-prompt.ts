@@ -0,0 +1,37 @@
+import { LLMPromptBuilder } from '../../utils/llm-prompt-builder';
+
+export const classifyOpportunityLivenessPrompt = (
+  md: string,
+  opportunity: { title: string; organization: string }
+) => {
+  const prompt = new LLMPromptBuilder()
+    .addInstruction(
+      'You are a classification agent. Given the page an opportunity was published from (converted from HTML to Markdown), decide whether the opportunity is closed: applications no longer accepted, the position filled, the posting expired or removed.',
+      'critical'
+    )
+    .addContext(
+      `Opportunity: "${opportunity.title}" at ${opportunity.organization}`
+    )
+    .addRule(
+      'Only treat the opportunity as closed if the page explicitly says so for this opportunity'
+    )
+    .addRule(
+      'Closure notices about other opportunities, past cohorts or previous editions do not count'
+    )
+    .addRule(
+      'If the page is generic, unrelated or unclear, the opportunity is not closed'
+    )
+    .addRule('Do not format output as markdown. Return clean, plain JSON only')
+    .addSection(
+      'Response Format',
+      `Return the following JSON structure:
+{
+  "closed": boolean,
+  "reason": "string"
+}`
+    )
+    .setVariables({ markdown_content: md })
+    .compose();
+
+  return prompt;
+};
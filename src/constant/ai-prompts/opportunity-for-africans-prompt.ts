@@ -1,7 +1,7 @@
-import llmPromptBuilder from '../../utils/llm-prompt-builder';
+import { LLMPromptBuilder } from '../../utils/llm-prompt-builder';
 
 export const extractOpportunityMetadataPrompt = (md: string) => {
-  const prompt = llmPromptBuilder
+  const prompt = new LLMPromptBuilder()
     .addInstruction(
       'You are a smart extraction agent. Given an OpportunityDesk listing page content (converted from HTML to Markdown), extract only valid metadata for opportunities explicitly present in the content. Do not guess or hallucinate missing information.',
       'critical'
@@ -44,7 +44,7 @@ export const extractOpportunityMetadataPrompt = (md: string) => {
 };
 
 export const extractOpportunityDetailsPrompt = (md: string) => {
-  const prompt = llmPromptBuilder
+  const prompt = new LLMPromptBuilder()
     .addInstruction(
       'You are a smart extraction agent. Given an OpportunityDesk opportunity full content (converted from HTML to Markdown), extract structured metadata in JSON format. Only extract information that is explicitly stated in the content. Do not guess or hallucinate missing details.',
       'critical'
@@ -0,0 +1,42 @@
+import { LLMPromptBuilder } from '../../utils/llm-prompt-builder';
+
+export const classifyOpportunityTypePrompt = (
+  opportunity: string,
+  typeNames: string[]
+) => {
+  const prompt = new LLMPromptBuilder()
+    .addInstruction(
+      'You are a classification agent. Given an opportunity posting, decide which of the allowed opportunity types it belongs to.',
+      'critical'
+    )
+    .addRule('Only use type names from the Allowed Types list, spelled exactly')
+    .addRule(
+      'Pick every type that applies, most fitting first. A paid traineeship can be both an Internship and a Job'
+    )
+    .addRule(
+      'Give each type a confidence from 0 to 1 and a short reason quoting the posting'
+    )
+    .addRule('If no allowed type fits, return an empty list')
+    .addRule('Do not format output as markdown. Return clean, plain JSON only')
+    .addSection(
+      'Allowed Types',
+      typeNames.map((name) => `- ${name}`).join('\n')
+    )
+    .addSection(
+      'Response Format',
+      `Return the following JSON structure:
+{
+  "types": [
+    {
+      "name": "string",
+      "confidence": number,
+      "reason": "string"
+    }
+  ]
+}`
+    )
+    .setVariables({ opportunity })
+    .compose();
+
+  return prompt;
+};
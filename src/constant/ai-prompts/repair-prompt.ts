@@ -0,0 +1,26 @@
+import { LLMPromptBuilder } from '../../utils/llm-prompt-builder';
+
+export const repairExtractionPrompt = (
+  originalPrompt: string,
+  response: string,
+  issues: string[]
+) => {
+  const prompt = new LLMPromptBuilder()
+    .addInstruction(
+      'Your previous response to the extraction task below failed validation. Return a corrected version of the JSON that fixes every listed problem.',
+      'critical'
+    )
+    .addRule(
+      'Keep every value that was not listed as a problem exactly as it was'
+    )
+    .addRule(
+      'Fix a value only from the source content. If the correct value is not in the content, set it to null or an empty array'
+    )
+    .addRule('Do not format output as markdown. Return clean, plain JSON only')
+    .addSection('Validation Errors', issues.map((i) => `- ${i}`).join('\n'))
+    .addSection('Previous Response', response)
+    .addSection('Original Task', originalPrompt)
+    .compose();
+
+  return prompt;
+};
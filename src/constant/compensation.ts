@@ -0,0 +1,46 @@
+// Currency compensation is compared in, and that rates are relative to
+export const BASE_CURRENCY = 'USD';
+
+// Units of each currency per US dollar. Approximate; deployments keep them
+// current through CURRENCY_RATES.
+export const DEFAULT_CURRENCY_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  CHF: 0.88,
+  CAD: 1.37,
+  AUD: 1.52,
+  NZD: 1.65,
+  SEK: 10.6,
+  NOK: 10.8,
+  DKK: 6.9,
+  PLN: 4,
+  JPY: 150,
+  CNY: 7.2,
+  INR: 83,
+  PKR: 280,
+  BDT: 117,
+  SGD: 1.35,
+  MYR: 4.7,
+  PHP: 57,
+  IDR: 15800,
+  AED: 3.67,
+  SAR: 3.75,
+  QAR: 3.64,
+  BRL: 5.2,
+  MXN: 17,
+  NGN: 1550,
+  GHS: 15.5,
+  KES: 129,
+  UGX: 3800,
+  TZS: 2600,
+  RWF: 1350,
+  ETB: 120,
+  ZAR: 18.5,
+  EGP: 48,
+  MAD: 10,
+  XOF: 605,
+  XAF: 605,
+  ZMW: 26,
+  BWP: 13.6,
+};
@@ -0,0 +1,12 @@
+// Placeholders stored on crawled drafts when extraction misses a field
+export const DRAFT_FALLBACKS = {
+  title: 'Untitled Opportunity',
+  organization: 'Unknown Organization',
+  description: 'No description available',
+} as const;
+
+// Stored as reviewedBy on drafts approved or rejected by a triage rule
+export const TRIAGE_REVIEWER_ID = 'system:triage';
+
+// Opportunity type drafts are published with when none could be suggested
+export const DEFAULT_OPPORTUNITY_TYPE = 'General';
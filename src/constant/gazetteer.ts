@@ -0,0 +1,860 @@
+// Offline gazetteer used to normalise free-text locations. Places form a
+// hierarchy: city → country → region → continent → world. A place can have
+// several parents when regions overlap, e.g. Nigeria is in both Western
+// Africa and Sub-Saharan Africa.
+
+export type PlaceKind = 'world' | 'continent' | 'region' | 'country' | 'city';
+
+export interface Place {
+  id: string;
+  name: string;
+  kind: PlaceKind;
+  parentIds: string[];
+  aliases: string[];
+  // Cities only, for radius search
+  lat?: number;
+  lon?: number;
+}
+
+export const WORLD_PLACE_ID = 'world';
+
+const WORLD: Place = {
+  id: WORLD_PLACE_ID,
+  name: 'Worldwide',
+  kind: 'world',
+  parentIds: [],
+  aliases: [
+    'world',
+    'global',
+    'globally',
+    'anywhere',
+    'international',
+    'all countries',
+    'any country',
+    'any location',
+  ],
+};
+
+// [slug, name, parent ids, aliases]
+const CONTINENTS: [string, string, string[], string[]][] = [
+  ['africa', 'Africa', [WORLD_PLACE_ID], ['pan africa', 'pan african']],
+  ['asia', 'Asia', [WORLD_PLACE_ID], []],
+  ['europe', 'Europe', [WORLD_PLACE_ID], []],
+  ['north-america', 'North America', [WORLD_PLACE_ID], []],
+  ['south-america', 'South America', [WORLD_PLACE_ID], []],
+  ['oceania', 'Oceania', [WORLD_PLACE_ID], ['australasia']],
+];
+
+const REGIONS: [string, string, string[], string[]][] = [
+  ['sub-saharan-africa', 'Sub-Saharan Africa', ['continent:africa'], ['ssa']],
+  ['mena', 'Middle East and North Africa', [WORLD_PLACE_ID], ['mena']],
+  ['middle-east', 'Middle East', ['region:mena'], []],
+  ['latin-america', 'Latin America', [WORLD_PLACE_ID], ['latam']],
+  [
+    'northern-africa',
+    'Northern Africa',
+    ['continent:africa', 'region:mena'],
+    ['north africa'],
+  ],
+  [
+    'western-africa',
+    'Western Africa',
+    ['continent:africa', 'region:sub-saharan-africa'],
+    ['west africa', 'ecowas'],
+  ],
+  [
+    'eastern-africa',
+    'Eastern Africa',
+    ['continent:africa', 'region:sub-saharan-africa'],
+    ['east africa'],
+  ],
+  [
+    'middle-africa',
+    'Middle Africa',
+    ['continent:africa', 'region:sub-saharan-africa'],
+    ['central africa'],
+  ],
+  [
+    'southern-africa',
+    'Southern Africa',
+    ['continent:africa', 'region:sub-saharan-africa'],
+    [],
+  ],
+  ['northern-america', 'Northern America', ['continent:north-america'], []],
+  [
+    'central-america',
+    'Central America',
+    ['continent:north-america', 'region:latin-america'],
+    [],
+  ],
+  [
+    'caribbean',
+    'Caribbean',
+    ['continent:north-america', 'region:latin-america'],
+    ['the caribbean', 'west indies'],
+  ],
+  ['central-asia', 'Central Asia', ['continent:asia'], []],
+  ['eastern-asia', 'Eastern Asia', ['continent:asia'], ['east asia']],
+  [
+    'south-eastern-asia',
+    'South-Eastern Asia',
+    ['continent:asia'],
+    ['southeast asia', 'south east asia', 'asean'],
+  ],
+  ['southern-asia', 'Southern Asia', ['continent:asia'], ['south asia']],
+  ['western-asia', 'Western Asia', ['continent:asia'], []],
+  [
+    'european-union',
+    'European Union',
+    ['continent:europe'],
+    ['eu', 'eu member states'],
+  ],
+  ['eastern-europe', 'Eastern Europe', ['continent:europe'], []],
+  ['northern-europe', 'Northern Europe', ['continent:europe'], ['nordics']],
+  ['southern-europe', 'Southern Europe', ['continent:europe'], []],
+  ['western-europe', 'Western Europe', ['continent:europe'], []],
+  [
+    'australia-new-zealand',
+    'Australia and New Zealand',
+    ['continent:oceania'],
+    [],
+  ],
+  [
+    'pacific-islands',
+    'Pacific Islands',
+    ['continent:oceania'],
+    ['melanesia', 'micronesia', 'polynesia'],
+  ],
+];
+
+// [ISO 3166-1 alpha-2 code, name, parent ids without the region: prefix
+// (continent: ids are given in full), aliases]
+const COUNTRIES: [string, string, string[], string[]?][] = [
+  // Northern Africa
+  ['dz', 'Algeria', ['northern-africa']],
+  ['eg', 'Egypt', ['northern-africa', 'middle-east']],
+  ['ly', 'Libya', ['northern-africa']],
+  ['ma', 'Morocco', ['northern-africa']],
+  ['sd', 'Sudan', ['northern-africa', 'sub-saharan-africa']],
+  ['tn', 'Tunisia', ['northern-africa']],
+  // Western Africa
+  ['bj', 'Benin', ['western-africa'], ['benin republic']],
+  ['bf', 'Burkina Faso', ['western-africa']],
+  ['cv', 'Cabo Verde', ['western-africa'], ['cape verde']],
+  ['ci', 'Côte d’Ivoire', ['western-africa'], ['ivory coast']],
+  ['gm', 'Gambia', ['western-africa'], ['the gambia']],
+  ['gh', 'Ghana', ['western-africa']],
+  ['gn', 'Guinea', ['western-africa'], ['guinea conakry']],
+  ['gw', 'Guinea-Bissau', ['western-africa']],
+  ['lr', 'Liberia', ['western-africa']],
+  ['ml', 'Mali', ['western-africa']],
+  ['mr', 'Mauritania', ['western-africa']],
+  ['ne', 'Niger', ['western-africa'], ['niger republic']],
+  ['ng', 'Nigeria', ['western-africa'], ['naija']],
+  ['sn', 'Senegal', ['western-africa']],
+  ['sl', 'Sierra Leone', ['western-africa']],
+  ['tg', 'Togo', ['western-africa']],
+  // Eastern Africa
+  ['bi', 'Burundi', ['eastern-africa']],
+  ['km', 'Comoros', ['eastern-africa']],
+  ['dj', 'Djibouti', ['eastern-africa']],
+  ['er', 'Eritrea', ['eastern-africa']],
+  ['et', 'Ethiopia', ['eastern-africa']],
+  ['ke', 'Kenya', ['eastern-africa']],
+  ['mg', 'Madagascar', ['eastern-africa']],
+  ['mw', 'Malawi', ['eastern-africa']],
+  ['mu', 'Mauritius', ['eastern-africa']],
+  ['mz', 'Mozambique', ['eastern-africa']],
+  ['rw', 'Rwanda', ['eastern-africa']],
+  ['sc', 'Seychelles', ['eastern-africa']],
+  ['so', 'Somalia', ['eastern-africa']],
+  ['ss', 'South Sudan', ['eastern-africa']],
+  [
+    'tz',
+    'Tanzania',
+    ['eastern-africa'],
+    ['united republic of tanzania', 'zanzibar'],
+  ],
+  ['ug', 'Uganda', ['eastern-africa']],
+  ['zm', 'Zambia', ['eastern-africa']],
+  ['zw', 'Zimbabwe', ['eastern-africa']],
+  // Middle Africa
+  ['ao', 'Angola', ['middle-africa']],
+  ['cm', 'Cameroon', ['middle-africa']],
+  ['cf', 'Central African Republic', ['middle-africa']],
+  ['td', 'Chad', ['middle-africa']],
+  [
+    'cg',
+    'Republic of the Congo',
+    ['middle-africa'],
+    ['congo brazzaville', 'congo republic'],
+  ],
+  [
+    'cd',
+    'Democratic Republic of the Congo',
+    ['middle-africa'],
+    ['drc', 'dr congo', 'congo kinshasa'],
+  ],
+  ['gq', 'Equatorial Guinea', ['middle-africa']],
+  ['ga', 'Gabon', ['middle-africa']],
+  ['st', 'Sao Tome and Principe', ['middle-africa']],
+  // Southern Africa
+  ['bw', 'Botswana', ['southern-africa']],
+  ['sz', 'Eswatini', ['southern-africa'], ['swaziland']],
+  ['ls', 'Lesotho', ['southern-africa']],
+  ['na', 'Namibia', ['southern-africa']],
+  ['za', 'South Africa', ['southern-africa'], ['rsa']],
+  // Northern America
+  [
+    'us',
+    'United States',
+    ['northern-america'],
+    [
+      'usa',
+      'us',
+      'u s',
+      'u s a',
+      'united states of america',
+      'america',
+      'the united states',
+    ],
+  ],
+  ['ca', 'Canada', ['northern-america']],
+  // Central America
+  ['bz', 'Belize', ['central-america']],
+  ['cr', 'Costa Rica', ['central-america']],
+  ['sv', 'El Salvador', ['central-america']],
+  ['gt', 'Guatemala', ['central-america']],
+  ['hn', 'Honduras', ['central-america']],
+  ['mx', 'Mexico', ['central-america']],
+  ['ni', 'Nicaragua', ['central-america']],
+  ['pa', 'Panama', ['central-america']],
+  // Caribbean
+  ['ag', 'Antigua and Barbuda', ['caribbean']],
+  ['bs', 'Bahamas', ['caribbean'], ['the bahamas']],
+  ['bb', 'Barbados', ['caribbean']],
+  ['cu', 'Cuba', ['caribbean']],
+  ['dm', 'Dominica', ['caribbean']],
+  ['do', 'Dominican Republic', ['caribbean']],
+  ['gd', 'Grenada', ['caribbean']],
+  ['ht', 'Haiti', ['caribbean']],
+  ['jm', 'Jamaica', ['caribbean']],
+  ['pr', 'Puerto Rico', ['caribbean']],
+  ['kn', 'Saint Kitts and Nevis', ['caribbean']],
+  ['lc', 'Saint Lucia', ['caribbean']],
+  ['vc', 'Saint Vincent and the Grenadines', ['caribbean']],
+  ['tt', 'Trinidad and Tobago', ['caribbean'], ['trinidad']],
+  // South America
+  ['ar', 'Argentina', ['continent:south-america', 'latin-america']],
+  ['bo', 'Bolivia', ['continent:south-america', 'latin-america']],
+  ['br', 'Brazil', ['continent:south-america', 'latin-america'], ['brasil']],
+  ['cl', 'Chile', ['continent:south-america', 'latin-america']],
+  ['co', 'Colombia', ['continent:south-america', 'latin-america']],
+  ['ec', 'Ecuador', ['continent:south-america', 'latin-america']],
+  ['gy', 'Guyana', ['continent:south-america', 'latin-america']],
+  ['py', 'Paraguay', ['continent:south-america', 'latin-america']],
+  ['pe', 'Peru', ['continent:south-america', 'latin-america']],
+  ['sr', 'Suriname', ['continent:south-america', 'latin-america']],
+  ['uy', 'Uruguay', ['continent:south-america', 'latin-america']],
+  ['ve', 'Venezuela', ['continent:south-america', 'latin-america']],
+  // Central Asia
+  ['kz', 'Kazakhstan', ['central-asia']],
+  ['kg', 'Kyrgyzstan', ['central-asia']],
+  ['tj', 'Tajikistan', ['central-asia']],
+  ['tm', 'Turkmenistan', ['central-asia']],
+  ['uz', 'Uzbekistan', ['central-asia']],
+  // Eastern Asia
+  ['cn', 'China', ['eastern-asia'], ['prc', 'mainland china']],
+  ['hk', 'Hong Kong', ['eastern-asia'], ['hong kong sar']],
+  ['jp', 'Japan', ['eastern-asia']],
+  ['mn', 'Mongolia', ['eastern-asia']],
+  ['kp', 'North Korea', ['eastern-asia'], ['dprk']],
+  ['kr', 'South Korea', ['eastern-asia'], ['korea', 'republic of korea']],
+  ['tw', 'Taiwan', ['eastern-asia']],
+  // South-Eastern Asia
+  ['bn', 'Brunei', ['south-eastern-asia']],
+  ['kh', 'Cambodia', ['south-eastern-asia']],
+  ['id', 'Indonesia', ['south-eastern-asia']],
+  ['la', 'Laos', ['south-eastern-asia'], ['lao pdr']],
+  ['my', 'Malaysia', ['south-eastern-asia']],
+  ['mm', 'Myanmar', ['south-eastern-asia'], ['burma']],
+  ['ph', 'Philippines', ['south-eastern-asia'], ['the philippines']],
+  ['sg', 'Singapore', ['south-eastern-asia']],
+  ['th', 'Thailand', ['south-eastern-asia']],
+  ['tl', 'Timor-Leste', ['south-eastern-asia'], ['east timor']],
+  ['vn', 'Vietnam', ['south-eastern-asia'], ['viet nam']],
+  // Southern Asia
+  ['af', 'Afghanistan', ['southern-asia']],
+  ['bd', 'Bangladesh', ['southern-asia']],
+  ['bt', 'Bhutan', ['southern-asia']],
+  ['in', 'India', ['southern-asia']],
+  ['ir', 'Iran', ['southern-asia', 'middle-east']],
+  ['mv', 'Maldives', ['southern-asia']],
+  ['np', 'Nepal', ['southern-asia']],
+  ['pk', 'Pakistan', ['southern-asia']],
+  ['lk', 'Sri Lanka', ['southern-asia']],
+  // Western Asia
+  ['am', 'Armenia', ['western-asia']],
+  ['az', 'Azerbaijan', ['western-asia']],
+  ['bh', 'Bahrain', ['western-asia', 'middle-east']],
+  ['cy', 'Cyprus', ['western-asia', 'european-union']],
+  ['ge', 'Georgia', ['western-asia']],
+  ['iq', 'Iraq', ['western-asia', 'middle-east']],
+  ['il', 'Israel', ['western-asia', 'middle-east']],
+  ['jo', 'Jordan', ['western-asia', 'middle-east']],
+  ['kw', 'Kuwait', ['western-asia', 'middle-east']],
+  ['lb', 'Lebanon', ['western-asia', 'middle-east']],
+  ['om', 'Oman', ['western-asia', 'middle-east']],
+  [
+    'ps',
+    'Palestine',
+    ['western-asia', 'middle-east'],
+    ['palestinian territories', 'west bank', 'gaza'],
+  ],
+  ['qa', 'Qatar', ['western-asia', 'middle-east']],
+  ['sa', 'Saudi Arabia', ['western-asia', 'middle-east'], ['ksa']],
+  ['sy', 'Syria', ['western-asia', 'middle-east']],
+  ['tr', 'Turkey', ['western-asia', 'middle-east'], ['turkiye']],
+  [
+    'ae',
+    'United Arab Emirates',
+    ['western-asia', 'middle-east'],
+    ['uae', 'u a e', 'emirates'],
+  ],
+  ['ye', 'Yemen', ['western-asia', 'middle-east']],
+  // Eastern Europe
+  ['by', 'Belarus', ['eastern-europe']],
+  ['bg', 'Bulgaria', ['eastern-europe', 'european-union']],
+  ['cz', 'Czechia', ['eastern-europe', 'european-union'], ['czech republic']],
+  ['hu', 'Hungary', ['eastern-europe', 'european-union']],
+  ['md', 'Moldova', ['eastern-europe']],
+  ['pl', 'Poland', ['eastern-europe', 'european-union']],
+  ['ro', 'Romania', ['eastern-europe', 'european-union']],
+  ['ru', 'Russia', ['eastern-europe'], ['russian federation']],
+  ['sk', 'Slovakia', ['eastern-europe', 'european-union']],
+  ['ua', 'Ukraine', ['eastern-europe']],
+  // Northern Europe
+  ['dk', 'Denmark', ['northern-europe', 'european-union']],
+  ['ee', 'Estonia', ['northern-europe', 'european-union']],
+  ['fi', 'Finland', ['northern-europe', 'european-union']],
+  ['is', 'Iceland', ['northern-europe']],
+  ['ie', 'Ireland', ['northern-europe', 'european-union']],
+  ['lv', 'Latvia', ['northern-europe', 'european-union']],
+  ['lt', 'Lithuania', ['northern-europe', 'european-union']],
+  ['no', 'Norway', ['northern-europe']],
+  ['se', 'Sweden', ['northern-europe', 'european-union']],
+  [
+    'gb',
+    'United Kingdom',
+    ['northern-europe'],
+    [
+      'uk',
+      'u k',
+      'great britain',
+      'britain',
+      'england',
+      'scotland',
+      'wales',
+      'northern ireland',
+    ],
+  ],
+  // Southern Europe
+  ['al', 'Albania', ['southern-europe']],
+  ['ad', 'Andorra', ['southern-europe']],
+  ['ba', 'Bosnia and Herzegovina', ['southern-europe'], ['bosnia']],
+  ['hr', 'Croatia', ['southern-europe', 'european-union']],
+  ['gr', 'Greece', ['southern-europe', 'european-union']],
+  ['it', 'Italy', ['southern-europe', 'european-union']],
+  ['xk', 'Kosovo', ['southern-europe']],
+  ['mt', 'Malta', ['southern-europe', 'european-union']],
+  ['me', 'Montenegro', ['southern-europe']],
+  ['mk', 'North Macedonia', ['southern-europe'], ['macedonia']],
+  ['pt', 'Portugal', ['southern-europe', 'european-union']],
+  ['sm', 'San Marino', ['southern-europe']],
+  ['rs', 'Serbia', ['southern-europe']],
+  ['si', 'Slovenia', ['southern-europe', 'european-union']],
+  ['es', 'Spain', ['southern-europe', 'european-union']],
+  ['va', 'Vatican City', ['southern-europe'], ['holy see']],
+  // Western Europe
+  ['at', 'Austria', ['western-europe', 'european-union']],
+  ['be', 'Belgium', ['western-europe', 'european-union']],
+  ['fr', 'France', ['western-europe', 'european-union']],
+  ['de', 'Germany', ['western-europe', 'european-union'], ['deutschland']],
+  ['li', 'Liechtenstein', ['western-europe']],
+  ['lu', 'Luxembourg', ['western-europe', 'european-union']],
+  ['mc', 'Monaco', ['western-europe']],
+  [
+    'nl',
+    'Netherlands',
+    ['western-europe', 'european-union'],
+    ['the netherlands', 'holland'],
+  ],
+  ['ch', 'Switzerland', ['western-europe']],
+  // Australia and New Zealand
+  ['au', 'Australia', ['australia-new-zealand']],
+  ['nz', 'New Zealand', ['australia-new-zealand'], ['aotearoa']],
+  // Pacific Islands
+  ['fj', 'Fiji', ['pacific-islands']],
+  ['ki', 'Kiribati', ['pacific-islands']],
+  ['mh', 'Marshall Islands', ['pacific-islands']],
+  ['fm', 'Federated States of Micronesia', ['pacific-islands']],
+  ['nr', 'Nauru', ['pacific-islands']],
+  ['pw', 'Palau', ['pacific-islands']],
+  ['pg', 'Papua New Guinea', ['pacific-islands'], ['png']],
+  ['ws', 'Samoa', ['pacific-islands']],
+  ['sb', 'Solomon Islands', ['pacific-islands']],
+  ['to', 'Tonga', ['pacific-islands']],
+  ['tv', 'Tuvalu', ['pacific-islands']],
+  ['vu', 'Vanuatu', ['pacific-islands']],
+];
+
+// [country code, name, latitude, longitude, aliases]
+const CITIES: [string, string, number, number, string[]?][] = [
+  // Nigeria
+  [
+    'ng',
+    'Lagos',
+    6.5244,
+    3.3792,
+    ['ikeja', 'lekki', 'victoria island', 'yaba'],
+  ],
+  ['ng', 'Abuja', 9.0765, 7.3986, ['fct', 'federal capital territory']],
+  ['ng', 'Ibadan', 7.3775, 3.947],
+  ['ng', 'Port Harcourt', 4.8156, 7.0498, ['ph city']],
+  ['ng', 'Kano', 12.0022, 8.592],
+  ['ng', 'Kaduna', 10.5105, 7.4165],
+  ['ng', 'Enugu', 6.4584, 7.5464],
+  ['ng', 'Benin City', 6.335, 5.6037],
+  ['ng', 'Jos', 9.8965, 8.8583],
+  ['ng', 'Ilorin', 8.4966, 4.5421],
+  ['ng', 'Abeokuta', 7.1475, 3.3619],
+  ['ng', 'Owerri', 5.4836, 7.0333],
+  ['ng', 'Uyo', 5.0377, 7.9128],
+  ['ng', 'Calabar', 4.9757, 8.3417],
+  ['ng', 'Warri', 5.5167, 5.75],
+  ['ng', 'Akure', 7.2571, 5.2058],
+  // Western Africa
+  ['gh', 'Accra', 5.6037, -0.187],
+  ['gh', 'Kumasi', 6.6885, -1.6244],
+  ['gh', 'Tamale', 9.4034, -0.8424],
+  ['sn', 'Dakar', 14.7167, -17.4677],
+  ['ci', 'Abidjan', 5.36, -4.0083],
+  ['bj', 'Cotonou', 6.3703, 2.3912],
+  ['tg', 'Lomé', 6.1319, 1.2228],
+  ['bf', 'Ouagadougou', 12.3714, -1.5197],
+  ['ml', 'Bamako', 12.6392, -8.0029],
+  ['ne', 'Niamey', 13.5116, 2.1254],
+  ['sl', 'Freetown', 8.4657, -13.2317],
+  ['lr', 'Monrovia', 6.3156, -10.8074],
+  ['gm', 'Banjul', 13.4549, -16.579],
+  ['gn', 'Conakry', 9.6412, -13.5784],
+  // Eastern Africa
+  ['ke', 'Nairobi', -1.2921, 36.8219],
+  ['ke', 'Mombasa', -4.0435, 39.6682],
+  ['ke', 'Kisumu', -0.0917, 34.768],
+  ['rw', 'Kigali', -1.9441, 30.0619],
+  ['ug', 'Kampala', 0.3476, 32.5825],
+  ['tz', 'Dar es Salaam', -6.7924, 39.2083],
+  ['tz', 'Arusha', -3.3869, 36.683],
+  ['tz', 'Dodoma', -6.163, 35.7516],
+  ['et', 'Addis Ababa', 9.0054, 38.7636],
+  ['zm', 'Lusaka', -15.3875, 28.3228],
+  ['zw', 'Harare', -17.8252, 31.0335],
+  ['zw', 'Bulawayo', -20.1325, 28.6265],
+  ['mw', 'Lilongwe', -13.9626, 33.7741],
+  ['mz', 'Maputo', -25.9692, 32.5732],
+  ['mg', 'Antananarivo', -18.8792, 47.5079],
+  ['mu', 'Port Louis', -20.1609, 57.5012],
+  ['so', 'Mogadishu', 2.0469, 45.3182],
+  ['ss', 'Juba', 4.8594, 31.5713],
+  ['bi', 'Bujumbura', -3.3614, 29.3599],
+  // Middle Africa
+  ['cm', 'Douala', 4.0511, 9.7679],
+  ['cm', 'Yaoundé', 3.848, 11.5021],
+  ['cd', 'Kinshasa', -4.4419, 15.2663],
+  ['cd', 'Lubumbashi', -11.6876, 27.5026],
+  ['cd', 'Goma', -1.6585, 29.2205],
+  ['ao', 'Luanda', -8.839, 13.2894],
+  ['ga', 'Libreville', 0.4162, 9.4673],
+  ['cg', 'Brazzaville', -4.2634, 15.2429],
+  // Southern Africa
+  ['za', 'Johannesburg', -26.2041, 28.0473, ['joburg', 'jozi', 'sandton']],
+  ['za', 'Cape Town', -33.9249, 18.4241],
+  ['za', 'Pretoria', -25.7479, 28.2293, ['tshwane']],
+  ['za', 'Durban', -29.8587, 31.0218],
+  ['bw', 'Gaborone', -24.6282, 25.9231],
+  ['na', 'Windhoek', -22.5609, 17.0658],
+  // Northern Africa
+  ['eg', 'Cairo', 30.0444, 31.2357],
+  ['eg', 'Alexandria', 31.2001, 29.9187],
+  ['ma', 'Casablanca', 33.5731, -7.5898],
+  ['ma', 'Rabat', 34.0209, -6.8416],
+  ['ma', 'Marrakesh', 31.6295, -7.9811, ['marrakech']],
+  ['tn', 'Tunis', 36.8065, 10.1815],
+  ['dz', 'Algiers', 36.7538, 3.0588],
+  ['ly', 'Tripoli', 32.8872, 13.1913],
+  ['sd', 'Khartoum', 15.5007, 32.5599],
+  // Northern America
+  [
+    'us',
+    'New York',
+    40.7128,
+    -74.006,
+    ['new york city', 'nyc', 'manhattan', 'brooklyn'],
+  ],
+  [
+    'us',
+    'San Francisco',
+    37.7749,
+    -122.4194,
+    ['sf', 'bay area', 'san francisco bay area'],
+  ],
+  ['us', 'Los Angeles', 34.0522, -118.2437],
+  ['us', 'Seattle', 47.6062, -122.3321],
+  ['us', 'Boston', 42.3601, -71.0589],
+  ['us', 'Chicago', 41.8781, -87.6298],
+  ['us', 'Austin', 30.2672, -97.7431],
+  [
+    'us',
+    'Washington',
+    38.9072,
+    -77.0369,
+    ['washington dc', 'washington d c', 'dc', 'd c'],
+  ],
+  ['us', 'Atlanta', 33.749, -84.388],
+  ['us', 'Houston', 29.7604, -95.3698],
+  ['us', 'Dallas', 32.7767, -96.797],
+  ['us', 'Denver', 39.7392, -104.9903],
+  ['us', 'Miami', 25.7617, -80.1918],
+  ['us', 'Philadelphia', 39.9526, -75.1652],
+  ['us', 'San Jose', 37.3382, -121.8863],
+  ['us', 'San Diego', 32.7157, -117.1611],
+  ['us', 'Palo Alto', 37.4419, -122.143],
+  ['us', 'Mountain View', 37.3861, -122.0839],
+  ['ca', 'Toronto', 43.6532, -79.3832],
+  ['ca', 'Vancouver', 49.2827, -123.1207],
+  ['ca', 'Montreal', 45.5017, -73.5673],
+  ['ca', 'Ottawa', 45.4215, -75.6972],
+  ['ca', 'Calgary', 51.0447, -114.0719],
+  // Latin America
+  ['mx', 'Mexico City', 19.4326, -99.1332, ['cdmx']],
+  ['br', 'São Paulo', -23.5505, -46.6333],
+  ['br', 'Rio de Janeiro', -22.9068, -43.1729],
+  ['ar', 'Buenos Aires', -34.6037, -58.3816],
+  ['co', 'Bogotá', 4.711, -74.0721],
+  ['pe', 'Lima', -12.0464, -77.0428],
+  ['cl', 'Santiago', -33.4489, -70.6693],
+  // Europe
+  ['gb', 'London', 51.5074, -0.1278],
+  ['gb', 'Manchester', 53.4808, -2.2426],
+  ['gb', 'Birmingham', 52.4862, -1.8904],
+  ['gb', 'Edinburgh', 55.9533, -3.1883],
+  ['gb', 'Cambridge', 52.2053, 0.1218],
+  ['gb', 'Oxford', 51.752, -1.2577],
+  ['ie', 'Dublin', 53.3498, -6.2603],
+  ['fr', 'Paris', 48.8566, 2.3522],
+  ['fr', 'Lyon', 45.764, 4.8357],
+  ['de', 'Berlin', 52.52, 13.405],
+  ['de', 'Munich', 48.1351, 11.582, ['munchen']],
+  ['de', 'Hamburg', 53.5511, 9.9937],
+  ['de', 'Frankfurt', 50.1109, 8.6821],
+  ['de', 'Bonn', 50.7374, 7.0982],
+  ['nl', 'Amsterdam', 52.3676, 4.9041],
+  ['nl', 'The Hague', 52.0705, 4.3007, ['den haag']],
+  ['nl', 'Rotterdam', 51.9244, 4.4777],
+  ['be', 'Brussels', 50.8503, 4.3517, ['bruxelles']],
+  ['lu', 'Luxembourg City', 49.6116, 6.1319],
+  ['ch', 'Geneva', 46.2044, 6.1432, ['geneve']],
+  ['ch', 'Zurich', 47.3769, 8.5417],
+  ['at', 'Vienna', 48.2082, 16.3738, ['wien']],
+  ['es', 'Madrid', 40.4168, -3.7038],
+  ['es', 'Barcelona', 41.3851, 2.1734],
+  ['pt', 'Lisbon', 38.7223, -9.1393, ['lisboa']],
+  ['it', 'Rome', 41.9028, 12.4964, ['roma']],
+  ['it', 'Milan', 45.4642, 9.19, ['milano']],
+  ['se', 'Stockholm', 59.3293, 18.0686],
+  ['dk', 'Copenhagen', 55.6761, 12.5683],
+  ['no', 'Oslo', 59.9139, 10.7522],
+  ['fi', 'Helsinki', 60.1699, 24.9384],
+  ['ee', 'Tallinn', 59.437, 24.7536],
+  ['pl', 'Warsaw', 52.2297, 21.0122],
+  ['pl', 'Krakow', 50.0647, 19.945],
+  ['cz', 'Prague', 50.0755, 14.4378],
+  ['hu', 'Budapest', 47.4979, 19.0402],
+  ['ro', 'Bucharest', 44.4268, 26.1025],
+  ['gr', 'Athens', 37.9838, 23.7275],
+  ['tr', 'Istanbul', 41.0082, 28.9784],
+  ['tr', 'Ankara', 39.9334, 32.8597],
+  ['ru', 'Moscow', 55.7558, 37.6173],
+  ['ua', 'Kyiv', 50.4501, 30.5234, ['kiev']],
+  // Middle East
+  ['ae', 'Dubai', 25.2048, 55.2708],
+  ['ae', 'Abu Dhabi', 24.4539, 54.3773],
+  ['qa', 'Doha', 25.2854, 51.531],
+  ['sa', 'Riyadh', 24.7136, 46.6753],
+  ['sa', 'Jeddah', 21.4858, 39.1925],
+  ['il', 'Tel Aviv', 32.0853, 34.7818],
+  ['jo', 'Amman', 31.9454, 35.9284],
+  ['lb', 'Beirut', 33.8938, 35.5018],
+  ['bh', 'Manama', 26.2285, 50.586],
+  ['kw', 'Kuwait City', 29.3759, 47.9774],
+  // Asia
+  ['in', 'Mumbai', 19.076, 72.8777, ['bombay']],
+  ['in', 'New Delhi', 28.6139, 77.209, ['delhi']],
+  ['in', 'Bengaluru', 12.9716, 77.5946, ['bangalore']],
+  ['in', 'Hyderabad', 17.385, 78.4867],
+  ['in', 'Chennai', 13.0827, 80.2707, ['madras']],
+  ['in', 'Pune', 18.5204, 73.8567],
+  ['in', 'Kolkata', 22.5726, 88.3639, ['calcutta']],
+  ['pk', 'Karachi', 24.8607, 67.0011],
+  ['pk', 'Lahore', 31.5204, 74.3587],
+  ['pk', 'Islamabad', 33.6844, 73.0479],
+  ['bd', 'Dhaka', 23.8103, 90.4125],
+  ['lk', 'Colombo', 6.9271, 79.8612],
+  ['np', 'Kathmandu', 27.7172, 85.324],
+  ['my', 'Kuala Lumpur', 3.139, 101.6869, ['kl']],
+  ['id', 'Jakarta', -6.2088, 106.8456],
+  ['th', 'Bangkok', 13.7563, 100.5018],
+  ['ph', 'Manila', 14.5995, 120.9842, ['metro manila']],
+  ['vn', 'Ho Chi Minh City', 10.8231, 106.6297, ['saigon']],
+  ['vn', 'Hanoi', 21.0278, 105.8342],
+  ['cn', 'Beijing', 39.9042, 116.4074],
+  ['cn', 'Shanghai', 31.2304, 121.4737],
+  ['cn', 'Shenzhen', 22.5431, 114.0579],
+  ['jp', 'Tokyo', 35.6762, 139.6503],
+  ['jp', 'Osaka', 34.6937, 135.5023],
+  ['kr', 'Seoul', 37.5665, 126.978],
+  ['tw', 'Taipei', 25.033, 121.5654],
+  // Oceania
+  ['au', 'Sydney', -33.8688, 151.2093],
+  ['au', 'Melbourne', -37.8136, 144.9631],
+  ['au', 'Brisbane', -27.4698, 153.0251],
+  ['au', 'Perth', -31.9505, 115.8605],
+  ['au', 'Canberra', -35.2809, 149.13],
+  ['nz', 'Auckland', -36.8485, 174.7633],
+  ['nz', 'Wellington', -41.2865, 174.7762],
+];
+
+// States and provinces, resolved to their country. Names are matched
+// anywhere in a location; codes only when they make up a whole part of it,
+// as in "Austin, TX".
+export const SUBDIVISIONS: Record<
+  string,
+  { names: string[]; codes: string[] }
+> = {
+  us: {
+    names: [
+      'alabama',
+      'alaska',
+      'arizona',
+      'arkansas',
+      'california',
+      'colorado',
+      'connecticut',
+      'delaware',
+      'florida',
+      'georgia',
+      'hawaii',
+      'idaho',
+      'illinois',
+      'indiana',
+      'iowa',
+      'kansas',
+      'kentucky',
+      'louisiana',
+      'maine',
+      'maryland',
+      'massachusetts',
+      'michigan',
+      'minnesota',
+      'mississippi',
+      'missouri',
+      'montana',
+      'nebraska',
+      'nevada',
+      'new hampshire',
+      'new jersey',
+      'new mexico',
+      'new york state',
+      'north carolina',
+      'north dakota',
+      'ohio',
+      'oklahoma',
+      'oregon',
+      'pennsylvania',
+      'rhode island',
+      'south carolina',
+      'south dakota',
+      'tennessee',
+      'texas',
+      'utah',
+      'vermont',
+      'virginia',
+      'washington state',
+      'west virginia',
+      'wisconsin',
+      'wyoming',
+    ],
+    codes: [
+      'al',
+      'ak',
+      'az',
+      'ar',
+      'ca',
+      'co',
+      'ct',
+      'de',
+      'fl',
+      'ga',
+      'hi',
+      'id',
+      'il',
+      'in',
+      'ia',
+      'ks',
+      'ky',
+      'la',
+      'me',
+      'md',
+      'ma',
+      'mi',
+      'mn',
+      'ms',
+      'mo',
+      'mt',
+      'ne',
+      'nv',
+      'nh',
+      'nj',
+      'nm',
+      'ny',
+      'nc',
+      'nd',
+      'oh',
+      'ok',
+      'or',
+      'pa',
+      'ri',
+      'sc',
+      'sd',
+      'tn',
+      'tx',
+      'ut',
+      'vt',
+      'va',
+      'wa',
+      'wv',
+      'wi',
+      'wy',
+    ],
+  },
+  ca: {
+    names: [
+      'alberta',
+      'british columbia',
+      'manitoba',
+      'new brunswick',
+      'newfoundland',
+      'nova scotia',
+      'ontario',
+      'prince edward island',
+      'quebec',
+      'saskatchewan',
+    ],
+    codes: ['ab', 'bc', 'mb', 'nb', 'nl', 'ns', 'on', 'pe', 'qc', 'sk'],
+  },
+  au: {
+    names: [
+      'new south wales',
+      'victoria',
+      'queensland',
+      'western australia',
+      'south australia',
+      'tasmania',
+    ],
+    codes: ['nsw', 'vic', 'qld', 'wa', 'sa', 'tas'],
+  },
+  ng: {
+    names: [
+      'abia',
+      'adamawa',
+      'akwa ibom',
+      'anambra',
+      'bauchi',
+      'bayelsa',
+      'benue',
+      'borno',
+      'cross river',
+      'delta state',
+      'ebonyi',
+      'edo',
+      'ekiti',
+      'gombe',
+      'imo',
+      'jigawa',
+      'katsina',
+      'kebbi',
+      'kogi',
+      'kwara',
+      'nasarawa',
+      'niger delta',
+      'niger state',
+      'ogun',
+      'ondo',
+      'osun',
+      'oyo',
+      'plateau state',
+      'rivers state',
+      'sokoto',
+      'taraba',
+      'yobe',
+      'zamfara',
+    ],
+    codes: [],
+  },
+};
+
+function slugify(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+export const PLACES: Place[] = [
+  WORLD,
+  ...CONTINENTS.map(([slug, name, parentIds, aliases]) => ({
+    id: `continent:${slug}`,
+    name,
+    kind: 'continent' as const,
+    parentIds,
+    aliases,
+  })),
+  ...REGIONS.map(([slug, name, parentIds, aliases]) => ({
+    id: `region:${slug}`,
+    name,
+    kind: 'region' as const,
+    parentIds,
+    aliases,
+  })),
+  ...COUNTRIES.map(([code, name, parents, aliases = []]) => ({
+    id: `country:${code}`,
+    name,
+    kind: 'country' as const,
+    parentIds: parents.map((parent) =>
+      parent.includes(':') ? parent : `region:${parent}`
+    ),
+    aliases,
+  })),
+  ...CITIES.map(([code, name, lat, lon, aliases = []]) => ({
+    id: `city:${code}-${slugify(name)}`,
+    name,
+    kind: 'city' as const,
+    parentIds: [`country:${code}`],
+    aliases,
+    lat,
+    lon,
+  })),
+];
@@ -1,7 +1,14 @@
 import { NextFunction, Request, Response } from 'express';
 import { adminOpportunityService } from '../services/admin-opportunity-service';
+import { opportunityLivenessService } from '../services/opportunity-liveness-service';
+import { locationService } from '../services/location-service';
+import { compensationService } from '../services/compensation-service';
 import { sendSuccess } from '../utils/send-response';
-import { opportunityQuerySchema } from '../schemas/opportunity';
+import {
+  livenessReportQuerySchema,
+  opportunityQuerySchema,
+  reviewLivenessReportSchema,
+} from '../schemas/opportunity';
 
 class AdminOpportunityController {
   getAdminOpportunities = async (
@@ -77,6 +84,98 @@ class AdminOpportunityController {
       next(error);
     }
   };
+
+  getLivenessReports = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const validatedQuery = livenessReportQuerySchema.parse(req.query);
+      const result =
+        await opportunityLivenessService.getReports(validatedQuery);
+      return sendSuccess(
+        res,
+        result,
+        'Liveness reports retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  reviewLivenessReport = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+      const validatedData = reviewLivenessReportSchema.parse(req.body);
+      const reviewerId = req.user?.id;
+
+      if (!reviewerId) {
+        return sendSuccess(res, null, 'User not authenticated', 401);
+      }
+
+      const result = await opportunityLivenessService.reviewReport(
+        id,
+        validatedData,
+        reviewerId
+      );
+      return sendSuccess(res, result, 'Liveness report reviewed successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  runLivenessCheck = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await opportunityLivenessService.queueCheck();
+      return sendSuccess(res, result, 'Liveness check queued successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  normalizeLocations = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result = await locationService.normalizeOpportunityLocations();
+      return sendSuccess(
+        res,
+        result,
+        'Opportunity locations normalized successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  normalizeCompensation = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const result =
+        await compensationService.normalizeOpportunityCompensation();
+      return sendSuccess(
+        res,
+        result,
+        'Opportunity compensation normalized successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
 }
 
 export const adminOpportunityController = new AdminOpportunityController();
@@ -1,5 +1,6 @@
 import { NextFunction, Request, Response } from 'express';
 import { aiDraftService } from '../services/ai-draft-service';
+import { opportunityTypeClassifierService } from '../services/opportunity-type-classifier-service';
 import { sendSuccess } from '../utils/send-response';
 import {
   createAIDraftSchema,
@@ -7,6 +8,10 @@ import {
   aiDraftQuerySchema,
   reviewAIDraftSchema,
   publishAIDraftSchema,
+  bulkReviewAIDraftsSchema,
+  bulkPublishAIDraftsSchema,
+  mergeDuplicateClustersSchema,
+  splitDuplicateClusterSchema,
 } from '../schemas/ai-draft';
 
 class AIDraftController {
@@ -52,6 +57,20 @@ class AIDraftController {
     }
   };
 
+  getRevisionDiff = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+      const result = await aiDraftService.getRevisionDiff(id);
+      return sendSuccess(res, result, 'Revision diff retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
   updateAIDraft = async (
     req: Request,
     res: Response,
@@ -121,6 +140,89 @@ class AIDraftController {
     }
   };
 
+  classifyAIDraft = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+      const result = await opportunityTypeClassifierService.classifyDraft(id);
+      return sendSuccess(res, result, 'AI draft classified successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  bulkReviewAIDrafts = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const validatedData = bulkReviewAIDraftsSchema.parse(req.body);
+      const reviewerId = req.user?.id;
+
+      if (!reviewerId) {
+        return sendSuccess(res, null, 'User not authenticated', 401);
+      }
+
+      const result = await aiDraftService.bulkReviewAIDrafts(
+        validatedData,
+        reviewerId
+      );
+      return sendSuccess(res, result, 'AI drafts reviewed');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  bulkPublishAIDrafts = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const validatedData = bulkPublishAIDraftsSchema.parse(req.body);
+      const result = await aiDraftService.bulkPublishAIDrafts(validatedData);
+      return sendSuccess(res, result, 'AI drafts published');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  mergeDuplicateClusters = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const validatedData = mergeDuplicateClustersSchema.parse(req.body);
+      const result = await aiDraftService.mergeDuplicateClusters(validatedData);
+      return sendSuccess(res, result, 'Duplicate clusters merged successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  splitDuplicateCluster = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { clusterId } = req.params;
+      const validatedData = splitDuplicateClusterSchema.parse(req.body);
+      const result = await aiDraftService.splitDuplicateCluster(
+        clusterId,
+        validatedData
+      );
+      return sendSuccess(res, result, 'Duplicate cluster split successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
   getAIDraftStats = async (
     req: Request,
     res: Response,
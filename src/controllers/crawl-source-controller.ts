@@ -1,10 +1,25 @@
 import { NextFunction, Request, Response } from 'express';
 import { crawlSourceService } from '../services/crawl-source-service';
+import { crawlRunService } from '../services/crawl-run-service';
+import { crawlSchedulerService } from '../services/crawl-scheduler-service';
+import {
+  CrawlProgressEvent,
+  crawlQueueService,
+} from '../services/crawl-queue-service';
+import { crawlSourceHealthService } from '../services/crawl-source-health-service';
 import { sendSuccess } from '../utils/send-response';
+import { EventStream, openEventStream } from '../utils/event-stream';
 import {
   createCrawlSourceSchema,
   updateCrawlSourceSchema,
   crawlSourceQuerySchema,
+  crawlRunQuerySchema,
+  upcomingScheduleQuerySchema,
+  crawlQueueNameSchema,
+  failedJobsQuerySchema,
+  failedJobsActionSchema,
+  previewCrawlSourceSchema,
+  crawlSourceAlertQuerySchema,
 } from '../schemas/crawl-source';
 
 class CrawlSourceController {
@@ -22,6 +37,20 @@ class CrawlSourceController {
     }
   };
 
+  previewCrawlSource = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const validatedData = previewCrawlSourceSchema.parse(req.body);
+      const result = await crawlSourceService.previewCrawlSource(validatedData);
+      return sendSuccess(res, result, 'Crawl source preview completed');
+    } catch (error) {
+      next(error);
+    }
+  };
+
   getCrawlSources = async (
     req: Request,
     res: Response,
@@ -86,13 +115,119 @@ class CrawlSourceController {
   ) => {
     try {
       const { id } = req.params;
-      const result = await crawlSourceService.triggerCrawl(id);
+      const result = await crawlSourceService.triggerCrawl(id, req.user?.id);
       return sendSuccess(res, result, 'Crawl triggered successfully');
     } catch (error) {
       next(error);
     }
   };
 
+  getCrawlSourceHealth = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+      const result = await crawlSourceHealthService.getHealth(id);
+      return sendSuccess(
+        res,
+        result,
+        'Crawl source health retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  releaseQuarantine = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+      const result = await crawlSourceHealthService.releaseQuarantine(id);
+      return sendSuccess(
+        res,
+        result,
+        'Crawl source released from quarantine successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getAlerts = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const validatedQuery = crawlSourceAlertQuerySchema.parse(req.query);
+      const result = await crawlSourceHealthService.getAlerts(validatedQuery);
+      return sendSuccess(
+        res,
+        result,
+        'Crawl source alerts retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  acknowledgeAlert = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { alertId } = req.params;
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return sendSuccess(res, null, 'User not authenticated', 401);
+      }
+
+      const result = await crawlSourceHealthService.acknowledgeAlert(
+        alertId,
+        userId
+      );
+      return sendSuccess(res, result, 'Alert acknowledged successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getCrawlRuns = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { id } = req.params;
+      const validatedQuery = crawlRunQuerySchema.parse(req.query);
+      const result = await crawlRunService.getRunsForSource(id, validatedQuery);
+      return sendSuccess(res, result, 'Crawl runs retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getCrawlRunById = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const { runId } = req.params;
+      const result = await crawlRunService.getRunById(runId);
+      return sendSuccess(res, result, 'Crawl run retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
   getQueueStatus = async (
     _req: Request,
     res: Response,
@@ -105,6 +240,173 @@ class CrawlSourceController {
       next(error);
     }
   };
+
+  getUpcomingSchedule = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const validatedQuery = upcomingScheduleQuerySchema.parse(req.query);
+      const result =
+        await crawlSchedulerService.getUpcomingSchedule(validatedQuery);
+      return sendSuccess(
+        res,
+        result,
+        'Upcoming crawl schedule retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getFailedJobs = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const validatedQuery = failedJobsQuerySchema.parse(req.query);
+      const result = await crawlQueueService.getFailedJobs(validatedQuery);
+      return sendSuccess(res, result, 'Failed jobs retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  retryFailedJob = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const queue = crawlQueueNameSchema.parse(req.params.queue);
+      const result = await crawlQueueService.retryFailedJob(
+        queue,
+        req.params.jobId
+      );
+      return sendSuccess(res, result, 'Job queued for retry');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  discardFailedJob = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const queue = crawlQueueNameSchema.parse(req.params.queue);
+      await crawlQueueService.discardFailedJob(queue, req.params.jobId);
+      return sendSuccess(res, null, 'Job discarded successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  retryFailedJobs = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const queue = crawlQueueNameSchema.parse(req.params.queue);
+      const { jobIds } = failedJobsActionSchema.parse(req.body ?? {});
+      const result = await crawlQueueService.retryFailedJobs(queue, jobIds);
+      return sendSuccess(
+        res,
+        result,
+        `${result.processed.length} failed jobs queued for retry`
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  discardFailedJobs = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const queue = crawlQueueNameSchema.parse(req.params.queue);
+      const { jobIds } = failedJobsActionSchema.parse(req.body ?? {});
+      const result = await crawlQueueService.discardFailedJobs(queue, jobIds);
+      return sendSuccess(
+        res,
+        result,
+        `${result.processed.length} failed jobs discarded`
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  pauseQueue = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const queue = crawlQueueNameSchema.parse(req.params.queue);
+      await crawlQueueService.pauseQueue(queue);
+      return sendSuccess(res, { queue, paused: true }, 'Queue paused');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  resumeQueue = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    try {
+      const queue = crawlQueueNameSchema.parse(req.params.queue);
+      await crawlQueueService.resumeQueue(queue);
+      return sendSuccess(res, { queue, paused: false }, 'Queue resumed');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  streamCrawlProgress = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ) => {
+    const { jobId } = req.params;
+
+    // Subscribe before reading the snapshot so no event emitted in between
+    // is lost; events are buffered until the snapshot has been sent
+    let stream: EventStream | null = null;
+    const buffered: CrawlProgressEvent[] = [];
+    const send = (event: CrawlProgressEvent) => {
+      stream?.send(event.type, event);
+      if (crawlQueueService.isCrawlFinished(event)) stream?.close();
+    };
+    const unsubscribe = crawlQueueService.onCrawlProgress(jobId, (event) =>
+      stream ? send(event) : buffered.push(event)
+    );
+
+    try {
+      const snapshot = await crawlQueueService.getCrawlProgress(jobId);
+
+      stream = openEventStream(res);
+      stream.onClose(unsubscribe);
+      stream.send('snapshot', snapshot);
+
+      if (snapshot.finished) {
+        return stream.close();
+      }
+
+      buffered.forEach(send);
+    } catch (error) {
+      unsubscribe();
+      next(error);
+    }
+  };
 }
 
 export const crawlSourceController = new CrawlSourceController();
@@ -0,0 +1,89 @@
+import { NextFunction, Request, Response } from 'express';
+import { draftTriageService } from '../services/draft-triage-service';
+import { sendSuccess } from '../utils/send-response';
+import {
+  createTriageRuleSchema,
+  updateTriageRuleSchema,
+  triageRuleQuerySchema,
+  triageDecisionQuerySchema,
+} from '../schemas/draft-triage';
+
+class DraftTriageController {
+  getRules = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const validatedQuery = triageRuleQuerySchema.parse(req.query);
+      const result = await draftTriageService.getRules(validatedQuery);
+      return sendSuccess(res, result, 'Triage rules retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  createRule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const validatedData = createTriageRuleSchema.parse(req.body);
+      const userId = req.user?.id;
+
+      if (!userId) {
+        return sendSuccess(res, null, 'User not authenticated', 401);
+      }
+
+      const result = await draftTriageService.createRule(validatedData, userId);
+      return sendSuccess(res, result, 'Triage rule created successfully', 201);
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  updateRule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { ruleId } = req.params;
+      const validatedData = updateTriageRuleSchema.parse(req.body);
+      const result = await draftTriageService.updateRule(ruleId, validatedData);
+      return sendSuccess(res, result, 'Triage rule updated successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  deleteRule = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { ruleId } = req.params;
+      await draftTriageService.deleteRule(ruleId);
+      return sendSuccess(res, null, 'Triage rule deleted successfully');
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  getDecisions = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const validatedQuery = triageDecisionQuerySchema.parse(req.query);
+      const result = await draftTriageService.getDecisions(validatedQuery);
+      return sendSuccess(
+        res,
+        result,
+        'Triage decisions retrieved successfully'
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  triageDraft = async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const result = await draftTriageService.triageDraft(id);
+      return sendSuccess(
+        res,
+        result,
+        result ? 'AI draft triaged successfully' : 'No triage rule matched'
+      );
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export const draftTriageController = new DraftTriageController();
+export default draftTriageController;
@@ -9,6 +9,7 @@ import {
   applicationSchema,
   updateApplicationSchema,
 } from '../schemas/opportunity';
+import { paginationQuerySchema } from '../schemas/pagination';
 
 class OpportunityController {
   // Opportunity CRUD
@@ -128,13 +129,10 @@ class OpportunityController {
         return res.status(401).json({ message: 'Unauthorized' });
       }
 
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
-
+      const validatedQuery = paginationQuerySchema.parse(req.query);
       const result = await opportunityService.getUserSavedJobs(
         userId,
-        page,
-        limit
+        validatedQuery
       );
       return sendSuccess(res, result, 'Saved jobs retrieved successfully');
     } catch (error) {
@@ -181,13 +179,10 @@ class OpportunityController {
         return res.status(401).json({ message: 'Unauthorized' });
       }
 
-      const page = parseInt(req.query.page as string) || 1;
-      const limit = parseInt(req.query.limit as string) || 10;
-
+      const validatedQuery = paginationQuerySchema.parse(req.query);
       const result = await opportunityService.getUserApplications(
         userId,
-        page,
-        limit
+        validatedQuery
       );
       return sendSuccess(res, result, 'Applications retrieved successfully');
     } catch (error) {
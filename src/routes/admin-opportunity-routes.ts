@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { adminOpportunityController } from '../controllers/admin-opportunity-controller';
-import { requireModeratorOrAdmin } from '../middleware/role-guard';
+import {
+  requireAdmin,
+  requireModeratorOrAdmin,
+} from '../middleware/role-guard';
 import { authenticate } from '../middleware/auth';
 
 const router = Router();
@@ -15,6 +18,36 @@ router.get('/', adminOpportunityController.getAdminOpportunities);
 // Get opportunity statistics
 router.get('/stats', adminOpportunityController.getOpportunityStats);
 
+// Get liveness reports for opportunities deactivated as closed
+router.get('/liveness/reports', adminOpportunityController.getLivenessReports);
+
+// Confirm or revert a liveness report
+router.patch(
+  '/liveness/reports/:id',
+  adminOpportunityController.reviewLivenessReport
+);
+
+// Queue a liveness check now (admin only)
+router.post(
+  '/liveness/run',
+  requireAdmin,
+  adminOpportunityController.runLivenessCheck
+);
+
+// Re-resolve the gazetteer places of every opportunity (admin only)
+router.post(
+  '/locations/normalize',
+  requireAdmin,
+  adminOpportunityController.normalizeLocations
+);
+
+// Re-parse the compensation of every opportunity (admin only)
+router.post(
+  '/compensation/normalize',
+  requireAdmin,
+  adminOpportunityController.normalizeCompensation
+);
+
 // Update opportunity status
 router.patch('/:id/status', adminOpportunityController.updateOpportunityStatus);
 
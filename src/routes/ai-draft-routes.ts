@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { aiDraftController } from '../controllers/ai-draft-controller';
+import { draftTriageController } from '../controllers/draft-triage-controller';
 import { authenticate } from '../middleware/auth';
 import {
   requireAdmin,
@@ -21,9 +22,75 @@ router.get(
   aiDraftController.getAIDraftStats
 );
 
+// Approve or reject many drafts, by ID or filter (moderator or admin)
+router.post(
+  '/bulk/review',
+  requireModeratorOrAdmin,
+  aiDraftController.bulkReviewAIDrafts
+);
+
+// Publish many approved drafts, by ID or filter (moderator or admin)
+router.post(
+  '/bulk/publish',
+  requireModeratorOrAdmin,
+  aiDraftController.bulkPublishAIDrafts
+);
+
+// Merge drafts and their duplicate clusters into one cluster (moderator or admin)
+router.post(
+  '/clusters/merge',
+  requireModeratorOrAdmin,
+  aiDraftController.mergeDuplicateClusters
+);
+
+// Split drafts out of a duplicate cluster (moderator or admin)
+router.post(
+  '/clusters/:clusterId/split',
+  requireModeratorOrAdmin,
+  aiDraftController.splitDuplicateCluster
+);
+
+// List triage rules (moderator or admin)
+router.get(
+  '/triage/rules',
+  requireModeratorOrAdmin,
+  draftTriageController.getRules
+);
+
+// Create a triage rule (admin only)
+router.post('/triage/rules', requireAdmin, draftTriageController.createRule);
+
+// Update a triage rule (admin only)
+router.put(
+  '/triage/rules/:ruleId',
+  requireAdmin,
+  draftTriageController.updateRule
+);
+
+// Delete a triage rule (admin only)
+router.delete(
+  '/triage/rules/:ruleId',
+  requireAdmin,
+  draftTriageController.deleteRule
+);
+
+// Audit trail of automated triage decisions (moderator or admin)
+router.get(
+  '/triage/decisions',
+  requireModeratorOrAdmin,
+  draftTriageController.getDecisions
+);
+
 // Get AI draft by ID (moderator or admin)
 router.get('/:id', requireModeratorOrAdmin, aiDraftController.getAIDraftById);
 
+// Get field-level diff of a revision draft (moderator or admin)
+router.get(
+  '/:id/diff',
+  requireModeratorOrAdmin,
+  aiDraftController.getRevisionDiff
+);
+
 // Create AI draft (moderator or admin)
 router.post('/', requireModeratorOrAdmin, aiDraftController.createAIDraft);
 
@@ -40,6 +107,20 @@ router.patch(
   aiDraftController.reviewAIDraft
 );
 
+// Run the triage rules against a pending draft (moderator or admin)
+router.post(
+  '/:id/triage',
+  requireModeratorOrAdmin,
+  draftTriageController.triageDraft
+);
+
+// Suggest opportunity types for a draft again (moderator or admin)
+router.post(
+  '/:id/classify',
+  requireModeratorOrAdmin,
+  aiDraftController.classifyAIDraft
+);
+
 // Publish AI draft (convert to opportunity) (moderator or admin)
 router.post(
   '/:id/publish',
@@ -14,6 +14,31 @@ router.use(authenticate);
 // Get all crawl sources (moderator or admin)
 router.get('/', requireModeratorOrAdmin, crawlSourceController.getCrawlSources);
 
+// Get a single crawl run (moderator or admin)
+router.get(
+  '/runs/:runId',
+  requireModeratorOrAdmin,
+  crawlSourceController.getCrawlRunById
+);
+
+// Stream live progress of a triggered crawl job as Server-Sent Events
+// (moderator or admin)
+router.get(
+  '/jobs/:jobId/events',
+  requireModeratorOrAdmin,
+  crawlSourceController.streamCrawlProgress
+);
+
+// List crawl source alerts, e.g. quarantines (admin only)
+router.get('/alerts', requireAdmin, crawlSourceController.getAlerts);
+
+// Acknowledge a crawl source alert (admin only)
+router.patch(
+  '/alerts/:alertId/acknowledge',
+  requireAdmin,
+  crawlSourceController.acknowledgeAlert
+);
+
 // Get crawl source by ID (moderator or admin)
 router.get(
   '/:id',
@@ -21,6 +46,14 @@ router.get(
   crawlSourceController.getCrawlSourceById
 );
 
+// Dry-run a URL and scraper configuration without saving anything
+// (moderator or admin)
+router.post(
+  '/preview',
+  requireModeratorOrAdmin,
+  crawlSourceController.previewCrawlSource
+);
+
 // Create crawl source (moderator or admin)
 router.post(
   '/',
@@ -38,6 +71,27 @@ router.put(
 // Delete crawl source (admin only)
 router.delete('/:id', requireAdmin, crawlSourceController.deleteCrawlSource);
 
+// Get run history for a crawl source (moderator or admin)
+router.get(
+  '/:id/runs',
+  requireModeratorOrAdmin,
+  crawlSourceController.getCrawlRuns
+);
+
+// Get health score breakdown for a crawl source (moderator or admin)
+router.get(
+  '/:id/health',
+  requireModeratorOrAdmin,
+  crawlSourceController.getCrawlSourceHealth
+);
+
+// Release a crawl source from quarantine (admin only)
+router.post(
+  '/:id/quarantine/release',
+  requireAdmin,
+  crawlSourceController.releaseQuarantine
+);
+
 // Trigger crawl (moderator or admin)
 router.post(
   '/:id/trigger',
@@ -52,4 +106,62 @@ router.get(
   crawlSourceController.getQueueStatus
 );
 
+// List failed crawl jobs (moderator or admin)
+router.get(
+  '/queue/failed',
+  requireModeratorOrAdmin,
+  crawlSourceController.getFailedJobs
+);
+
+// Retry failed jobs in a queue, all of them when no jobIds are given
+// (moderator or admin)
+router.post(
+  '/queue/:queue/failed/retry',
+  requireModeratorOrAdmin,
+  crawlSourceController.retryFailedJobs
+);
+
+// Discard failed jobs in a queue, all of them when no jobIds are given
+// (moderator or admin)
+router.post(
+  '/queue/:queue/failed/discard',
+  requireModeratorOrAdmin,
+  crawlSourceController.discardFailedJobs
+);
+
+// Retry a single failed job (moderator or admin)
+router.post(
+  '/queue/:queue/jobs/:jobId/retry',
+  requireModeratorOrAdmin,
+  crawlSourceController.retryFailedJob
+);
+
+// Discard a single failed job (moderator or admin)
+router.delete(
+  '/queue/:queue/jobs/:jobId',
+  requireModeratorOrAdmin,
+  crawlSourceController.discardFailedJob
+);
+
+// Pause a crawl queue (admin only)
+router.post(
+  '/queue/:queue/pause',
+  requireAdmin,
+  crawlSourceController.pauseQueue
+);
+
+// Resume a crawl queue (admin only)
+router.post(
+  '/queue/:queue/resume',
+  requireAdmin,
+  crawlSourceController.resumeQueue
+);
+
+// Get upcoming scheduled crawls (admin only)
+router.get(
+  '/schedule/upcoming',
+  requireAdmin,
+  crawlSourceController.getUpcomingSchedule
+);
+
 export default router;
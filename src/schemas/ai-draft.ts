@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { PaginationMeta, cursorParam } from './pagination';
 
 export const createAIDraftSchema = z.object({
   title: z.string().min(1, 'Title is required'),
@@ -41,29 +42,119 @@ export const aiDraftQuerySchema = z.object({
   search: z.string().optional(),
   status: z.enum(['PENDING', 'APPROVED', 'REJECTED', 'PUBLISHED']).optional(),
   crawlSourceId: z.string().optional(),
+  isRevision: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .optional(),
+  qualityStatus: z.enum(['VALID', 'REPAIRED', 'INVALID']).optional(),
+  flaggedField: z.string().optional(),
+  // Moderator a triage rule routed the draft to
+  assignedTo: z.string().optional(),
   sortBy: z
     .enum(['createdAt', 'deadline', 'title', 'organization'])
     .default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  cursor: cursorParam,
 });
 
+const opportunityTypeIds = z
+  .array(z.string())
+  .min(1, 'At least one opportunity type is required');
+
+// Without opportunityTypeIds, drafts are published with their suggested types
 export const reviewAIDraftSchema = z.object({
   status: z.enum(['APPROVED', 'REJECTED']),
   rejectionReason: z.string().optional(),
+  opportunityTypeIds: opportunityTypeIds.optional(),
 });
 
 export const publishAIDraftSchema = z.object({
-  opportunityTypeIds: z
-    .array(z.string())
-    .min(1, 'At least one opportunity type is required'),
+  opportunityTypeIds: opportunityTypeIds.optional(),
+});
+
+export const mergeDuplicateClustersSchema = z.object({
+  draftIds: z
+    .array(z.string().min(1))
+    .min(2, 'At least two drafts are required to merge'),
+  canonicalDraftId: z.string().optional(),
+});
+
+export const splitDuplicateClusterSchema = z.object({
+  draftIds: z
+    .array(z.string().min(1))
+    .min(1, 'At least one draft is required to split'),
 });
 
+// Most drafts a single bulk operation processes; run it again for the rest
+export const MAX_BULK_DRAFTS = 500;
+
+// Filters of GET /ai-drafts, with the same string values as its query
+export const aiDraftFilterSchema = aiDraftQuerySchema.omit({
+  page: true,
+  limit: true,
+  sortBy: true,
+  sortOrder: true,
+  cursor: true,
+});
+
+const bulkDraftSelection = {
+  draftIds: z
+    .array(z.string().min(1))
+    .min(1, 'At least one draft is required')
+    .max(MAX_BULK_DRAFTS)
+    .optional(),
+  filter: aiDraftFilterSchema.optional(),
+  // Applied to every draft published by the operation, instead of the
+  // types suggested for each draft
+  opportunityTypeIds: z.array(z.string()).min(1).optional(),
+  // Draft ID to opportunity types, overriding opportunityTypeIds
+  opportunityTypesByDraft: z
+    .record(z.string(), z.array(z.string()).min(1))
+    .optional(),
+};
+
+const hasOneSelection = (data: { draftIds?: string[]; filter?: object }) =>
+  !!data.draftIds !== !!data.filter;
+
+const selectionError = {
+  message: 'Provide either draftIds or filter',
+  path: ['draftIds'],
+};
+
+export const bulkReviewAIDraftsSchema = z
+  .object({
+    ...bulkDraftSelection,
+    status: z.enum(['APPROVED', 'REJECTED']),
+    rejectionReason: z.string().min(1).optional(),
+  })
+  .refine(hasOneSelection, selectionError)
+  .refine((data) => data.status !== 'REJECTED' || !!data.rejectionReason, {
+    message: 'Rejection reason is required when rejecting drafts',
+    path: ['rejectionReason'],
+  });
+
+export const bulkPublishAIDraftsSchema = z
+  .object(bulkDraftSelection)
+  .refine(hasOneSelection, selectionError);
+
 // Inferred types from schemas
 export type CreateAIDraftData = z.infer<typeof createAIDraftSchema>;
 export type UpdateAIDraftData = z.infer<typeof updateAIDraftSchema>;
 export type AIDraftQueryParams = z.infer<typeof aiDraftQuerySchema>;
 export type ReviewAIDraftData = z.infer<typeof reviewAIDraftSchema>;
 export type PublishAIDraftData = z.infer<typeof publishAIDraftSchema>;
+export type MergeDuplicateClustersData = z.infer<
+  typeof mergeDuplicateClustersSchema
+>;
+export type SplitDuplicateClusterData = z.infer<
+  typeof splitDuplicateClusterSchema
+>;
+export type AIDraftFilterParams = z.infer<typeof aiDraftFilterSchema>;
+export type BulkReviewAIDraftsData = z.infer<typeof bulkReviewAIDraftsSchema>;
+export type BulkPublishAIDraftsData = z.infer<
+  typeof bulkPublishAIDraftsSchema
+>;
 
 export interface AIDraftResponse {
   id: string;
@@ -90,6 +181,16 @@ export interface AIDraftResponse {
   crawlSourceId: string;
   sourceUrl: string;
   rawData: string | null;
+  fingerprint: string | null;
+  duplicateClusterId: string | null;
+  duplicateScore: number | null;
+  revisionForId: string | null;
+  fieldChanges: RevisionFieldChange[] | null;
+  qualityStatus: ExtractionQualityStatus | null;
+  flaggedFields: string[];
+  qualityReport: ExtractionQualityReport | null;
+  assignedTo: string | null;
+  typeSuggestions: OpportunityTypeSuggestion[] | null;
   createdAt: Date;
   updatedAt: Date;
   crawlSource?: {
@@ -97,18 +198,77 @@ export interface AIDraftResponse {
     name: string;
     url: string;
   };
+  duplicateCluster?: DuplicateClusterResponse | null;
+  // Set by reviews whose approval could not be auto-published
+  publishError?: string;
+}
+
+// SOURCE: the crawl source labelled the listing with this type
+export type TypeSuggestionMethod = 'SOURCE' | 'LLM' | 'RULES';
+
+export interface OpportunityTypeSuggestion {
+  opportunityTypeId: string;
+  name: string;
+  // 0-1
+  confidence: number;
+  method: TypeSuggestionMethod;
+  reason: string;
+}
+
+export interface DuplicateClusterMember {
+  id: string;
+  title: string;
+  organization: string;
+  deadline: Date;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'PUBLISHED';
+  sourceUrl: string;
+  applicationUrl: string | null;
+  opportunityId: string | null;
+  duplicateScore: number | null;
+  createdAt: Date;
+  crawlSource: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface DuplicateClusterResponse {
+  id: string;
+  canonicalDraftId: string | null;
+  canonicalOpportunityId: string | null;
+  canonicalOpportunity: {
+    id: string;
+    title: string;
+    organization: string;
+    deadline: Date;
+    isActive: boolean;
+  } | null;
+  members: DuplicateClusterMember[];
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface AIDraftListResponse {
   drafts: AIDraftResponse[];
-  pagination: {
-    total: number;
-    page: number;
-    limit: number;
-    totalPages: number;
-    hasNextPage: boolean;
-    hasPreviousPage: boolean;
-  };
+  pagination: PaginationMeta;
+}
+
+export interface BulkDraftResult {
+  draftId: string;
+  success: boolean;
+  // Draft status after the operation
+  status?: 'PENDING' | 'APPROVED' | 'REJECTED' | 'PUBLISHED';
+  opportunityId?: string | null;
+  error?: string;
+}
+
+export interface BulkDraftOperationResponse {
+  // Drafts selected by ID or filter; at most MAX_BULK_DRAFTS are processed
+  matched: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  results: BulkDraftResult[];
 }
 
 export interface AIDraftStatsResponse {
@@ -119,3 +279,41 @@ export interface AIDraftStatsResponse {
   published: number;
 }
 
+export interface RevisionFieldChange {
+  field: string;
+  previous: unknown;
+  proposed: unknown;
+}
+
+export interface RevisionDiffResponse {
+  draftId: string;
+  opportunityId: string;
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'PUBLISHED';
+  changes: Array<
+    RevisionFieldChange & {
+      // Live opportunity value, which may have moved on since the crawl
+      current: unknown;
+    }
+  >;
+}
+
+export type ExtractionQualityStatus = 'VALID' | 'REPAIRED' | 'INVALID';
+
+// high: valid and found verbatim in the source (or not checkable)
+// medium: valid, but only after a repair prompt or not found in the source
+// low: failed validation and was discarded
+export type FieldConfidence = 'high' | 'medium' | 'low' | 'missing';
+
+export interface ExtractionFieldQuality {
+  confidence: FieldConfidence;
+  repaired?: boolean;
+  issue?: string;
+}
+
+export interface ExtractionQualityReport {
+  status: ExtractionQualityStatus;
+  repairAttempts: number;
+  fields: Record<string, ExtractionFieldQuality>;
+  // Fields with medium or low confidence, stored on the draft for filtering
+  flaggedFields: string[];
+}
@@ -1,15 +1,112 @@
 import { z } from 'zod';
+import {
+  isValidCronExpression,
+  isValidTimezone,
+} from '../utils/crawl-schedule';
+import {
+  OpportunityDetails,
+  OpportunityListing,
+} from '../services/scrapers/base-scraper';
+
+const scraperTypeEnum = z.enum([
+  'INDEED',
+  'OPPORTUNITY_FOR_AFRICANS',
+  'LINKEDIN',
+  'GENERIC_SELECTOR',
+  'FEED',
+]);
+
+const fetcherTypeEnum = z.enum(['SCRAPER_DO', 'HTTP', 'FIXTURE']);
+
+export const sourceTrustLevelEnum = z.enum(['LOW', 'STANDARD', 'HIGH']);
+
+// Selectors are evaluated with cheerio; append "@attr" to read an attribute
+// instead of the element text, e.g. "time.deadline@datetime"
+const selector = z.string().trim().min(1, 'Selector cannot be empty');
+
+export const cssSelectorMapSchema = z.object({
+  item: selector,
+  title: selector,
+  link: selector,
+  deadline: selector.optional(),
+  organization: selector.optional(),
+  location: selector.optional(),
+  nextPage: selector.optional(),
+  maxPages: z.number().int().min(1).max(20).optional(),
+  details: z
+    .object({
+      title: selector,
+      organization: selector,
+      description: selector,
+      deadline: selector,
+      location: selector,
+      requirements: selector,
+      benefits: selector,
+      eligibility: selector,
+      applicationUrl: selector,
+    })
+    .partial()
+    .optional(),
+});
+
+// Daily crawl window boundary in the source's timezone, e.g. "02:00"
+const windowTime = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format');
+
+export const cronExpressionSchema = z
+  .string()
+  .trim()
+  .refine(isValidCronExpression, 'Invalid cron expression');
+
+export const timezoneSchema = z
+  .string()
+  .refine(isValidTimezone, 'Invalid IANA timezone');
+
+// Accepts the selector map as an object or a JSON string and stores it as JSON
+export const cssSelectorsSchema = z
+  .union([z.string(), z.record(z.string(), z.unknown())])
+  .transform((value, ctx) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'cssSelectors must be valid JSON',
+      });
+      return z.NEVER;
+    }
+  })
+  .pipe(cssSelectorMapSchema)
+  .transform((selectors) => JSON.stringify(selectors));
 
 export const createCrawlSourceSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   url: z.string().url('Invalid URL'),
   frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY']).default('WEEKLY'),
-  scraperType: z.enum(['INDEED', 'OPPORTUNITY_FOR_AFRICANS', 'LINKEDIN']).default('OPPORTUNITY_FOR_AFRICANS'),
-  cssSelectors: z.string().optional(),
+  scraperType: scraperTypeEnum.default('OPPORTUNITY_FOR_AFRICANS'),
+  cssSelectors: cssSelectorsSchema.optional(),
+  fetcherType: fetcherTypeEnum.default('SCRAPER_DO'),
   isDetailsCrawled: z.boolean().default(true),
+  cronExpression: cronExpressionSchema.nullable().optional(),
+  timezone: timezoneSchema.default('UTC'),
+  crawlWindowStart: windowTime.nullable().optional(),
+  crawlWindowEnd: windowTime.nullable().optional(),
+  // Overrides the per-host rate limit for this source's requests
+  requestsPerMinute: z.number().int().min(1).max(600).nullable().optional(),
+  // How far draft triage rules may trust drafts from this source
+  trustLevel: sourceTrustLevelEnum.default('STANDARD'),
 });
 
+// Defaults are dropped so omitted fields are left untouched on update
 export const updateCrawlSourceSchema = createCrawlSourceSchema.partial().extend({
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY']).optional(),
+  scraperType: scraperTypeEnum.optional(),
+  fetcherType: fetcherTypeEnum.optional(),
+  isDetailsCrawled: z.boolean().optional(),
+  timezone: timezoneSchema.optional(),
+  trustLevel: sourceTrustLevelEnum.optional(),
   status: z.enum(['ACTIVE', 'INACTIVE', 'ERROR']).optional(),
   isActive: z.boolean().optional(),
   lastCrawledAt: z.date().optional(),
@@ -35,17 +132,129 @@ export const crawlSourceQuerySchema = z.object({
     .transform((val) => val === 'true')
     .pipe(z.boolean())
     .optional(),
+  quarantined: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .optional(),
+  minHealth: z
+    .string()
+    .transform((val) => parseInt(val))
+    .pipe(z.number().min(0).max(100))
+    .optional(),
+  maxHealth: z
+    .string()
+    .transform((val) => parseInt(val))
+    .pipe(z.number().min(0).max(100))
+    .optional(),
+  sortBy: z
+    .enum(['createdAt', 'name', 'lastCrawledAt', 'healthScore'])
+    .default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export const crawlSourceAlertQuerySchema = z.object({
+  page: z
+    .string()
+    .transform((val) => parseInt(val) || 1)
+    .pipe(z.number().min(1))
+    .default(1),
+  limit: z
+    .string()
+    .transform((val) => parseInt(val) || 20)
+    .pipe(z.number().min(1).max(100))
+    .default(20),
+  acknowledged: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .optional(),
+  crawlSourceId: z.string().optional(),
+});
+
+export const crawlRunQuerySchema = z.object({
+  page: z
+    .string()
+    .transform((val) => parseInt(val) || 1)
+    .pipe(z.number().min(1))
+    .default(1),
+  limit: z
+    .string()
+    .transform((val) => parseInt(val) || 20)
+    .pipe(z.number().min(1).max(100))
+    .default(20),
+  status: z.enum(['RUNNING', 'COMPLETED', 'FAILED']).optional(),
+  trigger: z.enum(['MANUAL', 'BULK', 'SCHEDULED']).optional(),
+});
+
+export const upcomingScheduleQuerySchema = z.object({
+  hours: z
+    .string()
+    .transform((val) => parseInt(val) || 24)
+    .pipe(z.number().min(1).max(24 * 31))
+    .default(24),
+  limit: z
+    .string()
+    .transform((val) => parseInt(val) || 50)
+    .pipe(z.number().min(1).max(200))
+    .default(50),
+});
+
+export const crawlQueueNameSchema = z.enum(['listing', 'details']);
+
+export const failedJobsQuerySchema = z.object({
+  queue: crawlQueueNameSchema.optional(),
+  crawlSourceId: z.string().optional(),
+  page: z
+    .string()
+    .transform((val) => parseInt(val) || 1)
+    .pipe(z.number().min(1))
+    .default(1),
+  limit: z
+    .string()
+    .transform((val) => parseInt(val) || 20)
+    .pipe(z.number().min(1).max(100))
+    .default(20),
+});
+
+// Omitting jobIds applies the action to every failed job in the queue
+export const failedJobsActionSchema = z.object({
+  jobIds: z.array(z.string().min(1)).min(1).max(500).optional(),
 });
 
 export const triggerCrawlSchema = z.object({
   crawlSourceId: z.string().min(1, 'Crawl source ID is required'),
 });
 
+// Scrapes a URL without saving anything; scraperType is detected from the
+// URL when omitted
+export const previewCrawlSourceSchema = z.object({
+  url: z.string().url('Invalid URL'),
+  scraperType: scraperTypeEnum.optional(),
+  cssSelectors: cssSelectorsSchema.optional(),
+  fetcherType: fetcherTypeEnum.default('SCRAPER_DO'),
+  requestsPerMinute: z.number().int().min(1).max(600).nullable().optional(),
+  // Also scrape the details page of the first listing
+  includeDetails: z.boolean().default(true),
+});
+
 // Inferred types from schemas
 export type CreateCrawlSourceData = z.infer<typeof createCrawlSourceSchema>;
 export type UpdateCrawlSourceData = z.infer<typeof updateCrawlSourceSchema>;
 export type CrawlSourceQueryParams = z.infer<typeof crawlSourceQuerySchema>;
 export type TriggerCrawlData = z.infer<typeof triggerCrawlSchema>;
+export type CrawlRunQueryParams = z.infer<typeof crawlRunQuerySchema>;
+export type UpcomingScheduleQueryParams = z.infer<
+  typeof upcomingScheduleQuerySchema
+>;
+export type CrawlQueueName = z.infer<typeof crawlQueueNameSchema>;
+export type FailedJobsQueryParams = z.infer<typeof failedJobsQuerySchema>;
+export type FailedJobsActionData = z.infer<typeof failedJobsActionSchema>;
+export type CssSelectorMap = z.infer<typeof cssSelectorMapSchema>;
+export type CrawlSourceAlertQueryParams = z.infer<
+  typeof crawlSourceAlertQuerySchema
+>;
+export type PreviewCrawlSourceData = z.infer<typeof previewCrawlSourceSchema>;
 
 export interface CrawlSourceResponse {
   id: string;
@@ -53,14 +262,32 @@ export interface CrawlSourceResponse {
   url: string;
   frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY';
   status: 'ACTIVE' | 'INACTIVE' | 'ERROR';
-  scraperType: 'INDEED' | 'OPPORTUNITY_FOR_AFRICANS' | 'LINKEDIN';
+  scraperType:
+    | 'INDEED'
+    | 'OPPORTUNITY_FOR_AFRICANS'
+    | 'LINKEDIN'
+    | 'GENERIC_SELECTOR'
+    | 'FEED';
   cssSelectors: string | null;
+  fetcherType: 'SCRAPER_DO' | 'HTTP' | 'FIXTURE';
+  cronExpression: string | null;
+  timezone: string;
+  crawlWindowStart: string | null;
+  crawlWindowEnd: string | null;
+  requestsPerMinute: number | null;
   lastCrawledAt: Date | null;
   nextCrawlAt: Date | null;
   opportunitiesFound: number;
   isActive: boolean;
   isDetailsCrawled: boolean;
   errorMessage: string | null;
+  healthScore: number | null;
+  healthBreakdown: unknown;
+  healthUpdatedAt: Date | null;
+  quarantinedAt: Date | null;
+  quarantineReason: string | null;
+  quarantineReleasedAt: Date | null;
+  trustLevel: 'LOW' | 'STANDARD' | 'HIGH';
   createdAt: Date;
   updatedAt: Date;
 }
@@ -77,3 +304,141 @@ export interface CrawlSourceListResponse {
   };
 }
 
+export interface UpcomingCrawl {
+  crawlSourceId: string;
+  name: string;
+  scheduledAt: Date;
+  cronExpression: string | null;
+  frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  timezone: string;
+  crawlWindow: { start: string; end: string } | null;
+}
+
+export interface UpcomingScheduleResponse {
+  from: Date;
+  until: Date;
+  upcoming: UpcomingCrawl[];
+}
+
+export interface CrawlRunResponse {
+  id: string;
+  crawlSourceId: string;
+  trigger: 'MANUAL' | 'BULK' | 'SCHEDULED';
+  status: 'RUNNING' | 'COMPLETED' | 'FAILED';
+  triggeredById: string | null;
+  listingsFound: number;
+  detailsQueued: number;
+  detailsFetched: number;
+  detailsFailed: number;
+  draftsCreated: number;
+  draftsUpdated: number;
+  duplicatesSkipped: number;
+  llmTokensUsed: number;
+  errorCount: number;
+  errors: string[];
+  startedAt: Date;
+  finishedAt: Date | null;
+  durationMs: number | null;
+}
+
+export interface CrawlRunListResponse {
+  crawlRuns: CrawlRunResponse[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
+}
+
+export interface FailedCrawlJobResponse {
+  id: string;
+  queue: CrawlQueueName;
+  name: string;
+  crawlSourceId: string | null;
+  data: Record<string, any>;
+  failedReason: string | null;
+  stacktrace: string[];
+  attemptsMade: number;
+  maxAttempts: number;
+  createdAt: Date;
+  failedAt: Date | null;
+}
+
+export interface FailedCrawlJobListResponse {
+  jobs: FailedCrawlJobResponse[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
+}
+
+export interface FailedJobActionResponse {
+  queue: CrawlQueueName;
+  processed: string[];
+  skipped: string[];
+}
+
+export interface CrawlSourcePreviewResponse {
+  url: string;
+  scraperType: string;
+  // Whether scraperType was detected from the URL
+  autoDetected: boolean;
+  listingsFound: number;
+  listings: OpportunityListing[];
+  detailsUrl: string | null;
+  details: OpportunityDetails | null;
+  errors: string[];
+  llmTokensUsed: number;
+  durationMs: number;
+}
+
+// Each component is a 0-1 rate, or null when there is no data for it yet
+export interface CrawlSourceHealthResponse {
+  crawlSourceId: string;
+  score: number | null;
+  successRate: number | null;
+  yieldRate: number | null;
+  extractionValidity: number | null;
+  latencyScore: number | null;
+  averageDurationMs: number | null;
+  runsConsidered: number;
+  draftsConsidered: number;
+  quarantineThreshold: number;
+  quarantinedAt: Date | null;
+  quarantineReason: string | null;
+}
+
+export interface CrawlSourceAlertResponse {
+  id: string;
+  crawlSourceId: string;
+  type: 'QUARANTINED';
+  message: string;
+  healthScore: number | null;
+  acknowledgedAt: Date | null;
+  acknowledgedBy: string | null;
+  createdAt: Date;
+  crawlSource?: {
+    id: string;
+    name: string;
+    url: string;
+  };
+}
+
+export interface CrawlSourceAlertListResponse {
+  alerts: CrawlSourceAlertResponse[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
+}
@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import { sourceTrustLevelEnum } from './crawl-source';
+
+const triageActionEnum = z.enum([
+  'AUTO_APPROVE',
+  'AUTO_REJECT',
+  'ROUTE_TO_MODERATOR',
+]);
+
+const score = z.number().int().min(0).max(100);
+const keywords = z.array(z.string().trim().min(1)).min(1);
+
+// Every condition set on a rule must hold for it to match. A rule without
+// conditions matches every draft.
+export const triageConditionsSchema = z
+  .object({
+    // Extraction quality score of the draft, 0-100
+    minQualityScore: score.optional(),
+    maxQualityScore: score.optional(),
+    qualityStatuses: z
+      .array(z.enum(['VALID', 'REPAIRED', 'INVALID']))
+      .min(1)
+      .optional(),
+    sourceTrustLevels: z.array(sourceTrustLevelEnum).min(1).optional(),
+    // Health score of the crawl source, 0-100
+    minSourceHealth: score.optional(),
+    // Days from now until the draft deadline, negative once it has passed
+    minDaysToDeadline: z.number().int().optional(),
+    maxDaysToDeadline: z.number().int().optional(),
+    hasApplicationUrl: z.boolean().optional(),
+    // Matched case-insensitively against title, organization and description
+    containsAnyKeyword: keywords.optional(),
+    containsNoKeyword: keywords.optional(),
+  })
+  .strict();
+
+export const createTriageRuleSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().nullable().optional(),
+  crawlSourceId: z.string().nullable().optional(),
+  priority: z.number().int().min(0).default(100),
+  isActive: z.boolean().default(true),
+  conditions: triageConditionsSchema.default({}),
+  action: triageActionEnum,
+  rejectionReason: z.string().min(1).nullable().optional(),
+  assigneeId: z.string().nullable().optional(),
+});
+
+// Defaults are dropped so omitted fields are left untouched on update
+export const updateTriageRuleSchema = createTriageRuleSchema.partial().extend({
+  priority: z.number().int().min(0).optional(),
+  isActive: z.boolean().optional(),
+  conditions: triageConditionsSchema.optional(),
+});
+
+export const triageRuleQuerySchema = z.object({
+  crawlSourceId: z.string().optional(),
+  // Only rules that apply to every source
+  global: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .optional(),
+  isActive: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .optional(),
+});
+
+export const triageDecisionQuerySchema = z.object({
+  page: z
+    .string()
+    .default('1')
+    .transform((val) => parseInt(val) || 1)
+    .pipe(z.number().min(1)),
+  limit: z
+    .string()
+    .default('20')
+    .transform((val) => parseInt(val) || 20)
+    .pipe(z.number().min(1).max(100)),
+  draftId: z.string().optional(),
+  ruleId: z.string().optional(),
+  action: triageActionEnum.optional(),
+  failed: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .optional(),
+});
+
+export type TriageConditions = z.infer<typeof triageConditionsSchema>;
+export type CreateTriageRuleData = z.infer<typeof createTriageRuleSchema>;
+export type UpdateTriageRuleData = z.infer<typeof updateTriageRuleSchema>;
+export type TriageRuleQueryParams = z.infer<typeof triageRuleQuerySchema>;
+export type TriageDecisionQueryParams = z.infer<
+  typeof triageDecisionQuerySchema
+>;
+
+export type TriageAction = z.infer<typeof triageActionEnum>;
+
+export interface TriageRuleResponse {
+  id: string;
+  name: string;
+  description: string | null;
+  crawlSourceId: string | null;
+  priority: number;
+  isActive: boolean;
+  conditions: TriageConditions;
+  action: TriageAction;
+  rejectionReason: string | null;
+  assigneeId: string | null;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+  crawlSource?: {
+    id: string;
+    name: string;
+  } | null;
+}
+
+// Value of the draft a condition was checked against, and whether it held
+export interface TriageConditionResult {
+  condition: keyof TriageConditions;
+  expected: unknown;
+  actual: unknown;
+  passed: boolean;
+}
+
+export interface TriageDecisionResponse {
+  id: string;
+  draftId: string;
+  ruleId: string | null;
+  ruleName: string;
+  action: TriageAction;
+  reason: string;
+  evaluation: TriageConditionResult[];
+  assigneeId: string | null;
+  error: string | null;
+  createdAt: Date;
+  draft?: {
+    id: string;
+    title: string;
+    status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'PUBLISHED';
+  };
+}
+
+export interface TriageDecisionListResponse {
+  decisions: TriageDecisionResponse[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+  };
+}
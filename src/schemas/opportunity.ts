@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { PaginationMeta, cursorParam } from './pagination';
 
 export const createOpportunitySchema = z.object({
   title: z.string().min(1, 'Title is required'),
@@ -32,6 +33,19 @@ export const updateOpportunitySchema = createOpportunitySchema
     isActive: z.boolean().optional(),
   });
 
+// Largest radius search, in km
+const MAX_RADIUS_KM = 1000;
+
+// Filters the list can count results for, named after their query params
+export const OPPORTUNITY_FACETS = [
+  'opportunityTypeIds',
+  'experienceLevel',
+  'compensationType',
+  'isRemote',
+  'deadline',
+  'locations',
+] as const;
+
 export const opportunityQuerySchema = z.object({
   page: z
     .string()
@@ -41,8 +55,18 @@ export const opportunityQuerySchema = z.object({
     .string()
     .transform((val) => parseInt(val) || 10)
     .pipe(z.number().min(1).max(100)),
+  // Full-text search: "quoted phrases", prefix* and -excluded words
   search: z.string().optional(),
-  locations: z.string().optional(), // comma-separated
+  // Comma-separated places, matched through the gazetteer hierarchy:
+  // "Nigeria" also finds "Lagos, Nigeria" and "Africa"-wide opportunities
+  locations: z.string().optional(),
+  // Radius search around a gazetteer city
+  near: z.string().optional(),
+  radiusKm: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(1).max(MAX_RADIUS_KM))
+    .optional(),
   isRemote: z
     .string()
     .transform((val) => val === 'true')
@@ -54,12 +78,52 @@ export const opportunityQuerySchema = z.object({
   compensationType: z
     .enum(['salary', 'stipend', 'scholarship_amount', 'hourly', 'volunteer'])
     .optional(),
+  // Monthly pay, in currency (USD without one), converted across currencies
+  minCompensation: z
+    .string()
+    .transform((val) => parseFloat(val))
+    .pipe(z.number().min(0))
+    .optional(),
+  // ISO 4217 code; on its own, keeps opportunities paying in it
+  currency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter ISO 4217 code')
+    .transform((val) => val.toUpperCase())
+    .optional(),
+  fullyFunded: z
+    .string()
+    .transform((val) => val === 'true')
+    .pipe(z.boolean())
+    .optional(),
   opportunityTypeIds: z.string().optional(), // comma-separated
   deadline: z.enum(['week', 'month', 'quarter']).optional(),
+  // relevance needs a search and falls back to createdAt without one;
+  // compensation orders by monthly pay converted to USD
   sortBy: z
-    .enum(['deadline', 'createdAt', 'title', 'organization'])
+    .enum([
+      'deadline',
+      'createdAt',
+      'title',
+      'organization',
+      'compensation',
+      'relevance',
+    ])
     .default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  // Comma-separated facet names, or "all"
+  facets: z
+    .string()
+    .transform((val) =>
+      val === 'all'
+        ? [...OPPORTUNITY_FACETS]
+        : val
+            .split(',')
+            .map((name) => name.trim())
+            .filter(Boolean)
+    )
+    .pipe(z.array(z.enum(OPPORTUNITY_FACETS)))
+    .optional(),
+  cursor: cursorParam,
 });
 
 export const savedJobSchema = z.object({
@@ -87,6 +151,27 @@ export const updateApplicationSchema = z.object({
   resumeUrl: z.string().url('Invalid resume URL').optional(),
 });
 
+export const livenessReportQuerySchema = z.object({
+  page: z
+    .string()
+    .default('1')
+    .transform((val) => parseInt(val) || 1)
+    .pipe(z.number().min(1)),
+  limit: z
+    .string()
+    .default('20')
+    .transform((val) => parseInt(val) || 20)
+    .pipe(z.number().min(1).max(100)),
+  status: z.enum(['PENDING_REVIEW', 'CONFIRMED', 'REVERTED']).optional(),
+  method: z.enum(['HTTP_STATUS', 'KEYWORD', 'LLM']).optional(),
+  opportunityId: z.string().optional(),
+});
+
+export const reviewLivenessReportSchema = z.object({
+  // Revert reactivates an opportunity that was wrongly detected as closed
+  action: z.enum(['confirm', 'revert']),
+});
+
 // Inferred types from schemas
 export type CreateOpportunityData = z.infer<typeof createOpportunitySchema>;
 export type UpdateOpportunityData = z.infer<typeof updateOpportunitySchema>;
@@ -94,6 +179,12 @@ export type OpportunityQueryParams = z.infer<typeof opportunityQuerySchema>;
 export type SavedJobData = z.infer<typeof savedJobSchema>;
 export type ApplicationData = z.infer<typeof applicationSchema>;
 export type UpdateApplicationData = z.infer<typeof updateApplicationSchema>;
+export type LivenessReportQueryParams = z.infer<
+  typeof livenessReportQuerySchema
+>;
+export type ReviewLivenessReportData = z.infer<
+  typeof reviewLivenessReportSchema
+>;
 
 export interface OpportunityResponse {
   id: string;
@@ -104,7 +195,20 @@ export interface OpportunityResponse {
   benefits: string[];
   compensation: string | null;
   compensationType: string | null;
+  // Parsed from compensation; monthlyCompensation is the top of the range
+  // per month, in compensationCurrency
+  compensationMin: number | null;
+  compensationMax: number | null;
+  compensationCurrency: string | null;
+  compensationPeriod: string | null;
+  monthlyCompensation: number | null;
+  // monthlyCompensation in USD, 0 without one
+  baseMonthlyCompensation: number;
+  isFullyFunded: boolean;
   locations: string[];
+  // Gazetteer places of the locations, and every place containing them
+  placeIds: string[];
+  placeAncestorIds: string[];
   isRemote: boolean;
   deadline: Date;
   author: string | null;
@@ -127,10 +231,59 @@ export interface OpportunityResponse {
     applications: number;
     savedJobs: number;
   };
+  // Set on results of a full-text search
+  search?: OpportunitySearchMatch;
 }
 
+// Matched words are wrapped in <mark></mark>
+export interface OpportunitySearchMatch {
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+}
+
+export type OpportunityFacetName = (typeof OPPORTUNITY_FACETS)[number];
+
+// value is what the matching filter param takes, e.g. a type ID or "week"
+export interface FacetCount {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+export type OpportunityFacets = Partial<
+  Record<OpportunityFacetName, FacetCount[]>
+>;
+
 export interface OpportunityListResponse {
   opportunities: OpportunityResponse[];
+  facets?: OpportunityFacets;
+  pagination: PaginationMeta;
+}
+
+export interface LivenessReportResponse {
+  id: string;
+  opportunityId: string;
+  checkedUrl: string;
+  httpStatus: number | null;
+  method: 'HTTP_STATUS' | 'KEYWORD' | 'LLM';
+  reason: string;
+  evidence: string | null;
+  status: 'PENDING_REVIEW' | 'CONFIRMED' | 'REVERTED';
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  createdAt: Date;
+  opportunity?: {
+    id: string;
+    title: string;
+    organization: string;
+    isActive: boolean;
+    deadline: Date;
+  };
+}
+
+export interface LivenessReportListResponse {
+  reports: LivenessReportResponse[];
   pagination: {
     total: number;
     page: number;
@@ -140,3 +293,17 @@ export interface OpportunityListResponse {
     hasPreviousPage: boolean;
   };
 }
+
+export interface LivenessCheckSummary {
+  checked: number;
+  closed: number;
+  // Pages that could not be fetched; their opportunities are left active
+  unreachable: number;
+}
+
+// Result of re-deriving stored fields, such as places, for every opportunity
+export interface NormalizationSummary {
+  processed: number;
+  // Opportunities whose derived fields changed
+  updated: number;
+}
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+// Opaque cursor from the nextCursor of a previous page. Takes precedence
+// over page, and must be used with the same sortBy and sortOrder.
+export const cursorParam = z.string().min(1).optional();
+
+export const paginationQuerySchema = z.object({
+  page: z
+    .string()
+    .default('1')
+    .transform((val) => parseInt(val) || 1)
+    .pipe(z.number().min(1)),
+  limit: z
+    .string()
+    .default('10')
+    .transform((val) => parseInt(val) || 10)
+    .pipe(z.number().min(1).max(100)),
+  cursor: cursorParam,
+});
+
+export type PaginationQueryParams = z.infer<typeof paginationQuerySchema>;
+
+export interface PaginationMeta {
+  // Page mode only; cursor pages are fetched without counting the rows
+  total?: number;
+  page?: number;
+  totalPages?: number;
+  limit: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  // Pass as cursor to fetch the next page; null on the last page
+  nextCursor: string | null;
+}
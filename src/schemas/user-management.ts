@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { PaginationMeta, cursorParam } from './pagination';
 
 export const userQueryParamsSchema = z.object({
   page: z.string()
@@ -19,6 +20,7 @@ export const userQueryParamsSchema = z.object({
     .optional()
     .transform(val => val === 'true' ? true : val === 'false' ? false : undefined)
     .pipe(z.boolean().optional()),
+  cursor: cursorParam,
 });
 
 export const createUserSchema = z.object({
@@ -61,12 +63,5 @@ export interface UserResponse {
 
 export interface UserListResponse {
   users: UserResponse[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-    hasNextPage: boolean;
-    hasPreviousPage: boolean;
-  };
+  pagination: PaginationMeta;
 }
\ No newline at end of file
@@ -13,6 +13,8 @@ import { notFoundHandler } from './middleware/not-found-handler';
 import { requestId } from './middleware/request-id';
 import { setupSwagger } from './config/swagger';
 import { config } from './config/envars';
+import { crawlSchedulerService } from './services/crawl-scheduler-service';
+import { opportunityLivenessService } from './services/opportunity-liveness-service';
 
 const app: Express = express();
 
@@ -42,12 +44,26 @@ const server = http.createServer(app);
 
 server.listen(PORT, async () => {
   logger.info(`Server running on port ${PORT}`);
+
+  try {
+    await crawlSchedulerService.start();
+  } catch (error) {
+    logger.error('Failed to start crawl scheduler:', error);
+  }
+
+  try {
+    await opportunityLivenessService.start();
+  } catch (error) {
+    logger.error('Failed to start opportunity liveness checker:', error);
+  }
 });
 
 const gracefulShutdown = async (signal: string) => {
   logger.info(`Received ${signal}. Graceful shutdown started.`);
 
   try {
+    await crawlSchedulerService.shutdown();
+    await opportunityLivenessService.shutdown();
     server.close(() => {
       logger.info('HTTP server closed.');
       process.exit(0);
@@ -1,6 +1,7 @@
 import { prisma } from '../config/database';
 import { NotFoundException } from '../utils/http-exception';
 import { OpportunityQueryParams } from '../schemas/opportunity';
+import { locationService } from './location-service';
 
 class AdminOpportunityService {
   async getAdminOpportunities(filters: OpportunityQueryParams) {
@@ -19,9 +20,10 @@ class AdminOpportunityService {
     }
     
     if (locations) {
-      where.locations = {
-        hasSome: locations.split(',').map(loc => loc.trim()),
-      };
+      const locationArray = locations.split(',').map(loc => loc.trim());
+      where.AND = [
+        locationService.buildWhere(locationService.buildQuery(locationArray)),
+      ];
     }
     
     if (isRemote !== undefined) {
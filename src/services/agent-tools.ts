@@ -3,6 +3,12 @@ import * as z from 'zod';
 import { prisma } from '../config/database';
 import { vectorStoreService } from './vector-store-service';
 import logger from '../config/logger';
+import { locationService } from './location-service';
+
+// Vector matches fetched per search; those in the user's preferred places
+// are returned first
+const SEARCH_CANDIDATES = 15;
+const SEARCH_RESULTS = 5;
 
 export const searchOpportunities = tool(
   async ({ query, userId }) => {
@@ -11,7 +17,7 @@ export const searchOpportunities = tool(
       const vectorResults = await vectorStoreService.searchSimilarOpportunities(
         query,
         userId,
-        5
+        SEARCH_CANDIDATES
       );
 
       if (vectorResults.length === 0) {
@@ -34,10 +40,30 @@ export const searchOpportunities = tool(
             },
           },
         },
-        take: 5,
       });
 
-      const results = opportunities.map((opp) => ({
+      const user = userId
+        ? await prisma.user.findUnique({
+            where: { id: userId },
+            select: { preferredLocations: true, remoteWork: true },
+          })
+        : null;
+      const locationQuery = user?.preferredLocations.length
+        ? locationService.buildQuery(user.preferredLocations)
+        : null;
+      const inPreferredPlace = (opp: (typeof opportunities)[number]) =>
+        (!!locationQuery && locationService.matches(opp, locationQuery)) ||
+        (!!user?.remoteWork && opp.isRemote);
+
+      const ranked = opportunities
+        .sort(
+          (a, b) =>
+            Number(inPreferredPlace(b)) - Number(inPreferredPlace(a)) ||
+            opportunityIds.indexOf(a.id) - opportunityIds.indexOf(b.id)
+        )
+        .slice(0, SEARCH_RESULTS);
+
+      const results = ranked.map((opp) => ({
         id: opp.id,
         title: opp.title,
         organization: opp.organization,
@@ -50,6 +76,7 @@ export const searchOpportunities = tool(
             .join(', ') || 'General',
         description: opp.description.substring(0, 200) + '...',
         remote: opp.isRemote,
+        inPreferredLocation: inPreferredPlace(opp),
         deadline: opp.deadline,
       }));
 
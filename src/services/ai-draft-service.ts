@@ -1,4 +1,5 @@
 import { prisma } from '../config/database';
+import { Prisma } from '../generated/prisma/client';
 import logger from '../config/logger';
 import {
   CreateAIDraftData,
@@ -9,18 +10,42 @@ import {
   AIDraftStatsResponse,
   ReviewAIDraftData,
   PublishAIDraftData,
+  MergeDuplicateClustersData,
+  SplitDuplicateClusterData,
+  DuplicateClusterResponse,
+  RevisionDiffResponse,
+  AIDraftFilterParams,
+  BulkReviewAIDraftsData,
+  BulkPublishAIDraftsData,
+  BulkDraftOperationResponse,
+  BulkDraftResult,
+  MAX_BULK_DRAFTS,
 } from '../schemas/ai-draft';
 import {
   NotFoundException,
   BadRequestException,
 } from '../utils/http-exception';
+import { paginate } from '../utils/pagination';
+import { deduplicationService } from './deduplication-service';
+import { opportunityRevisionService } from './opportunity-revision-service';
+import { locationService } from './location-service';
+import { compensationService } from './compensation-service';
+import { opportunityTypeClassifierService } from './opportunity-type-classifier-service';
 
 class AIDraftService {
   async createAIDraft(data: CreateAIDraftData): Promise<AIDraftResponse> {
+    const duplicateInput = {
+      title: data.title,
+      organization: data.organization,
+      deadline: data.deadline,
+      applicationUrl: data.applicationUrl,
+    };
+
     const aiDraft = await prisma.aIDraft.create({
       data: {
         ...data,
         status: 'PENDING',
+        fingerprint: deduplicationService.buildFingerprint(duplicateInput),
       },
       include: {
         crawlSource: {
@@ -38,66 +63,40 @@ class AIDraftService {
       title: aiDraft.title,
     });
 
-    return aiDraft as AIDraftResponse;
+    const match = await deduplicationService.linkDuplicates(
+      aiDraft.id,
+      duplicateInput
+    );
+
+    return {
+      ...aiDraft,
+      duplicateClusterId: match?.clusterId ?? null,
+      duplicateScore: match?.score ?? null,
+    } as AIDraftResponse;
   }
 
   async getAIDrafts(filters: AIDraftQueryParams): Promise<AIDraftListResponse> {
-    const { page, limit, search, status, crawlSourceId, sortBy, sortOrder } =
-      filters;
-
-    const skip = (page - 1) * limit;
-
-    const where: any = {};
-
-    if (search) {
-      where.OR = [
-        { title: { contains: search, mode: 'insensitive' } },
-        { organization: { contains: search, mode: 'insensitive' } },
-        { description: { contains: search, mode: 'insensitive' } },
-      ];
-    }
-
-    if (status) {
-      where.status = status;
-    }
-
-    if (crawlSourceId) {
-      where.crawlSourceId = crawlSourceId;
-    }
-
-    const [drafts, total] = await Promise.all([
-      prisma.aIDraft.findMany({
-        where,
-        skip,
-        take: limit,
-        orderBy: {
-          [sortBy]: sortOrder,
-        },
-        include: {
-          crawlSource: {
-            select: {
-              id: true,
-              name: true,
-              url: true,
+    const { items, pagination } = await paginate(filters, {
+      where: this.buildWhere(filters),
+      findMany: (args) =>
+        prisma.aIDraft.findMany({
+          ...args,
+          include: {
+            crawlSource: {
+              select: {
+                id: true,
+                name: true,
+                url: true,
+              },
             },
           },
-        },
-      }),
-      prisma.aIDraft.count({ where }),
-    ]);
-
-    const totalPages = Math.ceil(total / limit);
+        }),
+      count: (where) => prisma.aIDraft.count({ where }),
+    });
 
     return {
-      drafts: drafts as AIDraftResponse[],
-      pagination: {
-        total,
-        page,
-        limit,
-        totalPages,
-        hasNextPage: page < totalPages,
-        hasPreviousPage: page > 1,
-      },
+      drafts: items as AIDraftResponse[],
+      pagination,
     };
   }
 
@@ -119,7 +118,11 @@ class AIDraftService {
       throw new NotFoundException('AI draft not found');
     }
 
-    return aiDraft as AIDraftResponse;
+    const duplicateCluster = aiDraft.duplicateClusterId
+      ? await deduplicationService.getCluster(aiDraft.duplicateClusterId)
+      : null;
+
+    return { ...aiDraft, duplicateCluster } as AIDraftResponse;
   }
 
   async updateAIDraft(
@@ -224,30 +227,28 @@ class AIDraftService {
     // Auto-publish approved drafts
     if (reviewData.status === 'APPROVED') {
       try {
-        // Get default opportunity type
-        const defaultOpportunityType = await prisma.opportunityType.findFirst({
-          where: { name: 'General' },
-        });
-
-        if (defaultOpportunityType) {
-          await this.publishAIDraft(id, {
-            opportunityTypeIds: [defaultOpportunityType.id],
-          });
-          logger.info('AI draft auto-published after approval', {
-            aiDraftId: id,
-          });
-        } else {
-          logger.warn(
-            'Could not auto-publish: Default opportunity type not found',
-            { aiDraftId: id }
-          );
+        // Approved revisions patch their live opportunity instead
+        if (existingDraft.revisionForId) {
+          return await opportunityRevisionService.applyRevision(id);
         }
+
+        // Without types from the reviewer, the suggested types are used
+        await this.publishAIDraft(id, {
+          opportunityTypeIds: reviewData.opportunityTypeIds,
+        });
+        logger.info('AI draft auto-published after approval', {
+          aiDraftId: id,
+        });
       } catch (error: any) {
         logger.error('Error auto-publishing approved draft', {
           aiDraftId: id,
           error: error.message,
         });
         // Don't throw - the review was successful even if publish failed
+        return {
+          ...(updatedDraft as AIDraftResponse),
+          publishError: error.message,
+        };
       }
     }
 
@@ -258,7 +259,22 @@ class AIDraftService {
     id: string,
     publishData: PublishAIDraftData
   ): Promise<AIDraftResponse> {
-    const existingDraft = await prisma.aIDraft.findUnique({
+    return prisma.$transaction((tx) =>
+      this.publishDraft(tx, id, publishData.opportunityTypeIds)
+    );
+  }
+
+  /**
+   * Creates the opportunity for an approved draft, or applies an approved
+   * revision to its opportunity, inside the caller's transaction. Without
+   * opportunityTypeIds the draft's suggested types are used.
+   */
+  private async publishDraft(
+    tx: Prisma.TransactionClient,
+    id: string,
+    opportunityTypeIds?: string[]
+  ): Promise<AIDraftResponse> {
+    const existingDraft = await tx.aIDraft.findUnique({
       where: { id },
     });
 
@@ -266,6 +282,10 @@ class AIDraftService {
       throw new NotFoundException('AI draft not found');
     }
 
+    if (existingDraft.revisionForId) {
+      return opportunityRevisionService.applyRevision(id, tx);
+    }
+
     if (existingDraft.status !== 'APPROVED') {
       throw new BadRequestException('Only approved drafts can be published');
     }
@@ -274,8 +294,33 @@ class AIDraftService {
       throw new BadRequestException('This draft has already been published');
     }
 
+    if (existingDraft.duplicateClusterId) {
+      const cluster = await tx.duplicateCluster.findUnique({
+        where: { id: existingDraft.duplicateClusterId },
+      });
+
+      if (cluster?.canonicalOpportunityId) {
+        throw new BadRequestException(
+          `A duplicate of this draft is already published as opportunity ${cluster.canonicalOpportunityId}. Split it from its duplicate cluster to publish it separately`
+        );
+      }
+    }
+
+    const typeIds =
+      opportunityTypeIds ??
+      (await opportunityTypeClassifierService.getPublishTypeIds(
+        existingDraft,
+        tx
+      ));
+
+    if (!typeIds.length) {
+      throw new BadRequestException(
+        'No opportunity type could be suggested for this draft. Provide opportunityTypeIds'
+      );
+    }
+
     // Create the opportunity from the draft
-    const opportunity = await prisma.opportunity.create({
+    const opportunity = await tx.opportunity.create({
       data: {
         title: existingDraft.title,
         organization: existingDraft.organization,
@@ -285,6 +330,9 @@ class AIDraftService {
         compensation: existingDraft.compensation,
         compensationType: existingDraft.compensationType,
         locations: existingDraft.locations,
+        ...locationService.assignPlaces(existingDraft.locations),
+        ...compensationService.parse(existingDraft),
+        fingerprint: deduplicationService.buildFingerprint(existingDraft),
         isRemote: existingDraft.isRemote,
         deadline: existingDraft.deadline,
         applicationUrl: existingDraft.applicationUrl,
@@ -295,7 +343,7 @@ class AIDraftService {
         isActive: true,
         author: 'AI Crawler',
         opportunityCategories: {
-          create: publishData.opportunityTypeIds.map((typeId) => ({
+          create: typeIds.map((typeId) => ({
             opportunityTypeId: typeId,
           })),
         },
@@ -303,7 +351,7 @@ class AIDraftService {
     });
 
     // Update the draft with the opportunity ID and status
-    const updatedDraft = await prisma.aIDraft.update({
+    const updatedDraft = await tx.aIDraft.update({
       where: { id },
       data: {
         status: 'PUBLISHED',
@@ -320,6 +368,15 @@ class AIDraftService {
       },
     });
 
+    if (existingDraft.duplicateClusterId) {
+      await deduplicationService.markClusterPublished(
+        existingDraft.duplicateClusterId,
+        id,
+        opportunity.id,
+        tx
+      );
+    }
+
     logger.info('AI draft published successfully', {
       aiDraftId: updatedDraft.id,
       opportunityId: opportunity.id,
@@ -328,6 +385,223 @@ class AIDraftService {
     return updatedDraft as AIDraftResponse;
   }
 
+  /**
+   * Approves or rejects drafts selected by ID or filter. Each draft is
+   * reviewed in its own transaction, and approved drafts are published in
+   * that same transaction, so a failure leaves the draft pending. Approved
+   * drafts get their opportunityTypesByDraft types, else opportunityTypeIds,
+   * else their suggested types.
+   */
+  async bulkReviewAIDrafts(
+    data: BulkReviewAIDraftsData,
+    reviewerId: string
+  ): Promise<BulkDraftOperationResponse> {
+    const { status, rejectionReason } = data;
+    const { draftIds, matched } = await this.selectBulkDrafts(data, 'PENDING');
+    await this.assertOpportunityTypesExist(data);
+
+    const results = await this.runBulk(draftIds, (tx, id) =>
+      this.reviewDraftInTransaction(tx, id, {
+        status,
+        rejectionReason,
+        reviewerId,
+        opportunityTypeIds:
+          data.opportunityTypesByDraft?.[id] ?? data.opportunityTypeIds,
+      })
+    );
+
+    logger.info('AI drafts bulk reviewed', {
+      status,
+      reviewerId,
+      processed: results.length,
+      failed: results.filter((result) => !result.success).length,
+    });
+
+    return this.summariseBulk(matched, results);
+  }
+
+  /**
+   * Publishes approved drafts selected by ID or filter, each in its own
+   * transaction, with their opportunityTypesByDraft types, else
+   * opportunityTypeIds, else their suggested types
+   */
+  async bulkPublishAIDrafts(
+    data: BulkPublishAIDraftsData
+  ): Promise<BulkDraftOperationResponse> {
+    const { draftIds, matched } = await this.selectBulkDrafts(data, 'APPROVED');
+    await this.assertOpportunityTypesExist(data);
+
+    const results = await this.runBulk(draftIds, (tx, id) =>
+      this.publishDraft(
+        tx,
+        id,
+        data.opportunityTypesByDraft?.[id] ?? data.opportunityTypeIds
+      )
+    );
+
+    logger.info('AI drafts bulk published', {
+      processed: results.length,
+      failed: results.filter((result) => !result.success).length,
+    });
+
+    return this.summariseBulk(matched, results);
+  }
+
+  private async reviewDraftInTransaction(
+    tx: Prisma.TransactionClient,
+    id: string,
+    review: {
+      status: 'APPROVED' | 'REJECTED';
+      rejectionReason?: string;
+      reviewerId: string;
+      opportunityTypeIds?: string[];
+    }
+  ): Promise<AIDraftResponse> {
+    const existingDraft = await tx.aIDraft.findUnique({ where: { id } });
+
+    if (!existingDraft) {
+      throw new NotFoundException('AI draft not found');
+    }
+
+    if (existingDraft.status !== 'PENDING') {
+      throw new BadRequestException('Only pending drafts can be reviewed');
+    }
+
+    const updatedDraft = await tx.aIDraft.update({
+      where: { id },
+      data: {
+        status: review.status,
+        rejectionReason:
+          review.status === 'REJECTED' ? review.rejectionReason : null,
+        reviewedBy: review.reviewerId,
+        reviewedAt: new Date(),
+      },
+    });
+
+    if (review.status !== 'APPROVED') {
+      return updatedDraft as AIDraftResponse;
+    }
+
+    // Revisions are applied to their opportunity instead
+    return this.publishDraft(tx, id, review.opportunityTypeIds);
+  }
+
+  /**
+   * IDs of the drafts a bulk operation runs on. Filters only match drafts
+   * in the status the operation expects, oldest first.
+   */
+  private async selectBulkDrafts(
+    data: { draftIds?: string[]; filter?: AIDraftFilterParams },
+    status: 'PENDING' | 'APPROVED'
+  ): Promise<{ draftIds: string[]; matched: number }> {
+    if (data.draftIds) {
+      const draftIds = [...new Set(data.draftIds)];
+      return { draftIds, matched: draftIds.length };
+    }
+
+    const where = { AND: [this.buildWhere(data.filter ?? {}), { status }] };
+    const [drafts, matched] = await Promise.all([
+      prisma.aIDraft.findMany({
+        where,
+        select: { id: true },
+        orderBy: { createdAt: 'asc' },
+        take: MAX_BULK_DRAFTS,
+      }),
+      prisma.aIDraft.count({ where }),
+    ]);
+
+    return { draftIds: drafts.map((draft) => draft.id), matched };
+  }
+
+  private async assertOpportunityTypesExist(data: {
+    opportunityTypeIds?: string[];
+    opportunityTypesByDraft?: Record<string, string[]>;
+  }): Promise<void> {
+    const typeIds = [
+      ...new Set([
+        ...(data.opportunityTypeIds ?? []),
+        ...Object.values(data.opportunityTypesByDraft ?? {}).flat(),
+      ]),
+    ];
+    if (!typeIds.length) return;
+
+    const found = await prisma.opportunityType.findMany({
+      where: { id: { in: typeIds } },
+      select: { id: true },
+    });
+    const foundIds = new Set(found.map((type) => type.id));
+    const missing = typeIds.filter((typeId) => !foundIds.has(typeId));
+
+    if (missing.length) {
+      throw new BadRequestException(
+        `Unknown opportunity types: ${missing.join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Runs the operation on each draft in turn, each in its own transaction,
+   * and collects the outcome per draft instead of stopping at the first
+   * failure
+   */
+  private async runBulk(
+    draftIds: string[],
+    operation: (
+      tx: Prisma.TransactionClient,
+      id: string
+    ) => Promise<AIDraftResponse>
+  ): Promise<BulkDraftResult[]> {
+    const results: BulkDraftResult[] = [];
+
+    for (const draftId of draftIds) {
+      try {
+        const draft = await prisma.$transaction((tx) => operation(tx, draftId));
+        results.push({
+          draftId,
+          success: true,
+          status: draft.status,
+          opportunityId: draft.opportunityId,
+        });
+      } catch (error: any) {
+        results.push({ draftId, success: false, error: error.message });
+      }
+    }
+
+    return results;
+  }
+
+  private summariseBulk(
+    matched: number,
+    results: BulkDraftResult[]
+  ): BulkDraftOperationResponse {
+    const succeeded = results.filter((result) => result.success).length;
+
+    return {
+      matched,
+      processed: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    };
+  }
+
+  async getRevisionDiff(id: string): Promise<RevisionDiffResponse> {
+    return opportunityRevisionService.getRevisionDiff(id);
+  }
+
+  async mergeDuplicateClusters(
+    data: MergeDuplicateClustersData
+  ): Promise<DuplicateClusterResponse> {
+    return deduplicationService.mergeClusters(data);
+  }
+
+  async splitDuplicateCluster(
+    clusterId: string,
+    data: SplitDuplicateClusterData
+  ) {
+    return deduplicationService.splitCluster(clusterId, data);
+  }
+
   async getAIDraftStats(): Promise<AIDraftStatsResponse> {
     const [total, pending, approved, rejected, published] = await Promise.all([
       prisma.aIDraft.count(),
@@ -345,6 +619,58 @@ class AIDraftService {
       published,
     };
   }
+
+  /**
+   * Where clause for the draft list filters, shared by the list endpoint
+   * and bulk operations
+   */
+  private buildWhere(filters: AIDraftFilterParams) {
+    const {
+      search,
+      status,
+      crawlSourceId,
+      isRevision,
+      qualityStatus,
+      flaggedField,
+      assignedTo,
+    } = filters;
+
+    const where: any = {};
+
+    if (search) {
+      where.OR = [
+        { title: { contains: search, mode: 'insensitive' } },
+        { organization: { contains: search, mode: 'insensitive' } },
+        { description: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (crawlSourceId) {
+      where.crawlSourceId = crawlSourceId;
+    }
+
+    if (isRevision !== undefined) {
+      where.revisionForId = isRevision ? { not: null } : null;
+    }
+
+    if (qualityStatus) {
+      where.qualityStatus = qualityStatus;
+    }
+
+    if (flaggedField) {
+      where.flaggedFields = { has: flaggedField };
+    }
+
+    if (assignedTo) {
+      where.assignedTo = assignedTo;
+    }
+
+    return where;
+  }
 }
 
 export const aiDraftService = new AIDraftService();
@@ -1,5 +1,6 @@
 import { OpenAI } from 'openai';
 import retry from 'async-retry';
+import { recordLLMUsage } from '../utils/llm-usage';
 
 export type Provider = 'openai' | string;
 
@@ -108,6 +109,8 @@ export default class AIModelRouter {
       ...(options.max_tokens && { max_tokens: options.max_tokens }),
     });
 
+    recordLLMUsage(response.usage);
+
     this.log(
       `[${
         this.configs[this.currentConfigIndex].provider
@@ -0,0 +1,429 @@
+import { prisma } from '../config/database';
+import { config } from '../config/envars';
+import logger from '../config/logger';
+import {
+  BASE_CURRENCY,
+  DEFAULT_CURRENCY_RATES,
+} from '../constant/compensation';
+import { BadRequestException } from '../utils/http-exception';
+import { CompensationPeriod } from '../generated/prisma/enums';
+import { NormalizationSummary } from '../schemas/opportunity';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const NORMALIZE_BATCH_SIZE = 500;
+
+// Months' worth of each period, from a 40-hour, 5-day working week
+const PERIODS_PER_MONTH: Record<CompensationPeriod, number | null> = {
+  HOUR: (40 * 52) / 12,
+  DAY: (5 * 52) / 12,
+  WEEK: 52 / 12,
+  MONTH: 1,
+  YEAR: 1 / 12,
+  ONE_TIME: null,
+};
+
+// Symbols and names of currencies, checked against lowercased text. Codes
+// from the rate table ("usd", "kes") are recognised on top of these.
+const CURRENCY_PATTERNS: [RegExp, string][] = [
+  [/us\$|\bus dollars?\b/, 'USD'],
+  [/\bc\$|canadian dollars?/, 'CAD'],
+  [/\ba\$|australian dollars?/, 'AUD'],
+  [/€|\beuros?\b/, 'EUR'],
+  [/e£|egyptian pounds?/, 'EGP'],
+  [/£|\bpounds?\b|\bsterling\b/, 'GBP'],
+  // "N150,000" is a common way to write naira
+  [/₦|\bnaira\b|\bn(?=\d)/, 'NGN'],
+  [/₵|\bcedis?\b/, 'GHS'],
+  [/\bksh|kenyan shillings?/, 'KES'],
+  [/\bush\b|ugandan shillings?/, 'UGX'],
+  [/\btsh\b|tanzanian shillings?/, 'TZS'],
+  [/\bfrw\b|rwandan francs?/, 'RWF'],
+  [/\bf?cfa\b/, 'XOF'],
+  [/\brand\b|\br(?=\s?\d)/, 'ZAR'],
+  [/₹|\brupees?\b|\brs\.?(?=\s?\d)/, 'INR'],
+  [/¥|\byen\b/, 'JPY'],
+  [/\brmb\b|\byuan\b/, 'CNY'],
+  [/\bdirhams?\b/, 'AED'],
+  [/\briyals?\b/, 'SAR'],
+  [/\$|\bdollars?\b/, 'USD'],
+];
+
+// Checked in order; the first match wins
+const PERIOD_PATTERNS: [RegExp, CompensationPeriod][] = [
+  [/(?:\bper|\ban?|\/)\s?(?:hour|hr)s?\b|\bhourly\b/, 'HOUR'],
+  [/(?:\bper|\ba|\/)\s?day\b|\bdaily\b|\bper diem\b/, 'DAY'],
+  [/(?:\bper|\ba|\/)\s?(?:week|wk)\b|\bweekly\b/, 'WEEK'],
+  [
+    /(?:\bper|\ba|\/)\s?(?:month|mo|mth)\b|\bmonthly\b|\bp[./]?m\.?(?!\w)/,
+    'MONTH',
+  ],
+  [
+    /(?:\bper|\ba|\/)\s?(?:year|yr|annum)\b|\b(?:yearly|annually|annual|p\.?a\.?)(?!\w)/,
+    'YEAR',
+  ],
+  [
+    /\b(?:one[-\s]?(?:off|time)|lump[-\s]?sum|in total|total of|prize|grant)\b/,
+    'ONE_TIME',
+  ],
+];
+
+const FULLY_FUNDED_PATTERN =
+  /\bfully[-\s]?funded\b|\bfull[-\s](?:scholarship|funding|tuition)\b|\ball[-\s]expenses?[-\s]paid\b|\bcovers? all (?:costs|expenses)\b/;
+
+const UNPAID_PATTERN = /\b(?:unpaid|no stipend|no salary)\b/;
+
+// An amount with optional thousands separators (commas, or spaces as in
+// "R15 000"), decimals and multiplier.
+// Not part of a longer number or word, though one-letter currency prefixes
+// such as "N" and "R" may touch it.
+const AMOUNT_PATTERN =
+  /(?<![\d.,])(?<![a-z]{2})(\d{1,3}(?:,\d{3})+|\d{1,3}(?:[ \u00a0]\d{3})+(?!\d)|\d+)(\.\d+)?\s*(k|m|mn|million|thousand)?(?![\w%])/g;
+
+// Words after a number that make it something other than an amount, as in
+// "6 months" or "a 12-week programme"
+const NON_AMOUNT_SUFFIX =
+  /^\s*-?\s*(?:hours?|hrs?|days?|weeks?|months?|years?|yrs?|positions?|slots?|places|people|participants|winners|awards|fellows|students|countries)\b/;
+
+const RANGE_SEPARATOR =
+  /^\s*[^\d\s]{0,4}\s*(?:-|–|—|to|and)\s*[^\d\s]{0,4}\s*$/;
+const UPPER_BOUND_PREFIX =
+  /(?:up\s?to|maximum(?: of)?|max\.?|not exceeding)\s*[^\d\s]{0,4}\s*$/;
+const LOWER_BOUND_PREFIX =
+  /(?:from|starting at|minimum(?: of)?|min\.?|at least)\s*[^\d\s]{0,4}\s*$/;
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mn: 1e6,
+  million: 1e6,
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface CompensationFields {
+  compensationMin: number | null;
+  compensationMax: number | null;
+  compensationCurrency: string | null;
+  compensationPeriod: CompensationPeriod | null;
+  monthlyCompensation: number | null;
+  // monthlyCompensation in BASE_CURRENCY, for sorting by pay; 0 without one
+  baseMonthlyCompensation: number;
+  isFullyFunded: boolean;
+}
+
+export interface CompensationFilters {
+  // Monthly amount in currency, or in the base currency without one
+  minCompensation?: number;
+  currency?: string;
+  fullyFunded?: boolean;
+}
+
+interface CompensationSource {
+  compensation?: string | null;
+  compensationType?: string | null;
+  // Scanned for "fully funded" along with the compensation
+  title?: string;
+  benefits?: string[];
+}
+
+interface AmountMatch {
+  value: number;
+  // 1 without a multiplier such as "k"
+  multiplier: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Parses CURRENCY_RATES, a comma separated list of `CODE=rate` entries in
+ * units of the currency per US dollar, e.g. "NGN=1600,GHS=15.2"
+ */
+export const parseCurrencyRates = (
+  value: string | undefined
+): Record<string, number> => {
+  const rates: Record<string, number> = {};
+
+  for (const entry of (value || '').split(',')) {
+    const match = entry.trim().match(/^([A-Za-z]{3})=(\d+(?:\.\d+)?)$/);
+    if (!match || !(Number(match[2]) > 0)) continue;
+
+    rates[match[1].toUpperCase()] = Number(match[2]);
+  }
+
+  return rates;
+};
+
+export class CompensationService {
+  private readonly rates: Record<string, number> = {
+    ...DEFAULT_CURRENCY_RATES,
+    ...parseCurrencyRates(config.CURRENCY_RATES),
+  };
+
+  private readonly codePattern = new RegExp(
+    `\\b(${Object.keys(this.rates).join('|').toLowerCase()})\\b`
+  );
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Parsing
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Structured compensation of a scraped or manual entry: "₦150,000 -
+   * ₦200,000 monthly" is 150000 to 200000 NGN per month. Amounts without a
+   * currency are kept without a monthly figure, as they cannot be compared.
+   */
+  parse(source: CompensationSource): CompensationFields {
+    const text = (source.compensation ?? '').toLowerCase();
+    const isFullyFunded = FULLY_FUNDED_PATTERN.test(
+      [source.title, text, ...(source.benefits ?? [])].join(' ').toLowerCase()
+    );
+
+    if (source.compensationType === 'volunteer' || UNPAID_PATTERN.test(text)) {
+      return {
+        compensationMin: 0,
+        compensationMax: 0,
+        compensationCurrency: null,
+        compensationPeriod: null,
+        monthlyCompensation: null,
+        baseMonthlyCompensation: 0,
+        isFullyFunded,
+      };
+    }
+
+    const [min, max] = this.parseRange(text);
+    const currency =
+      min !== null || max !== null ? this.findCurrency(text) : null;
+    const period =
+      min !== null || max !== null
+        ? this.findPeriod(text, source.compensationType)
+        : null;
+    const perMonth = period && PERIODS_PER_MONTH[period];
+    const top = max ?? min;
+    const monthly =
+      currency && perMonth && top !== null ? top * perMonth : null;
+    const rate = currency && this.rates[currency];
+
+    return {
+      compensationMin: min,
+      compensationMax: max,
+      compensationCurrency: currency,
+      compensationPeriod: period,
+      monthlyCompensation: monthly !== null ? this.round(monthly) : null,
+      baseMonthlyCompensation:
+        monthly !== null && rate ? this.round(monthly / rate) : 0,
+      isFullyFunded,
+    };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Filtering
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Where conditions for the compensation filters. minCompensation is
+   * converted from its currency into each currency of the rate table, so
+   * pay in any known currency is compared; currency on its own keeps
+   * opportunities paying in it.
+   */
+  buildWhere(filters: CompensationFilters): object[] {
+    const { minCompensation, currency, fullyFunded } = filters;
+    const conditions: object[] = [];
+
+    if (fullyFunded !== undefined) {
+      conditions.push({ isFullyFunded: fullyFunded });
+    }
+
+    if (minCompensation !== undefined) {
+      const unitsPerBase = this.getRate(currency ?? BASE_CURRENCY);
+      conditions.push({
+        OR: Object.entries(this.rates).map(([code, rate]) => ({
+          compensationCurrency: code,
+          monthlyCompensation: { gte: (minCompensation / unitsPerBase) * rate },
+        })),
+      });
+    } else if (currency) {
+      conditions.push({ compensationCurrency: currency });
+    }
+
+    return conditions;
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Maintenance
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Re-parses the compensation of every opportunity, for rows created
+   * before it was parsed or after the parser changed
+   */
+  async normalizeOpportunityCompensation(): Promise<NormalizationSummary> {
+    let processed = 0;
+    let updated = 0;
+    let lastId: string | undefined;
+
+    for (;;) {
+      const batch = await prisma.opportunity.findMany({
+        where: lastId ? { id: { gt: lastId } } : {},
+        select: {
+          id: true,
+          title: true,
+          benefits: true,
+          compensation: true,
+          compensationType: true,
+          compensationMin: true,
+          compensationMax: true,
+          compensationCurrency: true,
+          compensationPeriod: true,
+          monthlyCompensation: true,
+          baseMonthlyCompensation: true,
+          isFullyFunded: true,
+        },
+        orderBy: { id: 'asc' },
+        take: NORMALIZE_BATCH_SIZE,
+      });
+      if (!batch.length) break;
+
+      for (const opportunity of batch) {
+        const fields = this.parse(opportunity);
+        const changed = (
+          Object.keys(fields) as (keyof CompensationFields)[]
+        ).some((key) => fields[key] !== opportunity[key]);
+        if (!changed) continue;
+
+        await prisma.opportunity.update({
+          where: { id: opportunity.id },
+          data: fields,
+        });
+        updated++;
+      }
+
+      processed += batch.length;
+      lastId = batch[batch.length - 1].id;
+    }
+
+    logger.info('Opportunity compensation normalized', { processed, updated });
+
+    return { processed, updated };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Helper Methods
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private round(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private getRate(currency: string): number {
+    const rate = this.rates[currency];
+    if (!rate) {
+      throw new BadRequestException(
+        `Unsupported currency "${currency}". Supported currencies: ${Object.keys(this.rates).join(', ')}`
+      );
+    }
+    return rate;
+  }
+
+  /**
+   * [min, max] of the first amount or range in the text. "Up to" amounts
+   * have no min and "from" amounts no max.
+   */
+  private parseRange(text: string): [number | null, number | null] {
+    const amounts = this.findAmounts(text);
+    if (!amounts.length) return [null, null];
+
+    const [first, second] = amounts;
+    if (second && RANGE_SEPARATOR.test(text.slice(first.end, second.start))) {
+      // "50-70k" means 50k to 70k, but "500 - 2k" keeps its 500
+      const scaled = first.value * second.multiplier;
+      const low =
+        first.multiplier === 1 && scaled <= second.value ? scaled : first.value;
+      return [Math.min(low, second.value), Math.max(low, second.value)];
+    }
+
+    const before = text.slice(0, first.start);
+    if (UPPER_BOUND_PREFIX.test(before)) return [null, first.value];
+    if (LOWER_BOUND_PREFIX.test(before)) return [first.value, null];
+
+    return [first.value, first.value];
+  }
+
+  private findAmounts(text: string): AmountMatch[] {
+    const amounts: AmountMatch[] = [];
+
+    for (const match of text.matchAll(AMOUNT_PATTERN)) {
+      const [raw, whole, decimals, multiplier] = match;
+      const start = match.index;
+      const end = start + raw.length;
+
+      if (NON_AMOUNT_SUFFIX.test(text.slice(end))) continue;
+
+      // A bare year, as in "2026 cohort"
+      const value = Number(whole.replace(/[,\s]/g, '') + (decimals ?? ''));
+      if (
+        !multiplier &&
+        !decimals &&
+        /^(19|20)\d\d$/.test(whole) &&
+        !this.hasCurrencyBefore(text, start)
+      ) {
+        continue;
+      }
+
+      const factor = multiplier ? MULTIPLIERS[multiplier] : 1;
+      amounts.push({
+        value: value * factor,
+        multiplier: factor,
+        start,
+        end,
+      });
+    }
+
+    return amounts;
+  }
+
+  private hasCurrencyBefore(text: string, index: number): boolean {
+    return /[$€£₦₵¥₹]\s*$/.test(text.slice(0, index));
+  }
+
+  /**
+   * The currency mentioned first, by symbol, name or code
+   */
+  private findCurrency(text: string): string | null {
+    let found: { index: number; code: string } | null = null;
+
+    for (const [pattern, code] of [
+      ...CURRENCY_PATTERNS,
+      [this.codePattern, ''] as [RegExp, string],
+    ]) {
+      const match = text.match(pattern);
+      if (!match || match.index === undefined) continue;
+      if (found && found.index <= match.index) continue;
+
+      found = {
+        index: match.index,
+        code: code || match[1].toUpperCase(),
+      };
+    }
+
+    return found?.code ?? null;
+  }
+
+  private findPeriod(
+    text: string,
+    compensationType?: string | null
+  ): CompensationPeriod | null {
+    const period = PERIOD_PATTERNS.find(([pattern]) => pattern.test(text));
+    if (period) return period[1];
+
+    return compensationType === 'hourly' ? 'HOUR' : null;
+  }
+}
+
+export const compensationService = new CompensationService();
+export default compensationService;
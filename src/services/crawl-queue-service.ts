@@ -1,11 +1,41 @@
 import Bull from 'bull';
+import { EventEmitter } from 'events';
 import redis from '../config/redis';
 import logger from '../config/logger';
-import { ScraperFactory } from './scrapers/scraper-factory';
+import {
+  ScraperFactory,
+  ScraperSourceConfig,
+} from './scrapers/scraper-factory';
 import { prisma } from '../config/database';
 import { parseDeadline } from '../utils/parse-deadline';
-import { OpportunityDetails } from './scrapers/base-scraper';
-import { CrawlSourceStatus } from '../generated/prisma/enums';
+import { DRAFT_FALLBACKS } from '../constant/draft';
+import {
+  OpportunityDetails,
+  OpportunityListing,
+} from './scrapers/base-scraper';
+import { CrawlSourceStatus, CrawlTrigger } from '../generated/prisma/enums';
+import { AIDraft, Prisma } from '../generated/prisma/client';
+import { deduplicationService } from './deduplication-service';
+import { crawlRunService } from './crawl-run-service';
+import { seenListingService } from './seen-listing-service';
+import {
+  DraftSourceData,
+  opportunityRevisionService,
+} from './opportunity-revision-service';
+import { extractionQualityService } from './extraction-quality-service';
+import { draftTriageService } from './draft-triage-service';
+import { opportunityTypeClassifierService } from './opportunity-type-classifier-service';
+import { createLLMUsage, withLLMUsage } from '../utils/llm-usage';
+import { NotFoundException, ConflictException } from '../utils/http-exception';
+import {
+  CrawlQueueName,
+  CrawlRunResponse,
+  FailedCrawlJobListResponse,
+  FailedCrawlJobResponse,
+  FailedJobActionResponse,
+  FailedJobsQueryParams,
+} from '../schemas/crawl-source';
+import { ExtractionQualityReport } from '../schemas/ai-draft';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Types
@@ -16,6 +46,9 @@ export interface ListingCrawlJobData {
   url: string;
   scraperType: string;
   userId?: string;
+  trigger?: CrawlTrigger;
+  // Set by the first attempt so Bull retries record against the same run
+  crawlRunId?: string;
 }
 
 export interface DetailsCrawlJobData {
@@ -24,6 +57,46 @@ export interface DetailsCrawlJobData {
   scraperType: string;
   cacheKey: string;
   userId?: string;
+  crawlRunId?: string;
+  listingJobId?: string;
+  retried?: boolean;
+  // The listing was crawled before and its content changed since
+  isUpdate?: boolean;
+}
+
+// Progress reported by listing and details jobs through Bull job progress
+type CrawlProgressPayload =
+  | { type: 'crawl_started' }
+  | { type: 'listings_fetched'; listingsFound: number; newListings: number }
+  | { type: 'details_queued'; detailsQueued: number }
+  | { type: 'drafts_created'; draftsCreated: number; duplicatesSkipped: number }
+  | {
+      type: 'details_completed';
+      opportunityId: string;
+      outcome: DraftCreationOutcome;
+    }
+  | {
+      type: 'details_failed';
+      opportunityId: string;
+      error: string;
+      willRetry: boolean;
+    }
+  | { type: 'crawl_completed' }
+  | { type: 'crawl_failed'; error: string; willRetry: boolean };
+
+// Details events carry the listing job ID so a crawl can be followed as one
+export type CrawlProgressEvent = CrawlProgressPayload & {
+  listingJobId: string;
+  crawlRunId?: string;
+  timestamp: string;
+};
+
+export interface CrawlProgressSnapshot {
+  jobId: string;
+  state: Bull.JobStatus | 'stuck';
+  progress: CrawlProgressEvent | null;
+  crawlRun: CrawlRunResponse | null;
+  finished: boolean;
 }
 
 export interface CrawlJobOptions {
@@ -39,6 +112,27 @@ interface AIDialogCreationData {
   crawlSourceId: string;
   sourceUrl: string;
   isDetailsCrawled: boolean;
+  isUpdate?: boolean;
+}
+
+type DraftCreationOutcome = 'created' | 'updated' | 'duplicate' | 'failed';
+
+interface ExtractedDraftFields {
+  title?: string;
+  organization?: string;
+  description?: string;
+  requirements?: string[];
+  benefits?: string[];
+  compensation?: string;
+  compensationType?: string;
+  locations?: string[];
+  isRemote?: boolean;
+  deadline?: string;
+  applicationUrl?: string;
+  contactEmail?: string;
+  experienceLevel?: string;
+  duration?: string;
+  eligibility?: string[];
 }
 
 interface CachedListingData {
@@ -55,7 +149,9 @@ interface CachedListingData {
 
 const QUEUE_CONFIG = {
   removeOnComplete: 5,
-  removeOnFail: 5,
+  // Failed jobs are kept for the dead-letter console until retried,
+  // discarded or pruned by cleanupJobs
+  removeOnFail: 1000,
   attempts: 1,
   backoff: { type: 'exponential' as const },
 };
@@ -71,6 +167,7 @@ const DEFAULT_DEADLINE_DAYS = 30;
 class CrawlQueueService {
   private listingQueue: Bull.Queue<ListingCrawlJobData>;
   private detailsQueue: Bull.Queue<DetailsCrawlJobData>;
+  private progressEvents = new EventEmitter().setMaxListeners(0);
 
   constructor() {
     const redisConfig = {
@@ -97,77 +194,196 @@ class CrawlQueueService {
   // AI Draft Creation
   // ───────────────────────────────────────────────────────────────────────────
 
-  private async createAIDraft(data: AIDialogCreationData): Promise<boolean> {
-    const { listing, details, crawlSourceId, sourceUrl, isDetailsCrawled } =
-      data;
+  private async createAIDraft(
+    data: AIDialogCreationData
+  ): Promise<DraftCreationOutcome> {
+    const {
+      listing,
+      details,
+      crawlSourceId,
+      sourceUrl,
+      isDetailsCrawled,
+      isUpdate,
+    } = data;
 
     if (!listing || !crawlSourceId || !sourceUrl) {
       logger.error('Invalid AI draft creation data', {
         crawlSourceId,
         sourceUrl,
       });
-      return false;
+      return 'failed';
     }
 
     try {
       const existingDraft = await prisma.aIDraft.findFirst({
-        where: { sourceUrl, crawlSourceId },
+        where: { sourceUrl, crawlSourceId, revisionForId: null },
       });
 
-      if (existingDraft) return false;
+      if (existingDraft && !isUpdate) return 'duplicate';
+
+      const { extracted, quality } = this.checkDraftFields(listing, details);
+      const raw: DraftSourceData = {
+        rawScrapedData: isDetailsCrawled
+          ? { listing, details: details?.rawData || details }
+          : listing,
+        rawData: JSON.stringify(
+          isDetailsCrawled ? { listing, details } : listing
+        ),
+        qualityStatus: quality.status,
+        flaggedFields: quality.flaggedFields,
+        qualityReport: quality as unknown as Prisma.InputJsonValue,
+      };
+
+      if (existingDraft) {
+        return await this.applyListingUpdate(existingDraft, extracted, raw);
+      }
 
-      const deadline = this.parseDeadlineWithFallback(
-        details?.deadline || listing.deadline
-      );
+      const deadline = this.parseDeadlineWithFallback(extracted.deadline);
+      const title = extracted.title || DRAFT_FALLBACKS.title;
+      const organization =
+        extracted.organization || DRAFT_FALLBACKS.organization;
+      const applicationUrl = extracted.applicationUrl || sourceUrl;
+      const duplicateInput = { title, organization, deadline, applicationUrl };
 
-      await prisma.aIDraft.create({
+      const draft = await prisma.aIDraft.create({
         data: {
-          title: details?.title || listing.title || 'Untitled Opportunity',
-          organization:
-            details?.organization ||
-            listing.organization ||
-            'Unknown Organization',
-          description:
-            details?.description ||
-            listing.excerpt ||
-            listing.short_description ||
-            'No description available',
-          requirements: details?.requirements || [],
-          benefits: details?.benefits || [],
-          compensation: details?.compensation || '',
-          compensationType: details?.compensationType || null,
-          locations:
-            details?.locations || (listing.location ? [listing.location] : []),
-          isRemote: details?.isRemote || false,
+          title,
+          organization,
+          description: extracted.description || DRAFT_FALLBACKS.description,
+          requirements: extracted.requirements || [],
+          benefits: extracted.benefits || [],
+          compensation: extracted.compensation || '',
+          compensationType: extracted.compensationType || null,
+          locations: extracted.locations || [],
+          isRemote: extracted.isRemote || false,
           deadline,
-          applicationUrl: details?.applicationUrl || listing.url || sourceUrl,
-          contactEmail: details?.contactEmail || '',
-          experienceLevel: details?.experienceLevel || 'any',
-          duration: details?.duration || '',
-          eligibility: details?.eligibility || listing.eligibility || [],
+          applicationUrl,
+          contactEmail: extracted.contactEmail || '',
+          experienceLevel: extracted.experienceLevel || 'any',
+          duration: extracted.duration || '',
+          eligibility: extracted.eligibility || [],
           crawlSourceId,
           sourceUrl,
           status: 'PENDING',
           isDetailsCrawled,
-          rawScrapedData: isDetailsCrawled
-            ? { listing, details: details?.rawData || details }
-            : listing,
-          rawData: JSON.stringify(
-            isDetailsCrawled ? { listing, details } : listing
-          ),
+          ...raw,
+          fingerprint: deduplicationService.buildFingerprint(duplicateInput),
         },
       });
 
-      return true;
+      await deduplicationService.linkDuplicates(draft.id, duplicateInput);
+      await opportunityTypeClassifierService.classifyCrawledDraft(draft.id);
+      await draftTriageService.triageCrawledDraft(draft.id);
+
+      return 'created';
     } catch (error: any) {
       logger.error('Failed to create AI draft', {
         sourceUrl,
         error: error.message,
       });
-      return false;
+      return 'failed';
     }
   }
 
+  /**
+   * Draft fields and their extraction quality. Details extracted with an LLM
+   * were validated by the scraper and keep its report; everything else is
+   * validated here and invalid values are dropped so draft fallbacks apply.
+   */
+  private checkDraftFields(
+    listing: Record<string, any>,
+    details?: OpportunityDetails
+  ): { extracted: ExtractedDraftFields; quality: ExtractionQualityReport } {
+    const extracted = this.extractDraftFields(listing, details);
+    if (details?.quality) return { extracted, quality: details.quality };
+
+    const { data, quality } = extractionQualityService.check(extracted);
+    return { extracted: data, quality };
+  }
+
+  /**
+   * Draft fields found in the scraped listing and details. Fields the source
+   * did not provide are left undefined so updates never blank them out.
+   */
+  private extractDraftFields(
+    listing: Record<string, any>,
+    details?: OpportunityDetails
+  ): ExtractedDraftFields {
+    const nonEmpty = <T>(value: T[] | undefined) =>
+      value?.length ? value : undefined;
+
+    return {
+      title: details?.title || listing.title || undefined,
+      organization: details?.organization || listing.organization || undefined,
+      description:
+        details?.description ||
+        listing.excerpt ||
+        listing.short_description ||
+        undefined,
+      requirements: nonEmpty(details?.requirements),
+      benefits: nonEmpty(details?.benefits),
+      compensation: details?.compensation || undefined,
+      compensationType: details?.compensationType || undefined,
+      locations:
+        nonEmpty(details?.locations) ||
+        (listing.location ? [listing.location] : undefined),
+      isRemote: details?.isRemote,
+      deadline: details?.deadline || listing.deadline || undefined,
+      applicationUrl: details?.applicationUrl || listing.url || undefined,
+      contactEmail: details?.contactEmail || undefined,
+      experienceLevel: details?.experienceLevel || undefined,
+      duration: details?.duration || undefined,
+      eligibility:
+        nonEmpty(details?.eligibility) || nonEmpty(listing.eligibility),
+    };
+  }
+
+  /**
+   * Applies a changed listing to the draft it produced earlier. Unpublished
+   * drafts are patched and go back to review; published drafts get a
+   * revision draft for the fields that differ from their live opportunity.
+   * Rejected drafts are left alone.
+   */
+  private async applyListingUpdate(
+    draft: AIDraft,
+    extracted: ExtractedDraftFields,
+    raw: DraftSourceData
+  ): Promise<DraftCreationOutcome> {
+    if (draft.status === 'REJECTED') return 'duplicate';
+
+    const { deadline, ...rest } = extracted;
+    const patch = {
+      ...Object.fromEntries(
+        Object.entries(rest).filter(([, value]) => value !== undefined)
+      ),
+      ...(deadline && { deadline: this.parseDeadlineWithFallback(deadline) }),
+    };
+
+    if (draft.status === 'PUBLISHED' && draft.opportunityId) {
+      const revision = await opportunityRevisionService.proposeRevision(
+        draft,
+        patch,
+        raw
+      );
+      return revision ? 'updated' : 'duplicate';
+    }
+
+    await prisma.aIDraft.update({
+      where: { id: draft.id },
+      data: { ...patch, ...raw, status: 'PENDING' },
+    });
+
+    await opportunityTypeClassifierService.classifyCrawledDraft(draft.id);
+    await draftTriageService.triageCrawledDraft(draft.id);
+
+    logger.info('Applied listing update to existing draft', {
+      draftId: draft.id,
+      fields: Object.keys(patch),
+    });
+
+    return 'updated';
+  }
+
   private parseDeadlineWithFallback(scrapedDeadline: string | undefined): Date {
     const parsed = parseDeadline(scrapedDeadline);
     if (parsed && !isNaN(parsed.getTime())) return parsed;
@@ -192,13 +408,21 @@ class CrawlQueueService {
 
   private async processListingCrawl(job: Bull.Job<ListingCrawlJobData>) {
     const { crawlSourceId, url, scraperType } = job.data;
+    const usage = createLLMUsage();
+    const runId = await this.getListingRunId(job);
+    const report = (event: CrawlProgressPayload) =>
+      this.reportProgress(job, String(job.id), runId, event);
+
+    await report({ type: 'crawl_started' });
 
     try {
       const crawlSource = await this.getCrawlSource(crawlSourceId);
       await this.updateCrawlSourceStatus(crawlSourceId, 'ACTIVE');
 
-      const scraper = this.getScraper(scraperType);
-      const result = await scraper.scrapeOpportunityListing(url);
+      const scraper = this.getScraper(scraperType, crawlSource);
+      const result = await withLLMUsage(usage, () =>
+        scraper.scrapeOpportunityListing(url)
+      );
 
       if (!result?.success || !result.opportunity_listings.length) {
         const errorMessage = result?.errors?.length
@@ -207,54 +431,144 @@ class CrawlQueueService {
         throw new Error(errorMessage);
       }
 
+      const { pending, unchanged, changedKeys } =
+        await seenListingService.partition(
+          crawlSourceId,
+          result.opportunity_listings
+        );
+      // Published listings are re-crawled periodically and applied as
+      // updates, so details-only changes still produce a revision
+      const rechecks = crawlSource.isDetailsCrawled
+        ? await seenListingService.findDetailsRechecks(
+            crawlSourceId,
+            unchanged,
+            (listing) =>
+              scraper.constructOpportunityDetailsPage(listing.opportunity_id)
+          )
+        : [];
+      rechecks.forEach((listing) =>
+        changedKeys.add(seenListingService.buildListingKey(listing))
+      );
+      const listings = [...pending, ...rechecks];
+      const seenSkipped = unchanged.length - rechecks.length;
+      await report({
+        type: 'listings_fetched',
+        listingsFound: result.opportunity_listings.length,
+        newListings: listings.length,
+      });
+
       const cacheKey = this.buildCacheKey(crawlSourceId, url);
       await this.cacheListings(
         cacheKey,
-        result.opportunity_listings,
+        listings,
         crawlSourceId,
         url,
         crawlSource
       );
 
       if (crawlSource.isDetailsCrawled) {
+        // Record the expected details count before queueing so the run
+        // cannot be closed early by a fast details job
+        await crawlRunService.recordListingResult(runId, {
+          listingsFound: result.opportunity_listings.length,
+          detailsQueued: listings.length,
+          duplicatesSkipped: seenSkipped,
+          llmTokensUsed: usage.totalTokens,
+        });
         await this.queueDetailsCrawlJobs(
-          result.opportunity_listings,
+          listings,
+          changedKeys,
           crawlSourceId,
           scraperType,
-          cacheKey
+          cacheKey,
+          runId,
+          String(job.id)
         );
+        await report({
+          type: 'details_queued',
+          detailsQueued: listings.length,
+        });
       } else {
-        await this.createAIDraftsFromListings(
-          result.opportunity_listings,
+        const drafts = await this.createAIDraftsFromListings(
+          listings,
+          changedKeys,
           crawlSourceId,
-          scraperType
+          scraperType,
+          crawlSource
         );
+        await crawlRunService.recordListingResult(runId, {
+          listingsFound: result.opportunity_listings.length,
+          draftsCreated: drafts.created,
+          draftsUpdated: drafts.updated,
+          duplicatesSkipped: seenSkipped + drafts.duplicates,
+          llmTokensUsed: usage.totalTokens,
+        });
+        await report({
+          type: 'drafts_created',
+          draftsCreated: drafts.created,
+          duplicatesSkipped: seenSkipped + drafts.duplicates,
+        });
       }
 
       await this.updateCrawlSourceSuccess(
         crawlSourceId,
         crawlSource,
-        result.total_found
+        listings.length
       );
 
       logger.info(
         `Listing crawl completed: ${result.total_found} opportunities`,
-        { crawlSourceId }
+        { crawlSourceId, crawlRunId: runId, new: listings.length }
       );
 
+      if (!crawlSource.isDetailsCrawled || !listings.length) {
+        await report({ type: 'crawl_completed' });
+      }
+
       return result;
     } catch (error: any) {
       logger.error(`Listing crawl failed: ${url}`, {
         error: error.message,
         crawlSourceId,
+        crawlRunId: runId,
       });
       await this.updateCrawlSourceError(crawlSourceId, error.message);
+      // Only the final attempt fails the run; earlier ones are kept as errors
+      const isFinalAttempt = this.isFinalAttempt(job);
+      if (isFinalAttempt) {
+        await crawlRunService.failRun(runId, error.message, usage.totalTokens);
+      } else {
+        await crawlRunService.recordAttemptError(
+          runId,
+          error.message,
+          usage.totalTokens
+        );
+      }
+      await report({
+        type: 'crawl_failed',
+        error: error.message,
+        willRetry: !isFinalAttempt,
+      });
       throw error;
     }
   }
 
   private async processDetailsCrawl(job: Bull.Job<DetailsCrawlJobData>) {
-    const { crawlSourceId, opportunityId, scraperType, cacheKey } = job.data;
+    const {
+      crawlSourceId,
+      opportunityId,
+      scraperType,
+      cacheKey,
+      crawlRunId,
+      listingJobId,
+      retried,
+      isUpdate,
+    } = job.data;
+    const usage = createLLMUsage();
+    const report = (event: CrawlProgressPayload) =>
+      listingJobId
+        ? this.reportProgress(job, listingJobId, crawlRunId, event)
+        : Promise.resolve();
 
     try {
       const { listings } = await this.getCachedData(cacheKey);
@@ -266,28 +580,83 @@ class CrawlQueueService {
         throw new Error(`Listing not found for opportunity: ${opportunityId}`);
       }
 
-      const scraper = this.getScraper(scraperType);
-      const details = await scraper.scrapeOpportunityDetails(opportunityId);
+      const crawlSource = await this.getCrawlSource(crawlSourceId);
+      const scraper = this.getScraper(scraperType, crawlSource);
+      const details = await withLLMUsage(usage, () =>
+        scraper.scrapeOpportunityDetails(opportunityId)
+      );
 
       if (!details?.id) {
         throw new Error('Invalid opportunity details format');
       }
 
       const sourceUrl = scraper.constructOpportunityDetailsPage(opportunityId);
-      const aiDraftCreated = await this.createAIDraft({
+      const outcome = await this.createAIDraft({
         listing: listingData,
         details,
         crawlSourceId,
         sourceUrl,
         isDetailsCrawled: true,
+        isUpdate,
       });
 
-      return { listing: listingData, details, aiDraftCreated };
+      if (outcome !== 'failed') {
+        await seenListingService.markSeen(crawlSourceId, listingData, true);
+      }
+
+      await report({ type: 'details_completed', opportunityId, outcome });
+
+      if (crawlRunId) {
+        const runCompleted = await crawlRunService.recordDetailsResult(
+          crawlRunId,
+          {
+            fetched: true,
+            draftCreated: outcome === 'created',
+            draftUpdated: outcome === 'updated',
+            duplicateSkipped: outcome === 'duplicate',
+            llmTokensUsed: usage.totalTokens,
+            error:
+              outcome === 'failed'
+                ? `${opportunityId}: Failed to create AI draft`
+                : undefined,
+            retried,
+          }
+        );
+        if (runCompleted) await report({ type: 'crawl_completed' });
+      }
+
+      return {
+        listing: listingData,
+        details,
+        aiDraftCreated: outcome === 'created',
+      };
     } catch (error: any) {
       logger.error(`Details crawl failed: ${opportunityId}`, {
         error: error.message,
         crawlSourceId,
+        crawlRunId,
       });
+      // Only the final attempt counts as a failed detail for the run
+      const isFinalAttempt = this.isFinalAttempt(job);
+      await report({
+        type: 'details_failed',
+        opportunityId,
+        error: error.message,
+        willRetry: !isFinalAttempt,
+      });
+
+      if (crawlRunId && isFinalAttempt) {
+        const runCompleted = await crawlRunService.recordDetailsResult(
+          crawlRunId,
+          {
+            fetched: false,
+            llmTokensUsed: usage.totalTokens,
+            error: `${opportunityId}: ${error.message}`,
+            retried,
+          }
+        );
+        if (runCompleted) await report({ type: 'crawl_completed' });
+      }
       throw error;
     }
   }
@@ -296,14 +665,37 @@ class CrawlQueueService {
   // Helper Methods
   // ───────────────────────────────────────────────────────────────────────────
 
+  /**
+   * Crawl run of a listing job. The first attempt starts it and stores its ID
+   * on the job, so one crawl records one run however many attempts it takes.
+   */
+  private async getListingRunId(
+    job: Bull.Job<ListingCrawlJobData>
+  ): Promise<string> {
+    if (job.data.crawlRunId) return job.data.crawlRunId;
+
+    const run = await crawlRunService.startRun({
+      crawlSourceId: job.data.crawlSourceId,
+      trigger: job.data.trigger,
+      triggeredById: job.data.userId,
+    });
+    await job.update({ ...job.data, crawlRunId: run.id });
+
+    return run.id;
+  }
+
+  private isFinalAttempt(job: Bull.Job): boolean {
+    return job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+  }
+
   private async getCrawlSource(id: string) {
     const source = await prisma.crawlSource.findUnique({ where: { id } });
     if (!source) throw new Error(`Crawl source not found: ${id}`);
     return source;
   }
 
-  private getScraper(scraperType: string) {
-    const scraper = ScraperFactory.getScraper(scraperType as any);
+  private getScraper(scraperType: string, crawlSource?: ScraperSourceConfig) {
+    const scraper = ScraperFactory.getScraper(scraperType as any, crawlSource);
     if (!scraper) throw new Error(`Unsupported scraper type: ${scraperType}`);
     return scraper;
   }
@@ -363,10 +755,13 @@ class CrawlQueueService {
   }
 
   private async queueDetailsCrawlJobs(
-    listings: any[],
+    listings: OpportunityListing[],
+    changedKeys: Set<string>,
     crawlSourceId: string,
     scraperType: string,
-    cacheKey: string
+    cacheKey: string,
+    crawlRunId?: string,
+    listingJobId?: string
   ): Promise<void> {
     const jobs = listings.map((listing) =>
       this.queueDetailsCrawl(
@@ -375,6 +770,11 @@ class CrawlQueueService {
           opportunityId: listing.opportunity_id,
           scraperType,
           cacheKey,
+          crawlRunId,
+          listingJobId,
+          isUpdate: changedKeys.has(
+            seenListingService.buildListingKey(listing)
+          ),
         },
         { priority: 5, delay: Math.random() * 5000 }
       )
@@ -383,34 +783,43 @@ class CrawlQueueService {
   }
 
   private async createAIDraftsFromListings(
-    listings: any[],
+    listings: OpportunityListing[],
+    changedKeys: Set<string>,
     crawlSourceId: string,
-    scraperType: string
-  ): Promise<number> {
-    const scraper = this.getScraper(scraperType);
+    scraperType: string,
+    crawlSource?: ScraperSourceConfig
+  ): Promise<{ created: number; updated: number; duplicates: number }> {
+    const scraper = this.getScraper(scraperType, crawlSource);
     let created = 0;
+    let updated = 0;
+    let duplicates = 0;
 
     for (const listing of listings) {
       try {
         const sourceUrl = scraper.constructOpportunityDetailsPage(
           listing.opportunity_id
         );
-        if (
-          await this.createAIDraft({
-            listing,
-            crawlSourceId,
-            sourceUrl,
-            isDetailsCrawled: false,
-          })
-        ) {
-          created++;
+        const outcome = await this.createAIDraft({
+          listing,
+          crawlSourceId,
+          sourceUrl,
+          isDetailsCrawled: false,
+          isUpdate: changedKeys.has(
+            seenListingService.buildListingKey(listing)
+          ),
+        });
+        if (outcome === 'created') created++;
+        if (outcome === 'updated') updated++;
+        if (outcome === 'duplicate') duplicates++;
+        if (outcome !== 'failed') {
+          await seenListingService.markSeen(crawlSourceId, listing);
         }
       } catch {
         // Continue processing remaining listings
       }
     }
 
-    return created;
+    return { created, updated, duplicates };
   }
 
   private async updateCrawlSourceStatus(
@@ -456,11 +865,58 @@ class CrawlQueueService {
     }
   }
 
+  // ───────────────────────────────────────────────────────────────────────────
+  // Progress Reporting
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Publishes a progress event through Bull so every API instance receives
+   * it as a `global:progress` event. Reporting never fails the job.
+   */
+  private async reportProgress(
+    job: Bull.Job,
+    listingJobId: string,
+    crawlRunId: string | undefined,
+    payload: CrawlProgressPayload
+  ): Promise<void> {
+    const event: CrawlProgressEvent = {
+      ...payload,
+      listingJobId,
+      crawlRunId,
+      timestamp: new Date().toISOString(),
+    };
+
+    try {
+      await job.progress(event);
+    } catch (error: any) {
+      logger.warn('Failed to report crawl progress', {
+        jobId: job.id,
+        type: payload.type,
+        error: error.message,
+      });
+    }
+  }
+
+  private emitProgress(progress: unknown): void {
+    const event = progress as CrawlProgressEvent | null;
+    if (event?.listingJobId && event.type) {
+      this.progressEvents.emit(event.listingJobId, event);
+    }
+  }
+
   // ───────────────────────────────────────────────────────────────────────────
   // Event Listeners
   // ───────────────────────────────────────────────────────────────────────────
 
   private setupEventListeners(): void {
+    this.listingQueue.on('global:progress', (_jobId, progress) =>
+      this.emitProgress(progress)
+    );
+
+    this.detailsQueue.on('global:progress', (_jobId, progress) =>
+      this.emitProgress(progress)
+    );
+
     this.listingQueue.on('failed', (job, err) => {
       logger.error('Listing job failed', { jobId: job.id, error: err.message });
     });
@@ -498,6 +954,226 @@ class CrawlQueueService {
     });
   }
 
+  /**
+   * Current state of a listing job and its crawl run, used to seed a
+   * progress stream before live events arrive
+   */
+  async getCrawlProgress(jobId: string): Promise<CrawlProgressSnapshot> {
+    const job = await this.listingQueue.getJob(jobId);
+
+    if (!job) {
+      throw new NotFoundException('Crawl job not found');
+    }
+
+    const state = await job.getState();
+    const latest = job.progress();
+    const progress =
+      latest && typeof latest === 'object'
+        ? (latest as CrawlProgressEvent)
+        : null;
+    const crawlRun = progress?.crawlRunId
+      ? await crawlRunService.getRunById(progress.crawlRunId).catch(() => null)
+      : null;
+
+    return {
+      jobId: String(job.id),
+      state,
+      progress,
+      crawlRun,
+      finished:
+        state === 'failed' ||
+        (crawlRun !== null && crawlRun.status !== 'RUNNING'),
+    };
+  }
+
+  isCrawlFinished(event: CrawlProgressEvent): boolean {
+    return (
+      event.type === 'crawl_completed' ||
+      (event.type === 'crawl_failed' && !event.willRetry)
+    );
+  }
+
+  /**
+   * Subscribes to progress events for a listing job and its details jobs.
+   * Returns a function that removes the listener.
+   */
+  onCrawlProgress(
+    listingJobId: string,
+    listener: (event: CrawlProgressEvent) => void
+  ): () => void {
+    this.progressEvents.on(listingJobId, listener);
+    return () => {
+      this.progressEvents.off(listingJobId, listener);
+    };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Dead-Letter Console
+  // ───────────────────────────────────────────────────────────────────────────
+
+  async getFailedJobs(
+    filters: FailedJobsQueryParams
+  ): Promise<FailedCrawlJobListResponse> {
+    const { queue, crawlSourceId, page, limit } = filters;
+    const queueNames: CrawlQueueName[] = queue
+      ? [queue]
+      : ['listing', 'details'];
+
+    const failedJobs = (
+      await Promise.all(
+        queueNames.map(async (name) =>
+          (await this.getQueue(name).getFailed()).map((job) =>
+            this.formatFailedJob(name, job)
+          )
+        )
+      )
+    )
+      .flat()
+      .filter((job) => !crawlSourceId || job.crawlSourceId === crawlSourceId)
+      .sort(
+        (a, b) => (b.failedAt?.getTime() ?? 0) - (a.failedAt?.getTime() ?? 0)
+      );
+
+    const total = failedJobs.length;
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      jobs: failedJobs.slice((page - 1) * limit, page * limit),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  async retryFailedJob(
+    queue: CrawlQueueName,
+    jobId: string
+  ): Promise<FailedCrawlJobResponse> {
+    const job = await this.getFailedJob(queue, jobId);
+    await this.retryJob(job);
+    return this.formatFailedJob(queue, job);
+  }
+
+  async discardFailedJob(queue: CrawlQueueName, jobId: string): Promise<void> {
+    const job = await this.getFailedJob(queue, jobId);
+    await job.remove();
+  }
+
+  /**
+   * Retries the given failed jobs, or every failed job in the queue when no
+   * IDs are given. Jobs that are missing or no longer failed are skipped.
+   */
+  async retryFailedJobs(
+    queue: CrawlQueueName,
+    jobIds?: string[]
+  ): Promise<FailedJobActionResponse> {
+    return this.applyToFailedJobs(queue, jobIds, (job) => this.retryJob(job));
+  }
+
+  async discardFailedJobs(
+    queue: CrawlQueueName,
+    jobIds?: string[]
+  ): Promise<FailedJobActionResponse> {
+    return this.applyToFailedJobs(queue, jobIds, (job) => job.remove());
+  }
+
+  async pauseQueue(queue: CrawlQueueName): Promise<void> {
+    await this.getQueue(queue).pause();
+    logger.info('Crawl queue paused', { queue });
+  }
+
+  async resumeQueue(queue: CrawlQueueName): Promise<void> {
+    await this.getQueue(queue).resume();
+    logger.info('Crawl queue resumed', { queue });
+  }
+
+  private getQueue(name: CrawlQueueName): Bull.Queue {
+    return name === 'listing' ? this.listingQueue : this.detailsQueue;
+  }
+
+  private async getFailedJob(
+    queue: CrawlQueueName,
+    jobId: string
+  ): Promise<Bull.Job> {
+    const job = await this.getQueue(queue).getJob(jobId);
+
+    if (!job) {
+      throw new NotFoundException('Job not found');
+    }
+
+    if (!(await job.isFailed())) {
+      throw new ConflictException('Job is not in the failed state');
+    }
+
+    return job;
+  }
+
+  private async retryJob(job: Bull.Job): Promise<void> {
+    if (job.name === 'crawl-listing') {
+      // The failed run is closed, so a manual retry records a run of its own
+      await job.update({ ...job.data, crawlRunId: undefined });
+    } else if (job.data.crawlRunId) {
+      // Details jobs already counted their failure against the crawl run
+      await job.update({ ...job.data, retried: true });
+    }
+    await job.retry();
+  }
+
+  private async applyToFailedJobs(
+    queue: CrawlQueueName,
+    jobIds: string[] | undefined,
+    action: (job: Bull.Job) => Promise<void>
+  ): Promise<FailedJobActionResponse> {
+    const jobs = jobIds
+      ? await Promise.all(jobIds.map((id) => this.getQueue(queue).getJob(id)))
+      : await this.getQueue(queue).getFailed();
+
+    const processed: string[] = [];
+    const skipped: string[] = [];
+
+    for (const [index, job] of jobs.entries()) {
+      if (!job || !(await job.isFailed())) {
+        skipped.push(jobIds ? jobIds[index] : String(job?.id));
+        continue;
+      }
+
+      await action(job);
+      processed.push(String(job.id));
+    }
+
+    logger.info('Failed crawl jobs processed', {
+      queue,
+      processed: processed.length,
+      skipped: skipped.length,
+    });
+
+    return { queue, processed, skipped };
+  }
+
+  private formatFailedJob(
+    queue: CrawlQueueName,
+    job: Bull.Job
+  ): FailedCrawlJobResponse {
+    return {
+      id: String(job.id),
+      queue,
+      name: job.name,
+      crawlSourceId: job.data?.crawlSourceId ?? null,
+      data: job.data,
+      failedReason: job.failedReason ?? null,
+      stacktrace: job.stacktrace ?? [],
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts ?? 1,
+      createdAt: new Date(job.timestamp),
+      failedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+    };
+  }
+
   async getQueueStats() {
     const [listing, details] = await Promise.all([
       this.getQueueCounts(this.listingQueue),
@@ -507,13 +1183,14 @@ class CrawlQueueService {
   }
 
   private async getQueueCounts(queue: Bull.Queue) {
-    const [waiting, active, completed, failed] = await Promise.all([
+    const [waiting, active, completed, failed, paused] = await Promise.all([
       queue.getWaitingCount(),
       queue.getActiveCount(),
       queue.getCompletedCount(),
       queue.getFailedCount(),
+      queue.isPaused(),
     ]);
-    return { waiting, active, completed, failed };
+    return { waiting, active, completed, failed, paused };
   }
 
   async cleanupJobs(): Promise<void> {
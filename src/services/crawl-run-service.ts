@@ -0,0 +1,261 @@
+import { prisma } from '../config/database';
+import logger from '../config/logger';
+import { CrawlRun } from '../generated/prisma/client';
+import { CrawlTrigger } from '../generated/prisma/enums';
+import {
+  CrawlRunListResponse,
+  CrawlRunQueryParams,
+  CrawlRunResponse,
+} from '../schemas/crawl-source';
+import { NotFoundException } from '../utils/http-exception';
+import { crawlSourceHealthService } from './crawl-source-health-service';
+
+export interface StartCrawlRunData {
+  crawlSourceId: string;
+  trigger?: CrawlTrigger;
+  triggeredById?: string;
+}
+
+export interface ListingRunMetrics {
+  listingsFound: number;
+  detailsQueued?: number;
+  draftsCreated?: number;
+  draftsUpdated?: number;
+  duplicatesSkipped?: number;
+  llmTokensUsed?: number;
+}
+
+export interface DetailsRunResult {
+  fetched: boolean;
+  draftCreated?: boolean;
+  draftUpdated?: boolean;
+  duplicateSkipped?: boolean;
+  llmTokensUsed?: number;
+  error?: string;
+  // Set for jobs retried from the dead-letter queue, whose failure was
+  // already counted against the run
+  retried?: boolean;
+}
+
+const MAX_ERROR_LENGTH = 500;
+
+class CrawlRunService {
+  async startRun(data: StartCrawlRunData): Promise<CrawlRun> {
+    return prisma.crawlRun.create({
+      data: {
+        crawlSourceId: data.crawlSourceId,
+        trigger: data.trigger ?? 'MANUAL',
+        triggeredById: data.triggeredById,
+      },
+    });
+  }
+
+  /**
+   * Records the outcome of the listing stage. Runs without queued details
+   * jobs are complete at this point; otherwise the last details job
+   * finishes the run.
+   */
+  async recordListingResult(
+    runId: string,
+    metrics: ListingRunMetrics
+  ): Promise<void> {
+    const detailsQueued = metrics.detailsQueued ?? 0;
+
+    const run = await prisma.crawlRun.update({
+      where: { id: runId },
+      data: {
+        listingsFound: metrics.listingsFound,
+        detailsQueued,
+        draftsCreated: { increment: metrics.draftsCreated ?? 0 },
+        draftsUpdated: { increment: metrics.draftsUpdated ?? 0 },
+        duplicatesSkipped: { increment: metrics.duplicatesSkipped ?? 0 },
+        llmTokensUsed: { increment: metrics.llmTokensUsed ?? 0 },
+        ...(detailsQueued === 0 && {
+          status: 'COMPLETED',
+          finishedAt: new Date(),
+        }),
+      },
+    });
+
+    if (detailsQueued === 0) await this.onRunFinished(run.crawlSourceId);
+  }
+
+  /**
+   * Records one details job outcome and resolves to true when it was the
+   * last outstanding job and closed the run
+   */
+  async recordDetailsResult(
+    runId: string,
+    result: DetailsRunResult
+  ): Promise<boolean> {
+    const fetched = result.fetched ? 1 : 0;
+    // A recovered retry moves its earlier failure over to fetched
+    const failed = result.retried ? -fetched : 1 - fetched;
+
+    const run = await prisma.crawlRun.update({
+      where: { id: runId },
+      data: {
+        detailsFetched: { increment: fetched },
+        detailsFailed: { increment: failed },
+        draftsCreated: { increment: result.draftCreated ? 1 : 0 },
+        draftsUpdated: { increment: result.draftUpdated ? 1 : 0 },
+        duplicatesSkipped: { increment: result.duplicateSkipped ? 1 : 0 },
+        llmTokensUsed: { increment: result.llmTokensUsed ?? 0 },
+        ...(result.error && {
+          errorCount: { increment: 1 },
+          errors: { push: result.error.slice(0, MAX_ERROR_LENGTH) },
+        }),
+      },
+    });
+
+    // Row-level locking makes the increments atomic, so exactly one job
+    // observes the final count and closes the run
+    if (
+      run.status === 'RUNNING' &&
+      run.detailsFetched + run.detailsFailed >= run.detailsQueued
+    ) {
+      await prisma.crawlRun.update({
+        where: { id: runId },
+        data: { status: 'COMPLETED', finishedAt: new Date() },
+      });
+      await this.onRunFinished(run.crawlSourceId);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Records the error of a listing attempt that Bull will retry, leaving the
+   * run open for the next attempt
+   */
+  async recordAttemptError(
+    runId: string,
+    error: string,
+    llmTokensUsed = 0
+  ): Promise<void> {
+    try {
+      await prisma.crawlRun.update({
+        where: { id: runId },
+        data: {
+          llmTokensUsed: { increment: llmTokensUsed },
+          errorCount: { increment: 1 },
+          errors: { push: error.slice(0, MAX_ERROR_LENGTH) },
+        },
+      });
+    } catch (err: any) {
+      logger.error('Failed to record crawl run attempt error', {
+        runId,
+        error: err.message,
+      });
+    }
+  }
+
+  async failRun(
+    runId: string,
+    error: string,
+    llmTokensUsed = 0
+  ): Promise<void> {
+    try {
+      const run = await prisma.crawlRun.update({
+        where: { id: runId },
+        data: {
+          status: 'FAILED',
+          finishedAt: new Date(),
+          llmTokensUsed: { increment: llmTokensUsed },
+          errorCount: { increment: 1 },
+          errors: { push: error.slice(0, MAX_ERROR_LENGTH) },
+        },
+      });
+      await this.onRunFinished(run.crawlSourceId);
+    } catch (err: any) {
+      logger.error('Failed to mark crawl run as failed', {
+        runId,
+        error: err.message,
+      });
+    }
+  }
+
+  async getRunsForSource(
+    crawlSourceId: string,
+    filters: CrawlRunQueryParams
+  ): Promise<CrawlRunListResponse> {
+    const { page, limit, status, trigger } = filters;
+
+    const crawlSource = await prisma.crawlSource.findUnique({
+      where: { id: crawlSourceId },
+      select: { id: true },
+    });
+
+    if (!crawlSource) {
+      throw new NotFoundException('Crawl source not found');
+    }
+
+    const where = {
+      crawlSourceId,
+      ...(status && { status }),
+      ...(trigger && { trigger }),
+    };
+
+    const [crawlRuns, total] = await Promise.all([
+      prisma.crawlRun.findMany({
+        where,
+        skip: (page - 1) * limit,
+        take: limit,
+        orderBy: { startedAt: 'desc' },
+      }),
+      prisma.crawlRun.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      crawlRuns: crawlRuns.map((run) => this.formatRun(run)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  async getRunById(runId: string): Promise<CrawlRunResponse> {
+    const run = await prisma.crawlRun.findUnique({ where: { id: runId } });
+
+    if (!run) {
+      throw new NotFoundException('Crawl run not found');
+    }
+
+    return this.formatRun(run);
+  }
+
+  /**
+   * Rescores the source once a run is over. Health is advisory, so a
+   * failure here never fails the crawl.
+   */
+  private async onRunFinished(crawlSourceId: string): Promise<void> {
+    try {
+      await crawlSourceHealthService.evaluate(crawlSourceId);
+    } catch (error: any) {
+      logger.error('Failed to evaluate crawl source health', {
+        crawlSourceId,
+        error: error.message,
+      });
+    }
+  }
+
+  private formatRun(run: CrawlRun): CrawlRunResponse {
+    return {
+      ...run,
+      durationMs: run.finishedAt
+        ? run.finishedAt.getTime() - run.startedAt.getTime()
+        : null,
+    };
+  }
+}
+
+export const crawlRunService = new CrawlRunService();
+export default crawlRunService;
@@ -0,0 +1,245 @@
+import Bull from 'bull';
+import redis from '../config/redis';
+import logger from '../config/logger';
+import { config } from '../config/envars';
+import { prisma } from '../config/database';
+import { crawlQueueService } from './crawl-queue-service';
+import { acquireLock, releaseLock } from '../utils/redis-lock';
+import {
+  alignToCrawlWindow,
+  computeNextCrawlAt,
+  getUpcomingCrawlTimes,
+  isWithinCrawlWindow,
+} from '../utils/crawl-schedule';
+import {
+  UpcomingCrawl,
+  UpcomingScheduleQueryParams,
+  UpcomingScheduleResponse,
+} from '../schemas/crawl-source';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const TICK_JOB = 'schedule-tick';
+const TICK_CRON = '* * * * *';
+const TICK_JOB_ID = 'crawl-scheduler-tick';
+
+const LOCK_KEY = 'crawl_scheduler:lock';
+const LOCK_TTL_MS = 55 * 1000;
+
+const MAX_SOURCES_PER_TICK = 100;
+const MAX_OCCURRENCES_PER_SOURCE = 50;
+const SCHEDULED_SPREAD_MS = 30000;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Service
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Queues crawls for sources whose `nextCrawlAt` has passed, skipping
+ * quarantined sources. Every API
+ * instance registers the same repeatable tick job, which Bull deduplicates,
+ * and each tick runs under a Redis lock so only one instance schedules at a
+ * time.
+ */
+class CrawlSchedulerService {
+  private queue: Bull.Queue;
+  private started = false;
+
+  constructor() {
+    this.queue = new Bull('crawl-scheduler', {
+      redis: {
+        host: redis.options.host,
+        port: redis.options.port,
+        password: redis.options.password,
+      },
+      defaultJobOptions: { removeOnComplete: 5, removeOnFail: 5 },
+    });
+  }
+
+  async start(): Promise<void> {
+    if (this.started || config.CRAWL_SCHEDULER_ENABLED === 'false') return;
+    this.started = true;
+
+    this.queue.process(TICK_JOB, 1, () => this.runTick());
+    this.queue.on('failed', (job, err) => {
+      logger.error('Crawl scheduler tick failed', {
+        jobId: job.id,
+        error: err.message,
+      });
+    });
+
+    await this.queue.add(
+      TICK_JOB,
+      {},
+      {
+        jobId: TICK_JOB_ID,
+        repeat: { cron: TICK_CRON },
+      }
+    );
+
+    logger.info('Crawl scheduler started', { cron: TICK_CRON });
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Tick
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Queues every due source that is inside its crawl window. Due sources
+   * outside their window are pushed to the next window opening instead.
+   */
+  async runTick(): Promise<{ jobsQueued: number; deferred: number }> {
+    const token = await acquireLock(LOCK_KEY, LOCK_TTL_MS);
+    if (!token) {
+      logger.debug('Crawl scheduler lock held elsewhere, skipping tick');
+      return { jobsQueued: 0, deferred: 0 };
+    }
+
+    try {
+      const now = new Date();
+      await this.backfillNextCrawlAt(now);
+
+      const dueSources = await prisma.crawlSource.findMany({
+        where: {
+          isActive: true,
+          quarantinedAt: null,
+          nextCrawlAt: { lte: now },
+        },
+        orderBy: { nextCrawlAt: 'asc' },
+        take: MAX_SOURCES_PER_TICK,
+      });
+
+      let jobsQueued = 0;
+      let deferred = 0;
+
+      for (const crawlSource of dueSources) {
+        if (!isWithinCrawlWindow(crawlSource, now)) {
+          await prisma.crawlSource.update({
+            where: { id: crawlSource.id },
+            data: { nextCrawlAt: alignToCrawlWindow(crawlSource, now) },
+          });
+          deferred++;
+          continue;
+        }
+
+        await crawlQueueService.queueListingCrawl(
+          {
+            crawlSourceId: crawlSource.id,
+            url: crawlSource.url,
+            scraperType: crawlSource.scraperType,
+            trigger: 'SCHEDULED',
+          },
+          {
+            priority: 5, // Medium priority for scheduled crawls
+            delay: Math.random() * SCHEDULED_SPREAD_MS, // Spread load
+          }
+        );
+
+        await prisma.crawlSource.update({
+          where: { id: crawlSource.id },
+          data: { nextCrawlAt: computeNextCrawlAt(crawlSource, now) },
+        });
+
+        jobsQueued++;
+      }
+
+      if (dueSources.length > 0) {
+        logger.info('Scheduled crawls queued', {
+          sourcesDue: dueSources.length,
+          jobsQueued,
+          deferred,
+        });
+      }
+
+      return { jobsQueued, deferred };
+    } finally {
+      await releaseLock(LOCK_KEY, token);
+    }
+  }
+
+  /**
+   * Active sources created before the scheduler existed have no next crawl
+   * time; give them one so they join the schedule
+   */
+  private async backfillNextCrawlAt(now: Date): Promise<void> {
+    const unscheduled = await prisma.crawlSource.findMany({
+      where: { isActive: true, quarantinedAt: null, nextCrawlAt: null },
+      take: MAX_SOURCES_PER_TICK,
+    });
+
+    for (const crawlSource of unscheduled) {
+      await prisma.crawlSource.update({
+        where: { id: crawlSource.id },
+        data: { nextCrawlAt: computeNextCrawlAt(crawlSource, now) },
+      });
+    }
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Public API
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Projects the crawls due within the next `hours` across active sources
+   */
+  async getUpcomingSchedule(
+    params: UpcomingScheduleQueryParams
+  ): Promise<UpcomingScheduleResponse> {
+    const from = new Date();
+    const until = new Date(from.getTime() + params.hours * 60 * 60 * 1000);
+
+    const crawlSources = await prisma.crawlSource.findMany({
+      where: { isActive: true, quarantinedAt: null },
+    });
+
+    const upcoming: UpcomingCrawl[] = [];
+
+    for (const crawlSource of crawlSources) {
+      const first = crawlSource.nextCrawlAt
+        ? alignToCrawlWindow(crawlSource, crawlSource.nextCrawlAt)
+        : computeNextCrawlAt(crawlSource, from);
+      if (first > until) continue;
+
+      const times = [
+        first,
+        ...getUpcomingCrawlTimes(
+          crawlSource,
+          first,
+          MAX_OCCURRENCES_PER_SOURCE - 1
+        ),
+      ].filter((time) => time <= until);
+
+      for (const scheduledAt of times) {
+        upcoming.push({
+          crawlSourceId: crawlSource.id,
+          name: crawlSource.name,
+          scheduledAt,
+          cronExpression: crawlSource.cronExpression,
+          frequency: crawlSource.frequency,
+          timezone: crawlSource.timezone,
+          crawlWindow:
+            crawlSource.crawlWindowStart && crawlSource.crawlWindowEnd
+              ? {
+                  start: crawlSource.crawlWindowStart,
+                  end: crawlSource.crawlWindowEnd,
+                }
+              : null,
+        });
+      }
+    }
+
+    upcoming.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime());
+
+    return { from, until, upcoming: upcoming.slice(0, params.limit) };
+  }
+
+  async shutdown(): Promise<void> {
+    await this.queue.close();
+    logger.info('Crawl scheduler shut down');
+  }
+}
+
+export const crawlSchedulerService = new CrawlSchedulerService();
+export default crawlSchedulerService;
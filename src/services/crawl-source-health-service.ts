@@ -0,0 +1,418 @@
+import axios from 'axios';
+import { prisma } from '../config/database';
+import logger from '../config/logger';
+import { config } from '../config/envars';
+import { DRAFT_FALLBACKS } from '../constant/draft';
+import { CrawlSource, Prisma } from '../generated/prisma/client';
+import {
+  CrawlSourceAlertListResponse,
+  CrawlSourceAlertQueryParams,
+  CrawlSourceAlertResponse,
+  CrawlSourceHealthResponse,
+  CrawlSourceResponse,
+} from '../schemas/crawl-source';
+import {
+  NotFoundException,
+  BadRequestException,
+} from '../utils/http-exception';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const RUN_WINDOW = 10;
+const DRAFT_WINDOW_DAYS = 30;
+// Quarantine needs enough distinct crawls to tell a bad source from bad luck.
+// A run covers one listing job including all of its Bull retry attempts.
+const MIN_CRAWLS_FOR_QUARANTINE = 3;
+const DEFAULT_QUARANTINE_THRESHOLD = 40;
+
+const WEIGHTS = {
+  successRate: 0.4,
+  yieldRate: 0.25,
+  extractionValidity: 0.25,
+  latencyScore: 0.1,
+};
+
+// Runs finishing within the target score full marks, at the limit zero
+const LATENCY_TARGET_MS = 2 * 60 * 1000;
+const LATENCY_LIMIT_MS = 30 * 60 * 1000;
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+const ratio = (part: number, total: number) => (total ? part / total : null);
+
+const percent = (value: number | null) =>
+  value === null ? 'n/a' : `${Math.round(value * 100)}%`;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Service
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Scores crawl sources on their recent runs and drafts, and quarantines
+ * sources that fall below the threshold so they stop being crawled on
+ * schedule until an admin releases them.
+ */
+class CrawlSourceHealthService {
+  private get quarantineThreshold(): number {
+    const threshold = Number(config.CRAWL_HEALTH_QUARANTINE_THRESHOLD);
+    return Number.isFinite(threshold) && threshold > 0
+      ? threshold
+      : DEFAULT_QUARANTINE_THRESHOLD;
+  }
+
+  /**
+   * Health over the last RUN_WINDOW finished runs and the drafts of the
+   * last DRAFT_WINDOW_DAYS. Activity before a quarantine release is ignored
+   * so a released source starts with a clean slate.
+   */
+  async computeHealth(
+    crawlSource: CrawlSource
+  ): Promise<CrawlSourceHealthResponse> {
+    const since = new Date(
+      Math.max(
+        Date.now() - DRAFT_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+        crawlSource.quarantineReleasedAt?.getTime() ?? 0
+      )
+    );
+
+    const runs = await prisma.crawlRun.findMany({
+      where: {
+        crawlSourceId: crawlSource.id,
+        status: { in: ['COMPLETED', 'FAILED'] },
+        ...(crawlSource.quarantineReleasedAt && {
+          startedAt: { gte: crawlSource.quarantineReleasedAt },
+        }),
+      },
+      orderBy: { startedAt: 'desc' },
+      take: RUN_WINDOW,
+    });
+
+    // Completed runs still lose credit for the details jobs that failed
+    const successRate = ratio(
+      runs.reduce((sum, run) => {
+        if (run.status === 'FAILED') return sum;
+        if (!run.detailsQueued) return sum + 1;
+        return sum + Math.min(1, run.detailsFetched / run.detailsQueued);
+      }, 0),
+      runs.length
+    );
+
+    const durations = runs
+      .filter((run) => run.status === 'COMPLETED' && run.finishedAt)
+      .map((run) => run.finishedAt!.getTime() - run.startedAt.getTime());
+    const averageDurationMs = durations.length
+      ? Math.round(durations.reduce((a, b) => a + b, 0) / durations.length)
+      : null;
+    const latencyScore =
+      averageDurationMs === null
+        ? null
+        : Math.min(
+            1,
+            Math.max(
+              0,
+              1 -
+                (averageDurationMs - LATENCY_TARGET_MS) /
+                  (LATENCY_LIMIT_MS - LATENCY_TARGET_MS)
+            )
+          );
+
+    const draftWhere: Prisma.AIDraftWhereInput = {
+      crawlSourceId: crawlSource.id,
+      revisionForId: null,
+      createdAt: { gte: since },
+    };
+
+    const [drafts, accepted, reviewed, incomplete] = await Promise.all([
+      prisma.aIDraft.count({ where: draftWhere }),
+      prisma.aIDraft.count({
+        where: { ...draftWhere, status: { in: ['APPROVED', 'PUBLISHED'] } },
+      }),
+      prisma.aIDraft.count({
+        where: {
+          ...draftWhere,
+          status: { in: ['APPROVED', 'PUBLISHED', 'REJECTED'] },
+        },
+      }),
+      prisma.aIDraft.count({
+        where: {
+          ...draftWhere,
+          OR: [
+            { title: DRAFT_FALLBACKS.title },
+            { organization: DRAFT_FALLBACKS.organization },
+            { description: DRAFT_FALLBACKS.description },
+          ],
+        },
+      }),
+    ]);
+
+    const components = {
+      successRate,
+      yieldRate: ratio(accepted, reviewed),
+      extractionValidity: ratio(drafts - incomplete, drafts),
+      latencyScore,
+    };
+
+    return {
+      crawlSourceId: crawlSource.id,
+      score: runs.length ? this.weightedScore(components) : null,
+      ...components,
+      averageDurationMs,
+      runsConsidered: runs.length,
+      draftsConsidered: drafts,
+      quarantineThreshold: this.quarantineThreshold,
+      quarantinedAt: crawlSource.quarantinedAt,
+      quarantineReason: crawlSource.quarantineReason,
+    };
+  }
+
+  /**
+   * Recomputes and stores a source's health, quarantining it when the score
+   * drops below the threshold. Called whenever one of its runs finishes.
+   */
+  async evaluate(crawlSourceId: string): Promise<CrawlSourceHealthResponse> {
+    const crawlSource = await prisma.crawlSource.findUnique({
+      where: { id: crawlSourceId },
+    });
+
+    if (!crawlSource) {
+      throw new NotFoundException('Crawl source not found');
+    }
+
+    const health = await this.computeHealth(crawlSource);
+
+    await prisma.crawlSource.update({
+      where: { id: crawlSourceId },
+      data: {
+        healthScore: health.score,
+        healthBreakdown: {
+          successRate: health.successRate,
+          yieldRate: health.yieldRate,
+          extractionValidity: health.extractionValidity,
+          latencyScore: health.latencyScore,
+          averageDurationMs: health.averageDurationMs,
+          runsConsidered: health.runsConsidered,
+          draftsConsidered: health.draftsConsidered,
+        },
+        healthUpdatedAt: new Date(),
+      },
+    });
+
+    if (
+      !crawlSource.quarantinedAt &&
+      health.score !== null &&
+      health.score < health.quarantineThreshold &&
+      health.runsConsidered >= MIN_CRAWLS_FOR_QUARANTINE
+    ) {
+      return this.quarantine(crawlSource, health);
+    }
+
+    return health;
+  }
+
+  async getHealth(crawlSourceId: string): Promise<CrawlSourceHealthResponse> {
+    const crawlSource = await prisma.crawlSource.findUnique({
+      where: { id: crawlSourceId },
+    });
+
+    if (!crawlSource) {
+      throw new NotFoundException('Crawl source not found');
+    }
+
+    return this.computeHealth(crawlSource);
+  }
+
+  /**
+   * Lifts a quarantine. Health is recomputed from runs after the release.
+   */
+  async releaseQuarantine(crawlSourceId: string): Promise<CrawlSourceResponse> {
+    const crawlSource = await prisma.crawlSource.findUnique({
+      where: { id: crawlSourceId },
+    });
+
+    if (!crawlSource) {
+      throw new NotFoundException('Crawl source not found');
+    }
+
+    if (!crawlSource.quarantinedAt) {
+      throw new BadRequestException('This crawl source is not quarantined');
+    }
+
+    const released = await prisma.crawlSource.update({
+      where: { id: crawlSourceId },
+      data: {
+        quarantinedAt: null,
+        quarantineReason: null,
+        quarantineReleasedAt: new Date(),
+        healthScore: null,
+        healthBreakdown: Prisma.DbNull,
+      },
+    });
+
+    logger.info('Crawl source released from quarantine', { crawlSourceId });
+
+    return released as CrawlSourceResponse;
+  }
+
+  private async quarantine(
+    crawlSource: CrawlSource,
+    health: CrawlSourceHealthResponse
+  ): Promise<CrawlSourceHealthResponse> {
+    const reason =
+      `Health score ${health.score} is below ${health.quarantineThreshold} ` +
+      `(success ${percent(health.successRate)}, ` +
+      `yield ${percent(health.yieldRate)}, ` +
+      `valid extraction ${percent(health.extractionValidity)})`;
+    const quarantinedAt = new Date();
+
+    await prisma.crawlSource.update({
+      where: { id: crawlSource.id },
+      data: { quarantinedAt, quarantineReason: reason },
+    });
+
+    const alert = await prisma.crawlSourceAlert.create({
+      data: {
+        crawlSourceId: crawlSource.id,
+        type: 'QUARANTINED',
+        message: `${crawlSource.name} was quarantined. ${reason}`,
+        healthScore: health.score,
+      },
+    });
+
+    logger.warn('Crawl source quarantined', {
+      crawlSourceId: crawlSource.id,
+      name: crawlSource.name,
+      reason,
+    });
+
+    await this.notifyWebhook(alert, crawlSource);
+
+    return { ...health, quarantinedAt, quarantineReason: reason };
+  }
+
+  /**
+   * Forwards an alert to CRAWL_ALERT_WEBHOOK_URL. Delivery failures are
+   * logged only; the alert is stored either way.
+   */
+  private async notifyWebhook(
+    alert: CrawlSourceAlertResponse,
+    crawlSource: CrawlSource
+  ): Promise<void> {
+    if (!config.CRAWL_ALERT_WEBHOOK_URL) return;
+
+    try {
+      await axios.post(
+        config.CRAWL_ALERT_WEBHOOK_URL,
+        {
+          id: alert.id,
+          type: alert.type,
+          text: alert.message,
+          healthScore: alert.healthScore,
+          crawlSource: {
+            id: crawlSource.id,
+            name: crawlSource.name,
+            url: crawlSource.url,
+          },
+          createdAt: alert.createdAt,
+        },
+        { timeout: WEBHOOK_TIMEOUT_MS }
+      );
+    } catch (error: any) {
+      logger.error('Failed to deliver crawl source alert', {
+        alertId: alert.id,
+        error: error.message,
+      });
+    }
+  }
+
+  private weightedScore(
+    components: Record<keyof typeof WEIGHTS, number | null>
+  ): number {
+    // Components without data are left out and the rest reweighted
+    let total = 0;
+    let weight = 0;
+
+    for (const [key, value] of Object.entries(components)) {
+      if (value === null) continue;
+      total += value * WEIGHTS[key as keyof typeof WEIGHTS];
+      weight += WEIGHTS[key as keyof typeof WEIGHTS];
+    }
+
+    return Math.round((total / weight) * 100);
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Alerts
+  // ───────────────────────────────────────────────────────────────────────────
+
+  async getAlerts(
+    filters: CrawlSourceAlertQueryParams
+  ): Promise<CrawlSourceAlertListResponse> {
+    const { page, limit, acknowledged, crawlSourceId } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.CrawlSourceAlertWhereInput = {};
+
+    if (acknowledged !== undefined) {
+      where.acknowledgedAt = acknowledged ? { not: null } : null;
+    }
+
+    if (crawlSourceId) {
+      where.crawlSourceId = crawlSourceId;
+    }
+
+    const [alerts, total] = await Promise.all([
+      prisma.crawlSourceAlert.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          crawlSource: { select: { id: true, name: true, url: true } },
+        },
+      }),
+      prisma.crawlSourceAlert.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      alerts,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  async acknowledgeAlert(
+    id: string,
+    userId: string
+  ): Promise<CrawlSourceAlertResponse> {
+    const alert = await prisma.crawlSourceAlert.findUnique({ where: { id } });
+
+    if (!alert) {
+      throw new NotFoundException('Alert not found');
+    }
+
+    if (alert.acknowledgedAt) {
+      throw new BadRequestException('This alert has already been acknowledged');
+    }
+
+    return prisma.crawlSourceAlert.update({
+      where: { id },
+      data: { acknowledgedAt: new Date(), acknowledgedBy: userId },
+      include: {
+        crawlSource: { select: { id: true, name: true, url: true } },
+      },
+    });
+  }
+}
+
+export const crawlSourceHealthService = new CrawlSourceHealthService();
+export default crawlSourceHealthService;
@@ -6,9 +6,28 @@ import {
   CrawlSourceQueryParams,
   CrawlSourceResponse,
   CrawlSourceListResponse,
+  CrawlSourcePreviewResponse,
+  PreviewCrawlSourceData,
 } from '../schemas/crawl-source';
-import { NotFoundException, ConflictException } from '../utils/http-exception';
+import {
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '../utils/http-exception';
 import { crawlQueueService } from './crawl-queue-service';
+import { computeNextCrawlAt } from '../utils/crawl-schedule';
+import { createLLMUsage, withLLMUsage } from '../utils/llm-usage';
+import { ScraperFactory } from './scrapers/scraper-factory';
+import { OpportunityDetails } from './scrapers/base-scraper';
+
+// Fields that change when a source should next be crawled
+const SCHEDULE_FIELDS = [
+  'frequency',
+  'cronExpression',
+  'timezone',
+  'crawlWindowStart',
+  'crawlWindowEnd',
+] as const;
 
 class CrawlSourceService {
   async createCrawlSource(
@@ -20,9 +39,19 @@ class CrawlSourceService {
       frequency,
       scraperType,
       cssSelectors,
+      fetcherType,
       isDetailsCrawled,
+      cronExpression,
+      timezone,
+      crawlWindowStart,
+      crawlWindowEnd,
+      requestsPerMinute,
+      trustLevel,
     } = data;
 
+    this.assertSelectorsConfigured(scraperType, cssSelectors);
+    this.assertCrawlWindowComplete(crawlWindowStart, crawlWindowEnd);
+
     // Check if URL already exists
     const existingSource = await prisma.crawlSource.findFirst({
       where: { url },
@@ -34,8 +63,13 @@ class CrawlSourceService {
       );
     }
 
-    // Calculate next crawl time based on frequency
-    const nextCrawlAt = this.calculateNextCrawlTime(frequency);
+    const nextCrawlAt = computeNextCrawlAt({
+      frequency,
+      cronExpression,
+      timezone,
+      crawlWindowStart,
+      crawlWindowEnd,
+    });
 
     const crawlSource = await prisma.crawlSource.create({
       data: {
@@ -44,6 +78,13 @@ class CrawlSourceService {
         frequency,
         scraperType,
         cssSelectors,
+        fetcherType,
+        cronExpression,
+        timezone,
+        crawlWindowStart,
+        crawlWindowEnd,
+        requestsPerMinute,
+        trustLevel,
         nextCrawlAt,
         status: 'INACTIVE',
         isActive: true,
@@ -62,7 +103,19 @@ class CrawlSourceService {
   async getCrawlSources(
     filters: CrawlSourceQueryParams
   ): Promise<CrawlSourceListResponse> {
-    const { page, limit, search, status, frequency, isActive } = filters;
+    const {
+      page,
+      limit,
+      search,
+      status,
+      frequency,
+      isActive,
+      quarantined,
+      minHealth,
+      maxHealth,
+      sortBy,
+      sortOrder,
+    } = filters;
 
     const skip = (page - 1) * limit;
 
@@ -87,14 +140,24 @@ class CrawlSourceService {
       where.isActive = isActive;
     }
 
+    if (quarantined !== undefined) {
+      where.quarantinedAt = quarantined ? { not: null } : null;
+    }
+
+    if (minHealth !== undefined || maxHealth !== undefined) {
+      where.healthScore = { gte: minHealth, lte: maxHealth };
+    }
+
     const [crawlSources, total] = await Promise.all([
       prisma.crawlSource.findMany({
         where,
         skip,
         take: limit,
-        orderBy: {
-          createdAt: 'desc',
-        },
+        // Sources not yet scored or crawled sort last in either direction
+        orderBy:
+          sortBy === 'healthScore' || sortBy === 'lastCrawledAt'
+            ? { [sortBy]: { sort: sortOrder, nulls: 'last' } }
+            : { [sortBy]: sortOrder },
       }),
       prisma.crawlSource.count({ where }),
     ]);
@@ -140,10 +203,34 @@ class CrawlSourceService {
       throw new NotFoundException('Crawl source not found');
     }
 
+    this.assertSelectorsConfigured(
+      data.scraperType ?? crawlSource.scraperType,
+      data.cssSelectors ?? crawlSource.cssSelectors
+    );
+
+    const schedule = { ...crawlSource, ...data };
+    this.assertCrawlWindowComplete(
+      schedule.crawlWindowStart,
+      schedule.crawlWindowEnd
+    );
+
+    // Reschedule when the source is reactivated or its schedule changes,
+    // unless the caller sets nextCrawlAt explicitly
+    const isReactivated = data.isActive === true && !crawlSource.isActive;
+    const isScheduleChanged = SCHEDULE_FIELDS.some(
+      (field) => data[field] !== undefined && data[field] !== crawlSource[field]
+    );
+    const nextCrawlAt =
+      data.nextCrawlAt ??
+      (isReactivated || isScheduleChanged
+        ? computeNextCrawlAt(schedule)
+        : undefined);
+
     const updatedCrawlSource = await prisma.crawlSource.update({
       where: { id },
       data: {
         ...data,
+        nextCrawlAt,
         updatedAt: new Date(),
       },
     });
@@ -201,6 +288,7 @@ class CrawlSourceService {
         url: crawlSource.url,
         scraperType: crawlSource.scraperType,
         userId,
+        trigger: 'MANUAL',
       },
       {
         priority: 10, // High priority for manual triggers
@@ -225,12 +313,14 @@ class CrawlSourceService {
       active: number;
       completed: number;
       failed: number;
+      paused: boolean;
     };
     details: {
       waiting: number;
       active: number;
       completed: number;
       failed: number;
+      paused: boolean;
     };
   }> {
     return await crawlQueueService.getQueueStats();
@@ -247,13 +337,14 @@ class CrawlSourceService {
         where: { id },
       });
 
-      if (crawlSource && crawlSource.isActive) {
+      if (crawlSource && crawlSource.isActive && !crawlSource.quarantinedAt) {
         const job = await crawlQueueService.queueListingCrawl(
           {
             crawlSourceId: id,
             url: crawlSource.url,
             scraperType: crawlSource.scraperType,
             userId,
+            trigger: 'BULK',
           },
           {
             priority: 8, // Slightly lower priority for bulk operations
@@ -276,68 +367,99 @@ class CrawlSourceService {
     };
   }
 
-  async scheduleRecurringCrawls(): Promise<{
-    message: string;
-    jobsQueued: number;
-  }> {
-    const crawlSources = await prisma.crawlSource.findMany({
-      where: {
-        isActive: true,
-        nextCrawlAt: {
-          lte: new Date(),
-        },
-      },
+  /**
+   * Runs the listing scrape, and optionally one details scrape, for a URL
+   * and scraper configuration without queueing jobs or writing drafts
+   */
+  async previewCrawlSource(
+    data: PreviewCrawlSourceData
+  ): Promise<CrawlSourcePreviewResponse> {
+    const startedAt = Date.now();
+    const { url, cssSelectors, fetcherType, requestsPerMinute } = data;
+
+    const scraperType =
+      data.scraperType ?? ScraperFactory.getScraperByUrl(url)?.scraperType;
+
+    if (!scraperType) {
+      throw new BadRequestException(
+        'Could not detect a scraper for this URL; specify scraperType'
+      );
+    }
+
+    this.assertSelectorsConfigured(scraperType, cssSelectors);
+
+    const scraper = ScraperFactory.getScraper(scraperType, {
+      cssSelectors,
+      fetcherType,
+      requestsPerMinute,
     });
+    const usage = createLLMUsage();
+    const errors: string[] = [];
 
-    let jobsQueued = 0;
-
-    for (const crawlSource of crawlSources) {
-      await crawlQueueService.queueListingCrawl(
-        {
-          crawlSourceId: crawlSource.id,
-          url: crawlSource.url,
-          scraperType: crawlSource.scraperType,
-        },
-        {
-          priority: 5, // Medium priority for scheduled crawls
-          delay: Math.random() * 30000, // Random delay 0-30s to spread load
-        }
-      );
+    const result = await withLLMUsage(usage, () =>
+      scraper.scrapeOpportunityListing(url)
+    );
+    errors.push(...(result.errors || []));
 
-      // Update next crawl time
-      const nextCrawlAt = this.calculateNextCrawlTime(crawlSource.frequency);
-      await prisma.crawlSource.update({
-        where: { id: crawlSource.id },
-        data: { nextCrawlAt },
-      });
+    const listings = result.opportunity_listings || [];
+    const firstListing = listings.find((listing) => listing.opportunity_id);
+    let detailsUrl: string | null = null;
+    let details: OpportunityDetails | null = null;
 
-      jobsQueued++;
+    if (data.includeDetails && firstListing) {
+      detailsUrl = scraper.constructOpportunityDetailsPage(
+        firstListing.opportunity_id
+      );
+      try {
+        details = await withLLMUsage(usage, () =>
+          scraper.scrapeOpportunityDetails(firstListing.opportunity_id)
+        );
+      } catch (error: any) {
+        errors.push(`Details scrape failed: ${error.message}`);
+      }
     }
 
-    logger.info('Recurring crawls scheduled', {
-      sourcesChecked: crawlSources.length,
-      jobsQueued,
+    logger.info('Crawl source preview completed', {
+      url,
+      scraperType,
+      listingsFound: listings.length,
+      detailsScraped: !!details,
+      errorCount: errors.length,
     });
 
     return {
-      message: `${jobsQueued} recurring crawl jobs queued`,
-      jobsQueued,
+      url,
+      scraperType,
+      autoDetected: !data.scraperType,
+      listingsFound: listings.length,
+      listings,
+      detailsUrl,
+      details,
+      errors,
+      llmTokensUsed: usage.totalTokens,
+      durationMs: Date.now() - startedAt,
     };
   }
 
-  private calculateNextCrawlTime(
-    frequency: 'DAILY' | 'WEEKLY' | 'MONTHLY'
-  ): Date {
-    const now = new Date();
-    switch (frequency) {
-      case 'DAILY':
-        return new Date(now.getTime() + 24 * 60 * 60 * 1000);
-      case 'WEEKLY':
-        return new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-      case 'MONTHLY':
-        return new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-      default:
-        return new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
+  private assertSelectorsConfigured(
+    scraperType: string,
+    cssSelectors: string | null | undefined
+  ): void {
+    if (scraperType === 'GENERIC_SELECTOR' && !cssSelectors) {
+      throw new BadRequestException(
+        'cssSelectors is required for GENERIC_SELECTOR crawl sources'
+      );
+    }
+  }
+
+  private assertCrawlWindowComplete(
+    crawlWindowStart: string | null | undefined,
+    crawlWindowEnd: string | null | undefined
+  ): void {
+    if (!crawlWindowStart !== !crawlWindowEnd) {
+      throw new BadRequestException(
+        'crawlWindowStart and crawlWindowEnd must be set together'
+      );
     }
   }
 }
@@ -0,0 +1,643 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import logger from '../config/logger';
+import { Prisma } from '../generated/prisma/client';
+import {
+  DuplicateClusterResponse,
+  MergeDuplicateClustersData,
+  SplitDuplicateClusterData,
+} from '../schemas/ai-draft';
+import {
+  BadRequestException,
+  NotFoundException,
+} from '../utils/http-exception';
+import {
+  normalizeText,
+  normalizeUrl,
+  textSimilarity,
+} from '../utils/string-similarity';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface DuplicateCandidateInput {
+  title: string;
+  organization: string;
+  deadline: Date;
+  applicationUrl?: string | null;
+}
+
+export interface DuplicateMatch {
+  type: 'draft' | 'opportunity';
+  id: string;
+  clusterId: string | null;
+  score: number;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const DUPLICATE_THRESHOLD = 0.85;
+const SAME_URL_MIN_TITLE_SIMILARITY = 0.5;
+const DEADLINE_WINDOW_DAYS = 7;
+const MAX_CANDIDATES = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SCORE_WEIGHTS = {
+  title: 0.6,
+  organization: 0.25,
+  deadline: 0.15,
+};
+
+const clusterMemberSelect = {
+  id: true,
+  title: true,
+  organization: true,
+  deadline: true,
+  status: true,
+  sourceUrl: true,
+  applicationUrl: true,
+  opportunityId: true,
+  duplicateScore: true,
+  createdAt: true,
+  crawlSource: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+};
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Service
+// ─────────────────────────────────────────────────────────────────────────────
+
+class DeduplicationService {
+  // ───────────────────────────────────────────────────────────────────────────
+  // Fingerprinting & Matching
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Exact-match key for a draft. Two drafts with the same fingerprint are
+   * duplicates regardless of which crawl source they came from.
+   */
+  buildFingerprint(input: DuplicateCandidateInput): string {
+    const parts = [
+      normalizeText(input.title),
+      normalizeText(input.organization),
+      this.toDateKey(input.deadline),
+      normalizeUrl(input.applicationUrl),
+    ];
+
+    return crypto.createHash('sha256').update(parts.join('|')).digest('hex');
+  }
+
+  /**
+   * Scores how likely two records describe the same opportunity (0-1)
+   */
+  scoreSimilarity(
+    a: DuplicateCandidateInput,
+    b: DuplicateCandidateInput
+  ): number {
+    const titleScore = textSimilarity(a.title, b.title);
+    const organizationScore = textSimilarity(a.organization, b.organization);
+    const deadlineScore = this.deadlineSimilarity(a.deadline, b.deadline);
+
+    const weighted =
+      titleScore * SCORE_WEIGHTS.title +
+      organizationScore * SCORE_WEIGHTS.organization +
+      deadlineScore * SCORE_WEIGHTS.deadline;
+
+    // The same application URL is a strong signal as long as the titles
+    // are not completely unrelated (aggregators sometimes reuse a generic URL)
+    const leftUrl = normalizeUrl(a.applicationUrl);
+    const rightUrl = normalizeUrl(b.applicationUrl);
+    if (
+      leftUrl &&
+      leftUrl === rightUrl &&
+      titleScore >= SAME_URL_MIN_TITLE_SIMILARITY
+    ) {
+      return Math.max(weighted, 0.95);
+    }
+
+    return Number(weighted.toFixed(4));
+  }
+
+  /**
+   * Finds the closest existing draft or published opportunity for the input.
+   * Exact fingerprint matches are looked up on their own so they are never
+   * crowded out of the fuzzy candidate window.
+   */
+  async findBestMatch(
+    input: DuplicateCandidateInput,
+    excludeDraftId?: string
+  ): Promise<DuplicateMatch | null> {
+    const fingerprint = this.buildFingerprint(input);
+
+    const [exactDraft, exactOpportunity] = await Promise.all([
+      prisma.aIDraft.findFirst({
+        where: {
+          fingerprint,
+          ...(excludeDraftId && { id: { not: excludeDraftId } }),
+        },
+        select: { id: true, duplicateClusterId: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.opportunity.findFirst({
+        where: { fingerprint },
+        select: { id: true },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    if (exactDraft) {
+      return {
+        type: 'draft',
+        id: exactDraft.id,
+        clusterId: exactDraft.duplicateClusterId,
+        score: 1,
+      };
+    }
+
+    if (exactOpportunity) {
+      return {
+        type: 'opportunity',
+        id: exactOpportunity.id,
+        clusterId: await this.findClusterIdForOpportunity(exactOpportunity.id),
+        score: 1,
+      };
+    }
+
+    const [drafts, opportunities] = await Promise.all([
+      this.findDraftCandidates(input.deadline, excludeDraftId),
+      this.findOpportunityCandidates(input.deadline),
+    ]);
+
+    let best: DuplicateMatch | null = null;
+
+    for (const draft of drafts) {
+      const score = this.scoreSimilarity(input, draft);
+      if (score >= DUPLICATE_THRESHOLD && (!best || score > best.score)) {
+        best = {
+          type: 'draft',
+          id: draft.id,
+          clusterId: draft.duplicateClusterId,
+          score,
+        };
+      }
+    }
+
+    for (const opportunity of opportunities) {
+      const score = this.scoreSimilarity(input, opportunity);
+      if (score >= DUPLICATE_THRESHOLD && (!best || score > best.score)) {
+        best = {
+          type: 'opportunity',
+          id: opportunity.id,
+          clusterId: await this.findClusterIdForOpportunity(opportunity.id),
+          score,
+        };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Links a freshly created draft to the cluster of its closest duplicate,
+   * creating the cluster around the existing record if needed.
+   */
+  async linkDuplicates(
+    draftId: string,
+    input: DuplicateCandidateInput
+  ): Promise<DuplicateMatch | null> {
+    const match = await this.findBestMatch(input, draftId);
+    if (!match) return null;
+
+    const clusterId = match.clusterId ?? (await this.createClusterFor(match));
+
+    await prisma.aIDraft.update({
+      where: { id: draftId },
+      data: { duplicateClusterId: clusterId, duplicateScore: match.score },
+    });
+
+    logger.info('AI draft linked to duplicate cluster', {
+      aiDraftId: draftId,
+      clusterId,
+      matchType: match.type,
+      matchId: match.id,
+      score: match.score,
+    });
+
+    return { ...match, clusterId };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Clusters
+  // ───────────────────────────────────────────────────────────────────────────
+
+  async getCluster(clusterId: string): Promise<DuplicateClusterResponse> {
+    const cluster = await prisma.duplicateCluster.findUnique({
+      where: { id: clusterId },
+      include: {
+        drafts: {
+          select: clusterMemberSelect,
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!cluster) {
+      throw new NotFoundException('Duplicate cluster not found');
+    }
+
+    const canonicalOpportunity = cluster.canonicalOpportunityId
+      ? await prisma.opportunity.findUnique({
+          where: { id: cluster.canonicalOpportunityId },
+          select: {
+            id: true,
+            title: true,
+            organization: true,
+            deadline: true,
+            isActive: true,
+          },
+        })
+      : null;
+
+    return {
+      id: cluster.id,
+      canonicalDraftId: cluster.canonicalDraftId,
+      canonicalOpportunityId: cluster.canonicalOpportunityId,
+      canonicalOpportunity,
+      members: cluster.drafts,
+      createdAt: cluster.createdAt,
+      updatedAt: cluster.updatedAt,
+    };
+  }
+
+  /**
+   * Merges the given drafts (and every cluster they already belong to)
+   * into a single cluster.
+   */
+  async mergeClusters(
+    data: MergeDuplicateClustersData
+  ): Promise<DuplicateClusterResponse> {
+    const { draftIds, canonicalDraftId } = data;
+
+    if (canonicalDraftId && !draftIds.includes(canonicalDraftId)) {
+      throw new BadRequestException(
+        'The canonical draft must be one of the drafts being merged'
+      );
+    }
+
+    const drafts = await prisma.aIDraft.findMany({
+      where: { id: { in: draftIds } },
+      select: { id: true, duplicateClusterId: true, opportunityId: true },
+    });
+
+    if (drafts.length !== new Set(draftIds).size) {
+      throw new NotFoundException('One or more AI drafts not found');
+    }
+
+    const existingClusterIds = Array.from(
+      new Set(
+        drafts
+          .map((draft) => draft.duplicateClusterId)
+          .filter((id): id is string => !!id)
+      )
+    );
+
+    const existingClusters = await prisma.duplicateCluster.findMany({
+      where: { id: { in: existingClusterIds } },
+    });
+
+    const target = existingClusters[0];
+    const canonicalId =
+      canonicalDraftId ?? target?.canonicalDraftId ?? draftIds[0];
+    const canonicalDraft = await prisma.aIDraft.findUnique({
+      where: { id: canonicalId },
+      select: { opportunityId: true },
+    });
+    const canonicalOpportunityId =
+      canonicalDraft?.opportunityId ??
+      existingClusters.find((cluster) => cluster.canonicalOpportunityId)
+        ?.canonicalOpportunityId ??
+      null;
+
+    const clusterId = await prisma.$transaction(async (tx) => {
+      const cluster = target
+        ? await tx.duplicateCluster.update({
+            where: { id: target.id },
+            data: { canonicalDraftId: canonicalId, canonicalOpportunityId },
+          })
+        : await tx.duplicateCluster.create({
+            data: { canonicalDraftId: canonicalId, canonicalOpportunityId },
+          });
+
+      await tx.aIDraft.updateMany({
+        where: {
+          OR: [
+            { id: { in: draftIds } },
+            { duplicateClusterId: { in: existingClusterIds } },
+          ],
+        },
+        data: { duplicateClusterId: cluster.id },
+      });
+
+      const obsoleteClusterIds = existingClusterIds.filter(
+        (id) => id !== cluster.id
+      );
+      if (obsoleteClusterIds.length) {
+        await tx.duplicateCluster.deleteMany({
+          where: { id: { in: obsoleteClusterIds } },
+        });
+      }
+
+      return cluster.id;
+    });
+
+    logger.info('Duplicate clusters merged', {
+      clusterId,
+      mergedClusterIds: existingClusterIds,
+      draftIds,
+    });
+
+    return this.getCluster(clusterId);
+  }
+
+  /**
+   * Moves the given drafts out of a cluster. When two or more drafts are
+   * split off together they form a new cluster of their own.
+   */
+  async splitCluster(
+    clusterId: string,
+    data: SplitDuplicateClusterData
+  ): Promise<{
+    cluster: DuplicateClusterResponse | null;
+    splitCluster: DuplicateClusterResponse | null;
+  }> {
+    const { draftIds } = data;
+
+    const cluster = await prisma.duplicateCluster.findUnique({
+      where: { id: clusterId },
+      include: { drafts: { select: { id: true, opportunityId: true } } },
+    });
+
+    if (!cluster) {
+      throw new NotFoundException('Duplicate cluster not found');
+    }
+
+    const memberIds = cluster.drafts.map((draft) => draft.id);
+    const outsiders = draftIds.filter((id) => !memberIds.includes(id));
+    if (outsiders.length) {
+      throw new BadRequestException(
+        `Drafts are not part of this cluster: ${outsiders.join(', ')}`
+      );
+    }
+
+    const remaining = cluster.drafts.filter(
+      (draft) => !draftIds.includes(draft.id)
+    );
+    const splitDrafts = cluster.drafts.filter((draft) =>
+      draftIds.includes(draft.id)
+    );
+
+    const newClusterId = await prisma.$transaction(async (tx) => {
+      let createdClusterId: string | null = null;
+
+      if (splitDrafts.length >= 2) {
+        const created = await tx.duplicateCluster.create({
+          data: {
+            canonicalDraftId: splitDrafts[0].id,
+            canonicalOpportunityId:
+              splitDrafts.find((draft) => draft.opportunityId)?.opportunityId ??
+              null,
+          },
+        });
+        createdClusterId = created.id;
+      }
+
+      await tx.aIDraft.updateMany({
+        where: { id: { in: draftIds } },
+        data: { duplicateClusterId: createdClusterId, duplicateScore: null },
+      });
+
+      // The canonical record may have left with the split
+      const canonicalLeft =
+        !!cluster.canonicalDraftId &&
+        draftIds.includes(cluster.canonicalDraftId);
+      const opportunityLeft = splitDrafts.some(
+        (draft) =>
+          !!draft.opportunityId &&
+          draft.opportunityId === cluster.canonicalOpportunityId
+      );
+
+      const canonicalDraftId = canonicalLeft
+        ? (remaining[0]?.id ?? null)
+        : cluster.canonicalDraftId;
+      const canonicalOpportunityId = opportunityLeft
+        ? (remaining.find((draft) => draft.opportunityId)?.opportunityId ??
+          null)
+        : cluster.canonicalOpportunityId;
+
+      const memberCount =
+        remaining.length +
+        (canonicalOpportunityId &&
+        !remaining.some(
+          (draft) => draft.opportunityId === canonicalOpportunityId
+        )
+          ? 1
+          : 0);
+
+      if (memberCount < 2) {
+        await tx.aIDraft.updateMany({
+          where: { duplicateClusterId: clusterId },
+          data: { duplicateClusterId: null, duplicateScore: null },
+        });
+        await tx.duplicateCluster.delete({ where: { id: clusterId } });
+      } else {
+        await tx.duplicateCluster.update({
+          where: { id: clusterId },
+          data: { canonicalDraftId, canonicalOpportunityId },
+        });
+      }
+
+      return createdClusterId;
+    });
+
+    logger.info('Duplicate cluster split', {
+      clusterId,
+      draftIds,
+      newClusterId,
+    });
+
+    const stillExists = await prisma.duplicateCluster.findUnique({
+      where: { id: clusterId },
+      select: { id: true },
+    });
+
+    return {
+      cluster: stillExists ? await this.getCluster(clusterId) : null,
+      splitCluster: newClusterId ? await this.getCluster(newClusterId) : null,
+    };
+  }
+
+  /**
+   * Records the opportunity a cluster was published as, so other members
+   * are not published a second time.
+   */
+  async markClusterPublished(
+    clusterId: string,
+    draftId: string,
+    opportunityId: string,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    await db.duplicateCluster.updateMany({
+      where: { id: clusterId, canonicalOpportunityId: null },
+      data: {
+        canonicalDraftId: draftId,
+        canonicalOpportunityId: opportunityId,
+      },
+    });
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Helper Methods
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private async createClusterFor(match: DuplicateMatch): Promise<string> {
+    if (match.type === 'draft') {
+      const draft = await prisma.aIDraft.findUnique({
+        where: { id: match.id },
+        select: { opportunityId: true },
+      });
+
+      const cluster = await prisma.duplicateCluster.create({
+        data: {
+          canonicalDraftId: match.id,
+          canonicalOpportunityId: draft?.opportunityId ?? null,
+        },
+      });
+
+      await prisma.aIDraft.update({
+        where: { id: match.id },
+        data: { duplicateClusterId: cluster.id, duplicateScore: 1 },
+      });
+
+      return cluster.id;
+    }
+
+    const publishedDraft = await prisma.aIDraft.findUnique({
+      where: { opportunityId: match.id },
+      select: { id: true },
+    });
+
+    const cluster = await prisma.duplicateCluster.create({
+      data: {
+        canonicalDraftId: publishedDraft?.id ?? null,
+        canonicalOpportunityId: match.id,
+      },
+    });
+
+    if (publishedDraft) {
+      await prisma.aIDraft.update({
+        where: { id: publishedDraft.id },
+        data: { duplicateClusterId: cluster.id, duplicateScore: 1 },
+      });
+    }
+
+    return cluster.id;
+  }
+
+  private async findClusterIdForOpportunity(
+    opportunityId: string
+  ): Promise<string | null> {
+    const cluster = await prisma.duplicateCluster.findFirst({
+      where: { canonicalOpportunityId: opportunityId },
+      select: { id: true },
+    });
+    if (cluster) return cluster.id;
+
+    const draft = await prisma.aIDraft.findUnique({
+      where: { opportunityId },
+      select: { duplicateClusterId: true },
+    });
+    return draft?.duplicateClusterId ?? null;
+  }
+
+  /**
+   * Drafts with a deadline within the window, closest deadline first
+   */
+  private async findDraftCandidates(
+    deadline: Date,
+    excludeDraftId?: string
+  ): Promise<
+    (DuplicateCandidateInput & {
+      id: string;
+      duplicateClusterId: string | null;
+    })[]
+  > {
+    const { windowStart, windowEnd } = this.deadlineWindow(deadline);
+
+    return prisma.$queryRaw`
+      SELECT
+        id,
+        title,
+        organization,
+        deadline,
+        application_url AS "applicationUrl",
+        duplicate_cluster_id AS "duplicateClusterId"
+      FROM ai_drafts
+      WHERE deadline BETWEEN ${windowStart} AND ${windowEnd}
+        AND id <> ${excludeDraftId ?? ''}
+      ORDER BY ABS(EXTRACT(EPOCH FROM deadline - ${deadline}::timestamp)), created_at
+      LIMIT ${MAX_CANDIDATES}
+    `;
+  }
+
+  /**
+   * Opportunities with a deadline within the window, closest deadline first
+   */
+  private async findOpportunityCandidates(
+    deadline: Date
+  ): Promise<(DuplicateCandidateInput & { id: string })[]> {
+    const { windowStart, windowEnd } = this.deadlineWindow(deadline);
+
+    return prisma.$queryRaw`
+      SELECT
+        id,
+        title,
+        organization,
+        deadline,
+        application_url AS "applicationUrl"
+      FROM opportunities
+      WHERE deadline BETWEEN ${windowStart} AND ${windowEnd}
+      ORDER BY ABS(EXTRACT(EPOCH FROM deadline - ${deadline}::timestamp)), created_at
+      LIMIT ${MAX_CANDIDATES}
+    `;
+  }
+
+  private deadlineWindow(deadline: Date): {
+    windowStart: Date;
+    windowEnd: Date;
+  } {
+    return {
+      windowStart: new Date(deadline.getTime() - DEADLINE_WINDOW_DAYS * DAY_MS),
+      windowEnd: new Date(deadline.getTime() + DEADLINE_WINDOW_DAYS * DAY_MS),
+    };
+  }
+
+  private deadlineSimilarity(a: Date, b: Date): number {
+    const diffDays = Math.abs(a.getTime() - b.getTime()) / DAY_MS;
+    if (diffDays < 1) return 1;
+    return Math.max(0, 1 - diffDays / DEADLINE_WINDOW_DAYS);
+  }
+
+  private toDateKey(date: Date): string {
+    return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+  }
+}
+
+export const deduplicationService = new DeduplicationService();
+export default deduplicationService;
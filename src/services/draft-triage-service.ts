@@ -0,0 +1,534 @@
+import { prisma } from '../config/database';
+import logger from '../config/logger';
+import { TRIAGE_REVIEWER_ID } from '../constant/draft';
+import { aiDraftService } from './ai-draft-service';
+import { extractionQualityService } from './extraction-quality-service';
+import { AIDraft, DraftTriageRule, Prisma } from '../generated/prisma/client';
+import {
+  BadRequestException,
+  NotFoundException,
+} from '../utils/http-exception';
+import { ExtractionQualityReport } from '../schemas/ai-draft';
+import {
+  CreateTriageRuleData,
+  TriageConditionResult,
+  TriageConditions,
+  TriageDecisionListResponse,
+  TriageDecisionQueryParams,
+  TriageDecisionResponse,
+  TriageRuleQueryParams,
+  TriageRuleResponse,
+  UpdateTriageRuleData,
+} from '../schemas/draft-triage';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Draft and source values the rule conditions are checked against
+interface TriageContext {
+  qualityScore: number | null;
+  qualityStatus: string | null;
+  sourceTrustLevel: string;
+  sourceHealth: number | null;
+  daysToDeadline: number;
+  hasApplicationUrl: boolean;
+  text: string;
+}
+
+type TriageDraft = AIDraft & {
+  crawlSource: { trustLevel: string; healthScore: number | null };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class DraftTriageService {
+  // ───────────────────────────────────────────────────────────────────────────
+  // Triage
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Runs the active triage rules against a pending draft and applies the
+   * first one that matches. Rules of the draft's crawl source run before
+   * global ones, each group by priority. Approvals and rejections go through
+   * AIDraftService.reviewAIDraft, so approved drafts are published as if a
+   * moderator had approved them. Every applied rule is recorded as a
+   * decision, including ones whose action failed. Revision drafts are always
+   * left for a moderator, and drafts in a duplicate cluster are never
+   * auto-approved. Returns null when no rule matched.
+   */
+  async triageDraft(draftId: string): Promise<TriageDecisionResponse | null> {
+    const draft = await prisma.aIDraft.findUnique({
+      where: { id: draftId },
+      include: {
+        crawlSource: { select: { trustLevel: true, healthScore: true } },
+      },
+    });
+
+    if (!draft) {
+      throw new NotFoundException('AI draft not found');
+    }
+
+    if (draft.status !== 'PENDING' || draft.revisionForId) return null;
+
+    const rules = await prisma.draftTriageRule.findMany({
+      where: {
+        isActive: true,
+        OR: [{ crawlSourceId: draft.crawlSourceId }, { crawlSourceId: null }],
+      },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    // Stable sort keeps the priority order within each group
+    rules.sort((a, b) => Number(!a.crawlSourceId) - Number(!b.crawlSourceId));
+
+    const context = this.buildContext(draft);
+
+    for (const rule of rules) {
+      // Possible duplicates are left for a moderator to merge or publish
+      if (rule.action === 'AUTO_APPROVE' && draft.duplicateClusterId) continue;
+
+      const evaluation = this.evaluate(
+        rule.conditions as TriageConditions,
+        context
+      );
+      if (evaluation.every((result) => result.passed)) {
+        return this.applyRule(draft, rule, evaluation);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Triages a newly crawled or updated draft. Failures are logged and never
+   * stop the crawl that produced the draft.
+   */
+  async triageCrawledDraft(draftId: string): Promise<void> {
+    try {
+      await this.triageDraft(draftId);
+    } catch (error: any) {
+      logger.error('Failed to triage draft', {
+        draftId,
+        error: error.message,
+      });
+    }
+  }
+
+  private async applyRule(
+    draft: TriageDraft,
+    rule: DraftTriageRule,
+    evaluation: TriageConditionResult[]
+  ): Promise<TriageDecisionResponse> {
+    const reason =
+      rule.action === 'AUTO_REJECT' && rule.rejectionReason
+        ? rule.rejectionReason
+        : `Matched triage rule "${rule.name}"`;
+    let error: string | null = null;
+
+    try {
+      switch (rule.action) {
+        case 'AUTO_APPROVE': {
+          const reviewed = await aiDraftService.reviewAIDraft(
+            draft.id,
+            { status: 'APPROVED' },
+            TRIAGE_REVIEWER_ID
+          );
+          // The approval stands when auto-publishing fails, but the
+          // decision must not read as a successful auto-approval
+          if (reviewed.publishError) {
+            throw new Error(
+              `Approved but not published: ${reviewed.publishError}`
+            );
+          }
+          break;
+        }
+        case 'AUTO_REJECT':
+          await aiDraftService.reviewAIDraft(
+            draft.id,
+            { status: 'REJECTED', rejectionReason: reason },
+            TRIAGE_REVIEWER_ID
+          );
+          break;
+        case 'ROUTE_TO_MODERATOR':
+          await prisma.aIDraft.update({
+            where: { id: draft.id },
+            data: { assignedTo: rule.assigneeId },
+          });
+          break;
+      }
+    } catch (actionError: any) {
+      error = actionError.message;
+      logger.error('Failed to apply triage rule', {
+        draftId: draft.id,
+        ruleId: rule.id,
+        action: rule.action,
+        error,
+      });
+    }
+
+    const decision = await prisma.draftTriageDecision.create({
+      data: {
+        draftId: draft.id,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        action: rule.action,
+        reason,
+        evaluation: evaluation as unknown as Prisma.InputJsonValue,
+        assigneeId:
+          rule.action === 'ROUTE_TO_MODERATOR' ? rule.assigneeId : null,
+        error,
+      },
+    });
+
+    logger.info('Draft triaged', {
+      draftId: draft.id,
+      ruleId: rule.id,
+      action: rule.action,
+      failed: !!error,
+    });
+
+    return decision as unknown as TriageDecisionResponse;
+  }
+
+  private buildContext(draft: TriageDraft): TriageContext {
+    const report = draft.qualityReport as ExtractionQualityReport | null;
+
+    return {
+      qualityScore: report ? extractionQualityService.score(report) : null,
+      qualityStatus: draft.qualityStatus,
+      sourceTrustLevel: draft.crawlSource.trustLevel,
+      sourceHealth: draft.crawlSource.healthScore,
+      daysToDeadline: Math.floor(
+        (draft.deadline.getTime() - Date.now()) / DAY_MS
+      ),
+      // Crawled drafts fall back to the page they were found on
+      hasApplicationUrl:
+        !!draft.applicationUrl && draft.applicationUrl !== draft.sourceUrl,
+      text: [draft.title, draft.organization, draft.description].join('\n'),
+    };
+  }
+
+  private evaluate(
+    conditions: TriageConditions,
+    context: TriageContext
+  ): TriageConditionResult[] {
+    const atLeast = (actual: number | null, expected: number) =>
+      actual !== null && actual >= expected;
+    const atMost = (actual: number | null, expected: number) =>
+      actual !== null && actual <= expected;
+
+    const checks: {
+      [K in keyof Required<TriageConditions>]: (
+        expected: NonNullable<TriageConditions[K]>
+      ) => { actual: unknown; passed: boolean };
+    } = {
+      minQualityScore: (expected) => ({
+        actual: context.qualityScore,
+        passed: atLeast(context.qualityScore, expected),
+      }),
+      maxQualityScore: (expected) => ({
+        actual: context.qualityScore,
+        passed: atMost(context.qualityScore, expected),
+      }),
+      qualityStatuses: (expected) => ({
+        actual: context.qualityStatus,
+        passed: expected.some((status) => status === context.qualityStatus),
+      }),
+      sourceTrustLevels: (expected) => ({
+        actual: context.sourceTrustLevel,
+        passed: expected.some((level) => level === context.sourceTrustLevel),
+      }),
+      minSourceHealth: (expected) => ({
+        actual: context.sourceHealth,
+        passed: atLeast(context.sourceHealth, expected),
+      }),
+      minDaysToDeadline: (expected) => ({
+        actual: context.daysToDeadline,
+        passed: context.daysToDeadline >= expected,
+      }),
+      maxDaysToDeadline: (expected) => ({
+        actual: context.daysToDeadline,
+        passed: context.daysToDeadline <= expected,
+      }),
+      hasApplicationUrl: (expected) => ({
+        actual: context.hasApplicationUrl,
+        passed: context.hasApplicationUrl === expected,
+      }),
+      containsAnyKeyword: (expected) => {
+        const matched = this.matchKeywords(context.text, expected);
+        return { actual: matched, passed: matched.length > 0 };
+      },
+      containsNoKeyword: (expected) => {
+        const matched = this.matchKeywords(context.text, expected);
+        return { actual: matched, passed: matched.length === 0 };
+      },
+    };
+
+    return Object.entries(conditions)
+      .filter(([, expected]) => expected !== undefined)
+      .map(([condition, expected]) => {
+        const check = checks[condition as keyof TriageConditions] as (
+          expected: unknown
+        ) => { actual: unknown; passed: boolean };
+        return {
+          condition: condition as keyof TriageConditions,
+          expected,
+          ...check(expected),
+        };
+      });
+  }
+
+  private matchKeywords(text: string, keywords: string[]): string[] {
+    return keywords.filter((keyword) => {
+      const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      // Whole words only; lookarounds also work for keywords like "C++"
+      return new RegExp(`(?<!\\w)${escaped}(?!\\w)`, 'i').test(text);
+    });
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Rules
+  // ───────────────────────────────────────────────────────────────────────────
+
+  async getRules(
+    filters: TriageRuleQueryParams
+  ): Promise<TriageRuleResponse[]> {
+    const { crawlSourceId, global, isActive } = filters;
+    const where: Prisma.DraftTriageRuleWhereInput = {};
+
+    if (crawlSourceId) {
+      where.crawlSourceId = crawlSourceId;
+    } else if (global !== undefined) {
+      where.crawlSourceId = global ? null : { not: null };
+    }
+
+    if (isActive !== undefined) {
+      where.isActive = isActive;
+    }
+
+    const rules = await prisma.draftTriageRule.findMany({
+      where,
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      include: { crawlSource: { select: { id: true, name: true } } },
+    });
+
+    return rules as TriageRuleResponse[];
+  }
+
+  async createRule(
+    data: CreateTriageRuleData,
+    userId: string
+  ): Promise<TriageRuleResponse> {
+    const rule = this.normaliseRule(data);
+    await this.assertRuleValid(rule);
+
+    const created = await prisma.draftTriageRule.create({
+      data: {
+        ...rule,
+        conditions: rule.conditions as Prisma.InputJsonValue,
+        createdBy: userId,
+      },
+      include: { crawlSource: { select: { id: true, name: true } } },
+    });
+
+    logger.info('Draft triage rule created', {
+      ruleId: created.id,
+      action: created.action,
+      crawlSourceId: created.crawlSourceId,
+    });
+
+    return created as TriageRuleResponse;
+  }
+
+  async updateRule(
+    id: string,
+    data: UpdateTriageRuleData
+  ): Promise<TriageRuleResponse> {
+    const existing = await prisma.draftTriageRule.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundException('Triage rule not found');
+    }
+
+    const rule = this.normaliseRule({
+      ...existing,
+      conditions: existing.conditions as TriageConditions,
+      ...data,
+    });
+    await this.assertRuleValid(rule);
+
+    const updated = await prisma.draftTriageRule.update({
+      where: { id },
+      data: {
+        ...rule,
+        conditions: rule.conditions as Prisma.InputJsonValue,
+      },
+      include: { crawlSource: { select: { id: true, name: true } } },
+    });
+
+    logger.info('Draft triage rule updated', { ruleId: id });
+
+    return updated as TriageRuleResponse;
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    const existing = await prisma.draftTriageRule.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      throw new NotFoundException('Triage rule not found');
+    }
+
+    // Decisions keep the rule name for the audit trail
+    await prisma.draftTriageRule.delete({ where: { id } });
+
+    logger.info('Draft triage rule deleted', { ruleId: id });
+  }
+
+  /**
+   * Clears settings that do not apply to the rule's action, so a rule that
+   * switches from routing to approving does not keep its assignee
+   */
+  private normaliseRule(rule: CreateTriageRuleData) {
+    return {
+      name: rule.name,
+      description: rule.description ?? null,
+      crawlSourceId: rule.crawlSourceId ?? null,
+      priority: rule.priority,
+      isActive: rule.isActive,
+      conditions: rule.conditions,
+      action: rule.action,
+      rejectionReason:
+        rule.action === 'AUTO_REJECT' ? (rule.rejectionReason ?? null) : null,
+      assigneeId:
+        rule.action === 'ROUTE_TO_MODERATOR' ? (rule.assigneeId ?? null) : null,
+    };
+  }
+
+  private async assertRuleValid(
+    rule: ReturnType<DraftTriageService['normaliseRule']>
+  ): Promise<void> {
+    const { conditions } = rule;
+
+    if (rule.action === 'AUTO_REJECT' && !rule.rejectionReason) {
+      throw new BadRequestException(
+        'Rejection reason is required for auto-reject rules'
+      );
+    }
+
+    if (rule.action === 'AUTO_APPROVE' && !Object.keys(conditions).length) {
+      throw new BadRequestException(
+        'Auto-approve rules need at least one condition'
+      );
+    }
+
+    if (
+      conditions.minQualityScore !== undefined &&
+      conditions.maxQualityScore !== undefined &&
+      conditions.minQualityScore > conditions.maxQualityScore
+    ) {
+      throw new BadRequestException(
+        'minQualityScore cannot be greater than maxQualityScore'
+      );
+    }
+
+    if (
+      conditions.minDaysToDeadline !== undefined &&
+      conditions.maxDaysToDeadline !== undefined &&
+      conditions.minDaysToDeadline > conditions.maxDaysToDeadline
+    ) {
+      throw new BadRequestException(
+        'minDaysToDeadline cannot be greater than maxDaysToDeadline'
+      );
+    }
+
+    if (rule.action === 'ROUTE_TO_MODERATOR') {
+      if (!rule.assigneeId) {
+        throw new BadRequestException('Assignee is required for routing rules');
+      }
+
+      const assignee = await prisma.user.findUnique({
+        where: { id: rule.assigneeId },
+        select: { role: true },
+      });
+
+      if (!assignee || !['MODERATOR', 'ADMIN'].includes(assignee.role)) {
+        throw new BadRequestException('Assignee must be a moderator or admin');
+      }
+    }
+
+    if (rule.crawlSourceId) {
+      const crawlSource = await prisma.crawlSource.findUnique({
+        where: { id: rule.crawlSourceId },
+        select: { id: true },
+      });
+
+      if (!crawlSource) {
+        throw new NotFoundException('Crawl source not found');
+      }
+    }
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Audit Trail
+  // ───────────────────────────────────────────────────────────────────────────
+
+  async getDecisions(
+    filters: TriageDecisionQueryParams
+  ): Promise<TriageDecisionListResponse> {
+    const { page, limit, draftId, ruleId, action, failed } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.DraftTriageDecisionWhereInput = {};
+
+    if (draftId) {
+      where.draftId = draftId;
+    }
+
+    if (ruleId) {
+      where.ruleId = ruleId;
+    }
+
+    if (action) {
+      where.action = action;
+    }
+
+    if (failed !== undefined) {
+      where.error = failed ? { not: null } : null;
+    }
+
+    const [decisions, total] = await Promise.all([
+      prisma.draftTriageDecision.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          draft: { select: { id: true, title: true, status: true } },
+        },
+      }),
+      prisma.draftTriageDecision.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      decisions: decisions as unknown as TriageDecisionResponse[],
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+}
+
+export const draftTriageService = new DraftTriageService();
+export default draftTriageService;
@@ -0,0 +1,361 @@
+import { z } from 'zod';
+import retry from 'async-retry';
+import logger from '../config/logger';
+import aiRouter from '../constant/ai';
+import { repairExtractionPrompt } from '../constant/ai-prompts/repair-prompt';
+import cleanLLMJson from '../utils/clean-llm-json';
+import { parseDeadline } from '../utils/parse-deadline';
+import {
+  ExtractionFieldQuality,
+  ExtractionQualityReport,
+} from '../schemas/ai-draft';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Deadlines outside this window are treated as extraction mistakes
+const DEADLINE_MAX_PAST_DAYS = 365;
+const DEADLINE_MAX_FUTURE_YEARS = 5;
+
+// Short values that should appear verbatim in the page they came from
+const GROUNDED_FIELDS = [
+  'title',
+  'organization',
+  'applicationUrl',
+  'contactEmail',
+];
+
+// Issue key for responses that could not be parsed at all
+const RESPONSE_ISSUE = '_response';
+
+const isPlausibleDeadline = (value: string) => {
+  const deadline = parseDeadline(value);
+  if (!deadline || isNaN(deadline.getTime())) return false;
+
+  const earliest = new Date();
+  earliest.setDate(earliest.getDate() - DEADLINE_MAX_PAST_DAYS);
+  const latest = new Date();
+  latest.setFullYear(latest.getFullYear() + DEADLINE_MAX_FUTURE_YEARS);
+
+  return deadline >= earliest && deadline <= latest;
+};
+
+const text = z.string().trim();
+const textList = z.array(text);
+
+// Rules for each extracted opportunity field. Empty values are allowed
+// everywhere but the title and are reported as missing, not invalid.
+const FIELD_SCHEMAS: Record<string, z.ZodType> = {
+  title: text
+    .min(3, 'Title must be at least 3 characters')
+    .max(300, 'Title must be at most 300 characters'),
+  organization: text.max(200, 'Organization must be at most 200 characters'),
+  description: text,
+  requirements: textList,
+  benefits: textList,
+  compensation: text,
+  compensationType: text,
+  locations: textList,
+  isRemote: z.boolean(),
+  deadline: text.refine(
+    isPlausibleDeadline,
+    'Deadline must be a date within the last year or the next 5 years'
+  ),
+  applicationUrl: text.refine((value) => {
+    try {
+      return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+      return false;
+    }
+  }, 'Application URL must be an absolute http(s) URL'),
+  contactEmail: text.email('Contact email must be a valid email address'),
+  experienceLevel: text,
+  duration: text,
+  eligibility: textList,
+};
+
+const REQUIRED_FIELDS = ['title'];
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface AssessOptions {
+  // Page content the values were extracted from, for the verbatim check
+  source?: string;
+  repairAttempts?: number;
+  // Fields that only passed validation after a repair prompt
+  repairedFields?: string[];
+  // Fields whose values were discarded, with the reason
+  discardedFields?: Record<string, string>;
+}
+
+export interface ExtractionRepair {
+  repairAttempts: number;
+  repairedFields: string[];
+  discardedFields: Record<string, string>;
+}
+
+export interface CheckedExtraction<T> {
+  // Extracted values with every invalid field removed
+  data: Partial<T>;
+  quality: ExtractionQualityReport;
+  repair: ExtractionRepair;
+}
+
+export class ExtractionQualityService {
+  // ───────────────────────────────────────────────────────────────────────────
+  // LLM Extraction
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Runs an opportunity details extraction prompt and validates the JSON it
+   * returns. Responses that fail validation are sent back with the errors
+   * for repair, up to MAX_REPAIR_ATTEMPTS times. Fields still invalid after
+   * that are dropped and reported with low confidence. Throws only if the
+   * LLM never returns a JSON object.
+   */
+  async extractDetails<T extends object>(
+    prompt: string,
+    source: string
+  ): Promise<CheckedExtraction<T>> {
+    let response = await this.generate(prompt);
+    const repairedFields = new Set<string>();
+
+    for (let attempt = 0; ; attempt++) {
+      const parsed = this.parseResponse(response);
+      const { values, issues } = parsed.data
+        ? this.validate(parsed.data)
+        : { values: {}, issues: { [RESPONSE_ISSUE]: parsed.error } };
+      const invalidFields = Object.keys(issues);
+
+      if (!invalidFields.length || attempt === MAX_REPAIR_ATTEMPTS) {
+        if (!parsed.data) {
+          throw new Error(
+            `LLM extraction returned no valid JSON after ${attempt} repair attempts: ${parsed.error}`
+          );
+        }
+
+        const repair: ExtractionRepair = {
+          repairAttempts: attempt,
+          repairedFields: [...repairedFields].filter(
+            (field) => field !== RESPONSE_ISSUE && !issues[field]
+          ),
+          discardedFields: issues,
+        };
+
+        return {
+          data: values as Partial<T>,
+          quality: this.assess(values, { source, ...repair }),
+          repair,
+        };
+      }
+
+      invalidFields.forEach((field) => repairedFields.add(field));
+      logger.info('Repairing LLM extraction', {
+        attempt: attempt + 1,
+        issues,
+      });
+
+      response = await this.generate(
+        repairExtractionPrompt(
+          prompt,
+          response,
+          invalidFields.map((field) =>
+            field === RESPONSE_ISSUE
+              ? issues[field]
+              : `${field}: ${issues[field]}`
+          )
+        )
+      );
+    }
+  }
+
+  /**
+   * Validates values that did not come through extractDetails, such as
+   * selector-scraped pages or listing data, and drops the invalid ones
+   */
+  check<T extends object>(values: T): CheckedExtraction<T> {
+    const { values: valid, issues } = this.validate(values);
+    const repair: ExtractionRepair = {
+      repairAttempts: 0,
+      repairedFields: [],
+      discardedFields: issues,
+    };
+
+    return {
+      data: valid as Partial<T>,
+      quality: this.assess(valid, repair),
+      repair,
+    };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Quality Report
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Rates each field of an extraction. Scrapers that combine LLM output
+   * with values parsed from markup call this on the combined details, passing
+   * on the repair outcome of the LLM step.
+   */
+  assess(values: object, options: AssessOptions = {}): ExtractionQualityReport {
+    const record = values as Record<string, unknown>;
+    const { source, repairAttempts = 0 } = options;
+    const repairedFields = new Set(options.repairedFields);
+    const normalisedSource = source ? this.normalise(source) : undefined;
+    const fields: Record<string, ExtractionFieldQuality> = {};
+
+    for (const [field, schema] of Object.entries(FIELD_SCHEMAS)) {
+      const value = record[field];
+      const discarded = options.discardedFields?.[field];
+
+      if (this.isEmpty(value)) {
+        if (discarded) {
+          fields[field] = { confidence: 'low', issue: discarded };
+        } else if (REQUIRED_FIELDS.includes(field)) {
+          fields[field] = { confidence: 'low', issue: `${field} is required` };
+        } else {
+          fields[field] = { confidence: 'missing' };
+        }
+        continue;
+      }
+
+      const result = schema.safeParse(value);
+      if (!result.success) {
+        fields[field] = {
+          confidence: 'low',
+          issue: result.error.issues[0]?.message,
+        };
+      } else if (repairedFields.has(field)) {
+        fields[field] = { confidence: 'medium', repaired: true };
+      } else if (
+        normalisedSource !== undefined &&
+        GROUNDED_FIELDS.includes(field) &&
+        !normalisedSource.includes(this.normalise(String(result.data)))
+      ) {
+        fields[field] = {
+          confidence: 'medium',
+          issue: 'Not found verbatim in the source page',
+        };
+      } else {
+        fields[field] = { confidence: 'high' };
+      }
+    }
+
+    const flaggedFields = Object.entries(fields)
+      .filter(([, { confidence }]) => ['medium', 'low'].includes(confidence))
+      .map(([field]) => field);
+    const invalid = Object.values(fields).some(
+      ({ confidence }) => confidence === 'low'
+    );
+
+    return {
+      status: invalid ? 'INVALID' : repairAttempts > 0 ? 'REPAIRED' : 'VALID',
+      repairAttempts,
+      fields,
+      flaggedFields,
+    };
+  }
+
+  /**
+   * Scores a report from 0 to 100: high confidence fields count fully,
+   * medium ones half and low ones not at all. Missing fields are left out.
+   * Returns null when no field was extracted.
+   */
+  score(report: ExtractionQualityReport): number | null {
+    const weights = { high: 1, medium: 0.5, low: 0 };
+    const rated = Object.values(report.fields).flatMap(({ confidence }) =>
+      confidence === 'missing' ? [] : [weights[confidence]]
+    );
+    if (!rated.length) return null;
+
+    const total = rated.reduce((sum, weight) => sum + weight, 0);
+    return Math.round((total / rated.length) * 100);
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Helper Methods
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Splits values into the ones that pass their field rules (trimmed) and
+   * the validation error of each one that does not. Missing required fields
+   * count as errors; other empty values are left out of both.
+   */
+  private validate(values: object): {
+    values: Record<string, unknown>;
+    issues: Record<string, string>;
+  } {
+    const record = values as Record<string, unknown>;
+    const valid: Record<string, unknown> = {};
+    const issues: Record<string, string> = {};
+
+    for (const [field, schema] of Object.entries(FIELD_SCHEMAS)) {
+      const value = record[field];
+
+      if (this.isEmpty(value)) {
+        if (REQUIRED_FIELDS.includes(field)) {
+          issues[field] = `${field} is required`;
+        }
+        continue;
+      }
+
+      const result = schema.safeParse(value);
+      if (result.success) {
+        valid[field] = result.data;
+      } else {
+        issues[field] = result.error.issues[0]?.message || 'Invalid value';
+      }
+    }
+
+    // Keep fields that have no rules, e.g. opportunityType
+    for (const [field, value] of Object.entries(record)) {
+      if (!(field in FIELD_SCHEMAS)) valid[field] = value;
+    }
+
+    return { values: valid, issues };
+  }
+
+  private parseResponse(response: string):
+    | { data: Record<string, unknown>; error?: undefined }
+    | {
+        data?: undefined;
+        error: string;
+      } {
+    try {
+      const data = cleanLLMJson({ response, requiredFields: [] });
+      if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        return { error: 'Response must be a single JSON object' };
+      }
+      return { data };
+    } catch (error: any) {
+      return { error: `Response is not valid JSON: ${error.message}` };
+    }
+  }
+
+  private generate(prompt: string): Promise<string> {
+    return retry(() => aiRouter.generate({ prompt }), {
+      retries: 3,
+      minTimeout: 1000,
+      maxTimeout: 5000,
+    });
+  }
+
+  private isEmpty(value: unknown): boolean {
+    if (value === null || value === undefined) return true;
+    if (typeof value === 'string') return !value.trim();
+    if (Array.isArray(value)) return value.length === 0;
+    return false;
+  }
+
+  private normalise(value: string): string {
+    return value.toLowerCase().replace(/\s+/g, ' ').trim();
+  }
+}
+
+export const extractionQualityService = new ExtractionQualityService();
+export default extractionQualityService;
@@ -0,0 +1,20 @@
+export type FetcherType = 'SCRAPER_DO' | 'HTTP' | 'FIXTURE';
+
+export interface FetchResponse {
+  data: string | null;
+  error: string | null;
+  // HTTP status of a failed response, when known
+  status?: number;
+  // Delay requested by the server through Retry-After
+  retryAfterMs?: number;
+}
+
+export interface Fetcher {
+  fetcherType: FetcherType;
+
+  /**
+   * Fetches the raw response body for a URL. Failures are reported through
+   * `error` rather than thrown so scrapers can decide how to surface them.
+   */
+  fetch(url: string): Promise<FetchResponse>;
+}
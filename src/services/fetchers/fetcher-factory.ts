@@ -0,0 +1,43 @@
+import { Fetcher, FetcherType } from './base-fetcher';
+import { scraperDo } from '../scraper-do-service';
+import { httpFetcher } from './http-fetcher';
+import { fixtureFetcher } from './fixture-fetcher';
+import { RateLimitedFetcher } from './rate-limited-fetcher';
+
+export interface FetcherOptions {
+  // Per crawl source override of the host rate limit
+  requestsPerMinute?: number | null;
+}
+
+export class FetcherFactory {
+  private static fetchers: Map<FetcherType, Fetcher> = new Map();
+
+  static {
+    this.fetchers.set('SCRAPER_DO', scraperDo);
+    this.fetchers.set('HTTP', httpFetcher);
+    this.fetchers.set('FIXTURE', fixtureFetcher);
+  }
+
+  /**
+   * Get fetcher instance by type, defaulting to scrape.do. Fetchers that
+   * reach the network are rate limited per host.
+   */
+  static getFetcher(
+    type: FetcherType = 'SCRAPER_DO',
+    options: FetcherOptions = {}
+  ): Fetcher {
+    const fetcher = this.fetchers.get(type);
+    if (!fetcher) {
+      throw new Error(`Fetcher not found for type: ${type}`);
+    }
+    if (type === 'FIXTURE') return fetcher;
+    return new RateLimitedFetcher(fetcher, options.requestsPerMinute);
+  }
+
+  /**
+   * Get available fetcher types
+   */
+  static getAvailableTypes(): FetcherType[] {
+    return Array.from(this.fetchers.keys());
+  }
+}
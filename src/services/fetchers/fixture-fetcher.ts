@@ -0,0 +1,70 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import logger from '../../config/logger';
+import { config } from '../../config/envars';
+import { Fetcher, FetchResponse } from './base-fetcher';
+import { httpFetcher } from './http-fetcher';
+
+const DEFAULT_FIXTURES_DIR = 'fixtures/http';
+
+/**
+ * Replays recorded responses from disk so crawls can run offline and in
+ * tests. Each URL maps to `<dir>/<host>/<slug>-<hash>.txt`. With
+ * FETCH_FIXTURES_RECORD=true, misses are fetched over HTTP and recorded.
+ */
+export class FixtureFetcher implements Fetcher {
+  fetcherType = 'FIXTURE' as const;
+
+  constructor(
+    private readonly fixturesDir = config.FETCH_FIXTURES_DIR ||
+      DEFAULT_FIXTURES_DIR,
+    private readonly record = config.FETCH_FIXTURES_RECORD === 'true',
+    private readonly upstream: Fetcher = httpFetcher
+  ) {}
+
+  getFixturePath(url: string): string {
+    const target = new URL(url);
+    const slug =
+      (target.pathname + target.search)
+        .replace(/[^a-zA-Z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 80) || 'index';
+    const hash = crypto
+      .createHash('sha1')
+      .update(url)
+      .digest('hex')
+      .slice(0, 10);
+
+    return path.resolve(this.fixturesDir, target.host, `${slug}-${hash}.txt`);
+  }
+
+  async fetch(url: string): Promise<FetchResponse> {
+    let fixturePath: string;
+    try {
+      fixturePath = this.getFixturePath(url);
+    } catch {
+      return { data: null, error: `Invalid URL: ${url}` };
+    }
+
+    try {
+      return { data: await fs.readFile(fixturePath, 'utf8'), error: null };
+    } catch {
+      if (!this.record) {
+        return { data: null, error: `No fixture recorded for ${url}` };
+      }
+    }
+
+    const response = await this.upstream.fetch(url);
+    if (response.data) {
+      await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+      await fs.writeFile(fixturePath, response.data, 'utf8');
+      logger.info('Recorded fetch fixture', { url, fixturePath });
+    }
+
+    return response;
+  }
+}
+
+export const fixtureFetcher = new FixtureFetcher();
+export default fixtureFetcher;
@@ -0,0 +1,146 @@
+import axios from 'axios';
+import retry from 'async-retry';
+import logger from '../../config/logger';
+import { config } from '../../config/envars';
+import { Fetcher, FetchResponse } from './base-fetcher';
+import {
+  ALLOW_ALL,
+  RobotsPolicy,
+  parseRobotsTxt,
+} from '../../utils/robots-txt';
+import { parseRetryAfter } from '../../utils/retry-after';
+
+const DEFAULT_USER_AGENT =
+  'AmbitfulBot/1.0 (+https://ambitful.ai; opportunity aggregator)';
+const REQUEST_TIMEOUT_MS = 20000;
+const MIN_DOMAIN_INTERVAL_MS = 2000;
+const MAX_CRAWL_DELAY_MS = 30000;
+const ROBOTS_TTL_MS = 6 * 60 * 60 * 1000;
+
+interface CachedRobots {
+  policy: RobotsPolicy;
+  expiresAt: number;
+}
+
+/**
+ * Fetches pages directly over HTTP. Honours robots.txt (including
+ * Crawl-delay) and spaces out requests to the same host so we stay polite
+ * without a paid proxy.
+ */
+export class HttpFetcher implements Fetcher {
+  fetcherType = 'HTTP' as const;
+
+  private robots = new Map<string, CachedRobots>();
+  private nextSlotByHost = new Map<string, number>();
+
+  private get userAgent(): string {
+    return config.HTTP_FETCHER_USER_AGENT || DEFAULT_USER_AGENT;
+  }
+
+  async fetch(url: string): Promise<FetchResponse> {
+    try {
+      const target = new URL(url);
+      const policy = await this.getRobotsPolicy(target);
+
+      if (!policy.isAllowed(target.pathname + target.search)) {
+        return { data: null, error: `Blocked by robots.txt: ${url}` };
+      }
+
+      await this.waitForSlot(target.host, policy.crawlDelayMs);
+
+      const body = await retry(
+        async (bail) => {
+          try {
+            return await this.get(url);
+          } catch (error: any) {
+            // Client errors are final; throttling is left to the caller
+            const status = error?.response?.status;
+            if (status && (status < 500 || status === 503)) bail(error);
+            throw error;
+          }
+        },
+        { retries: 2, minTimeout: 1000, maxTimeout: 5000 }
+      );
+
+      return { data: body, error: null };
+    } catch (error: any) {
+      logger.warn('HTTP fetch failed', { url, error: error.message });
+      return {
+        data: null,
+        error: error.message,
+        status: error?.response?.status,
+        retryAfterMs: parseRetryAfter(
+          error?.response?.headers?.['retry-after']
+        ),
+      };
+    }
+  }
+
+  private async get(url: string): Promise<string> {
+    const response = await axios.get(url, {
+      timeout: REQUEST_TIMEOUT_MS,
+      responseType: 'text',
+      maxRedirects: 5,
+      headers: {
+        'User-Agent': this.userAgent,
+        Accept: 'text/html,application/xhtml+xml,application/xml,*/*;q=0.8',
+      },
+    });
+
+    if (!response.data) throw new Error(`Empty response from ${url}`);
+    return typeof response.data === 'string'
+      ? response.data
+      : JSON.stringify(response.data);
+  }
+
+  private async getRobotsPolicy(target: URL): Promise<RobotsPolicy> {
+    const cached = this.robots.get(target.origin);
+    if (cached && cached.expiresAt > Date.now()) return cached.policy;
+
+    let policy = ALLOW_ALL;
+    try {
+      const response = await axios.get(`${target.origin}/robots.txt`, {
+        timeout: REQUEST_TIMEOUT_MS,
+        responseType: 'text',
+        headers: { 'User-Agent': this.userAgent },
+        validateStatus: (status) => status < 500,
+      });
+
+      // A missing robots.txt (4xx) means everything is allowed
+      if (response.status < 400 && typeof response.data === 'string') {
+        policy = parseRobotsTxt(response.data, this.userAgent);
+      }
+    } catch (error: any) {
+      logger.warn('robots.txt unavailable, assuming allowed', {
+        origin: target.origin,
+        error: error.message,
+      });
+    }
+
+    this.robots.set(target.origin, {
+      policy,
+      expiresAt: Date.now() + ROBOTS_TTL_MS,
+    });
+    return policy;
+  }
+
+  /**
+   * Reserves the next request slot for a host and waits until it opens
+   */
+  private async waitForSlot(host: string, crawlDelayMs?: number) {
+    const interval = Math.min(
+      Math.max(crawlDelayMs || 0, MIN_DOMAIN_INTERVAL_MS),
+      MAX_CRAWL_DELAY_MS
+    );
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlotByHost.get(host) || 0);
+    this.nextSlotByHost.set(host, slot + interval);
+
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  }
+}
+
+export const httpFetcher = new HttpFetcher();
+export default httpFetcher;
@@ -0,0 +1,61 @@
+import logger from '../../config/logger';
+import { Fetcher, FetchResponse } from './base-fetcher';
+import { hostRateLimiter } from '../host-rate-limiter';
+
+const THROTTLED_STATUSES = new Set([429, 503]);
+const MAX_THROTTLED_RETRIES = 3;
+
+/**
+ * Wraps a network fetcher with the shared per-host token bucket. Requests
+ * wait for capacity instead of failing, and 429/503 responses put the host
+ * into backoff before the request is retried.
+ */
+export class RateLimitedFetcher implements Fetcher {
+  fetcherType: Fetcher['fetcherType'];
+
+  constructor(
+    private readonly inner: Fetcher,
+    private readonly requestsPerMinute?: number | null
+  ) {
+    this.fetcherType = inner.fetcherType;
+  }
+
+  async fetch(url: string): Promise<FetchResponse> {
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      return { data: null, error: `Invalid URL: ${url}` };
+    }
+
+    const limit = hostRateLimiter.resolveLimit(host, this.requestsPerMinute);
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await hostRateLimiter.acquire(host, limit);
+        const response = await this.inner.fetch(url);
+
+        if (!response.status || !THROTTLED_STATUSES.has(response.status)) {
+          if (response.data) await hostRateLimiter.resetBackoff(host);
+          return response;
+        }
+
+        if (attempt >= MAX_THROTTLED_RETRIES) return response;
+
+        const delayMs = await hostRateLimiter.backoff(
+          host,
+          response.retryAfterMs
+        );
+        logger.info('Request throttled, retrying after backoff', {
+          url,
+          status: response.status,
+          delayMs,
+          attempt: attempt + 1,
+        });
+      }
+    } catch (error: any) {
+      logger.warn('Rate limited fetch failed', { url, error: error.message });
+      return { data: null, error: error.message };
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import redis from '../config/redis';
+import logger from '../config/logger';
+import { config } from '../config/envars';
+
+export interface HostRateLimit {
+  requestsPerMinute: number;
+  burst: number;
+}
+
+const DEFAULT_REQUESTS_PER_MINUTE = 30;
+const MAX_WAIT_MS = 10 * 60 * 1000;
+const MIN_BACKOFF_MS = 1000;
+const BASE_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const BACKOFF_LEVEL_TTL_SECONDS = 60 * 60;
+
+// Refills the bucket for the time elapsed since the last call, then takes a
+// token if one is available. Returns 0 on success, otherwise the number of
+// milliseconds until a token will be available.
+const TAKE_TOKEN_SCRIPT = `
+local tokensPerMs = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call("HMGET", KEYS[1], "tokens", "ts")
+local tokens = tonumber(bucket[1]) or capacity
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * tokensPerMs)
+local wait = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+else
+  wait = math.ceil((1 - tokens) / tokensPerMs)
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "ts", tostring(now))
+redis.call("PEXPIRE", KEYS[1], math.ceil(capacity / tokensPerMs) + 60000)
+return wait
+`;
+
+const normalizeHost = (host: string) =>
+  host.toLowerCase().replace(/^www\./, '');
+
+const toRateLimit = (
+  requestsPerMinute: number,
+  burst?: number
+): HostRateLimit => ({
+  requestsPerMinute,
+  burst: burst || Math.max(1, Math.round(requestsPerMinute / 10)),
+});
+
+/**
+ * Parses CRAWL_DOMAIN_RATE_LIMITS, a comma separated list of
+ * `domain=requestsPerMinute[:burst]` entries, e.g.
+ * "linkedin.com=10,indeed.com=20:4". A domain also covers its subdomains.
+ */
+export const parseDomainRateLimits = (
+  value: string | undefined
+): Map<string, HostRateLimit> => {
+  const limits = new Map<string, HostRateLimit>();
+
+  for (const entry of (value || '').split(',')) {
+    const match = entry.trim().match(/^([^=\s]+)=(\d+)(?::(\d+))?$/);
+    if (!match) continue;
+
+    const requestsPerMinute = Number(match[2]);
+    if (requestsPerMinute < 1) continue;
+
+    limits.set(
+      normalizeHost(match[1]),
+      toRateLimit(requestsPerMinute, Number(match[3]) || undefined)
+    );
+  }
+
+  return limits;
+};
+
+/**
+ * Redis-backed token bucket per host, shared by every crawl worker. Hosts
+ * that answer 429/503 are put into a backoff window that all workers honour
+ * before taking new tokens.
+ */
+export class HostRateLimiter {
+  private domainLimits = parseDomainRateLimits(config.CRAWL_DOMAIN_RATE_LIMITS);
+
+  private get defaultLimit(): HostRateLimit {
+    return toRateLimit(
+      Number(config.CRAWL_DEFAULT_REQUESTS_PER_MINUTE) ||
+        DEFAULT_REQUESTS_PER_MINUTE
+    );
+  }
+
+  /**
+   * Resolves the limit for a host: a crawl source override first, then the
+   * most specific configured domain, then the default
+   */
+  resolveLimit(host: string, requestsPerMinute?: number | null): HostRateLimit {
+    if (requestsPerMinute) return toRateLimit(requestsPerMinute);
+
+    const labels = normalizeHost(host).split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+      const limit = this.domainLimits.get(labels.slice(i).join('.'));
+      if (limit) return limit;
+    }
+
+    return this.defaultLimit;
+  }
+
+  /**
+   * Waits until a request to `host` is allowed. Throws if capacity does not
+   * free up within MAX_WAIT_MS so the job can be retried later.
+   */
+  async acquire(host: string, limit: HostRateLimit): Promise<void> {
+    const deadline = Date.now() + MAX_WAIT_MS;
+    const key = normalizeHost(host);
+
+    for (;;) {
+      const backoffMs = await redis.pttl(this.backoffKey(key));
+      const waitMs =
+        backoffMs > 0 ? backoffMs : await this.takeToken(key, limit);
+
+      if (waitMs <= 0) return;
+
+      if (Date.now() + waitMs > deadline) {
+        throw new Error(`Timed out waiting for rate limit capacity on ${key}`);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  /**
+   * Puts a host into backoff after it rejected a request. Uses the server's
+   * Retry-After when given, otherwise backs off exponentially.
+   */
+  async backoff(host: string, retryAfterMs?: number): Promise<number> {
+    const key = normalizeHost(host);
+    const level = await redis.incr(this.backoffLevelKey(key));
+    await redis.expire(this.backoffLevelKey(key), BACKOFF_LEVEL_TTL_SECONDS);
+
+    const delayMs = Math.min(
+      Math.max(
+        retryAfterMs ?? BASE_BACKOFF_MS * 2 ** (level - 1),
+        MIN_BACKOFF_MS
+      ),
+      MAX_BACKOFF_MS
+    );
+    await redis.set(this.backoffKey(key), String(level), 'PX', delayMs);
+
+    logger.warn('Backing off rate limited host', {
+      host: key,
+      delayMs,
+      level,
+    });
+    return delayMs;
+  }
+
+  async resetBackoff(host: string): Promise<void> {
+    await redis.del(this.backoffLevelKey(normalizeHost(host)));
+  }
+
+  private async takeToken(key: string, limit: HostRateLimit): Promise<number> {
+    const tokensPerMs = limit.requestsPerMinute / 60000;
+    const waitMs = await redis.eval(
+      TAKE_TOKEN_SCRIPT,
+      1,
+      `crawl_rate:${key}`,
+      tokensPerMs,
+      limit.burst,
+      Date.now()
+    );
+    return Number(waitMs);
+  }
+
+  private backoffKey(host: string): string {
+    return `crawl_backoff:${host}`;
+  }
+
+  private backoffLevelKey(host: string): string {
+    return `crawl_backoff_level:${host}`;
+  }
+}
+
+export const hostRateLimiter = new HostRateLimiter();
+export default hostRateLimiter;
@@ -0,0 +1,441 @@
+import { prisma } from '../config/database';
+import logger from '../config/logger';
+import {
+  PLACES,
+  Place,
+  SUBDIVISIONS,
+  WORLD_PLACE_ID,
+} from '../constant/gazetteer';
+import { BadRequestException } from '../utils/http-exception';
+import { Opportunity } from '../generated/prisma/client';
+import { NormalizationSummary } from '../schemas/opportunity';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Radius search default, in km
+export const DEFAULT_RADIUS_KM = 50;
+
+const EARTH_RADIUS_KM = 6371;
+
+const NORMALIZE_BATCH_SIZE = 500;
+
+// Separate alternative locations, as in "Lagos / Abuja"; so do CONJUNCTIONS
+const ALTERNATIVE_SEPARATORS = /[;|/]/;
+const CONJUNCTIONS = ['and', 'or'];
+
+// Separate the parts of one location, as in "Lagos, Nigeria" or
+// "Hybrid - Nairobi (Kenya)"
+const PART_SEPARATORS = /[,()[\]]|\s[-–—]\s/;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface PlaceAssignment {
+  placeIds: string[];
+  placeAncestorIds: string[];
+}
+
+/**
+ * Locations someone is looking for, e.g. filter values or a user's
+ * preferred locations
+ */
+export interface LocationQuery {
+  placeIds: string[];
+  // Places containing placeIds; opportunities open to them are open to
+  // the places asked for
+  ancestorIds: string[];
+  // Values naming no known place, matched as written ("Remote")
+  unresolved: string[];
+}
+
+type LocatedOpportunity = Pick<
+  Opportunity,
+  'locations' | 'placeIds' | 'placeAncestorIds'
+>;
+
+export class LocationService {
+  private readonly places = new Map<string, Place>();
+  // Normalised names and aliases → candidate place ids, most likely first
+  private readonly byName = new Map<string, string[]>();
+  // Country and state codes, only matched as a whole part of a location
+  private readonly byCode = new Map<string, string[]>();
+  private readonly ancestors = new Map<string, string[]>();
+  private readonly maxNameWords: number;
+
+  constructor() {
+    for (const place of PLACES) {
+      this.places.set(place.id, place);
+      for (const name of [place.name, ...place.aliases]) {
+        this.index(this.byName, name, place.id);
+      }
+      if (place.kind === 'country') {
+        this.index(this.byCode, place.id.slice('country:'.length), place.id);
+      }
+    }
+
+    for (const [code, subdivision] of Object.entries(SUBDIVISIONS)) {
+      for (const name of subdivision.names) {
+        this.index(this.byName, name, `country:${code}`);
+      }
+      for (const stateCode of subdivision.codes) {
+        this.index(this.byCode, stateCode, `country:${code}`);
+      }
+    }
+
+    this.maxNameWords = Math.max(
+      ...[...this.byName.keys()].map((name) => name.split(' ').length)
+    );
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Resolution
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Places a free-text location names, most specific only: "Lagos,
+   * Nigeria" is Lagos, while "Lagos or Accra, Ghana" is both cities.
+   * Ambiguous names go to the place the rest of the location agrees with,
+   * so "Atlanta, Georgia" is in the United States. Empty for text without
+   * a known place, such as "Remote".
+   */
+  resolve(location: string): string[] {
+    const groups = this.findMentions(location);
+    const mentions = groups.flat();
+    const resolved = new Set<string>();
+
+    for (const group of groups) {
+      const picked = [
+        ...new Set(
+          group.map((candidates) =>
+            this.pickCandidate(
+              candidates,
+              mentions.filter((mention) => mention !== candidates)
+            )
+          )
+        ),
+      ];
+
+      picked
+        .filter(
+          (id) =>
+            !picked.some(
+              (other) => other !== id && this.getAncestorIds(other).includes(id)
+            )
+        )
+        .forEach((id) => resolved.add(id));
+    }
+
+    return [...resolved];
+  }
+
+  /**
+   * Places to store with an opportunity's locations
+   */
+  assignPlaces(locations: string[]): PlaceAssignment {
+    const placeIds = [
+      ...new Set(locations.flatMap((location) => this.resolve(location))),
+    ];
+    const placeAncestorIds = [
+      ...new Set(placeIds.flatMap((id) => this.getAncestorIds(id))),
+    ];
+
+    return { placeIds, placeAncestorIds };
+  }
+
+  /**
+   * Every place containing a place, nearest first
+   */
+  getAncestorIds(id: string): string[] {
+    const cached = this.ancestors.get(id);
+    if (cached) return cached;
+
+    const ancestors: string[] = [];
+    const queue = [...(this.places.get(id)?.parentIds ?? [])];
+    while (queue.length) {
+      const parentId = queue.shift()!;
+      if (ancestors.includes(parentId)) continue;
+      ancestors.push(parentId);
+      queue.push(...(this.places.get(parentId)?.parentIds ?? []));
+    }
+
+    this.ancestors.set(id, ancestors);
+    return ancestors;
+  }
+
+  getPlace(id: string): Place | undefined {
+    return this.places.get(id);
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Matching
+  // ───────────────────────────────────────────────────────────────────────────
+
+  buildQuery(values: string[]): LocationQuery {
+    const placeIds = new Set<string>();
+    const unresolved: string[] = [];
+
+    for (const value of values) {
+      const ids = this.resolve(value);
+      if (!ids.length) unresolved.push(value);
+      ids.forEach((id) => placeIds.add(id));
+    }
+
+    const ancestorIds = new Set(
+      [...placeIds].flatMap((id) => this.getAncestorIds(id))
+    );
+
+    return {
+      placeIds: [...placeIds],
+      ancestorIds: [...ancestorIds].filter((id) => !placeIds.has(id)),
+      unresolved,
+    };
+  }
+
+  /**
+   * Where clause for opportunities matching the query: located in one of
+   * its places or somewhere inside one, open to a place containing one,
+   * or listing one of its unresolved values as written
+   */
+  buildWhere(query: LocationQuery) {
+    const conditions: any[] = [];
+
+    if (query.placeIds.length) {
+      conditions.push(
+        { placeIds: { hasSome: [...query.placeIds, ...query.ancestorIds] } },
+        { placeAncestorIds: { hasSome: query.placeIds } }
+      );
+    }
+
+    if (query.unresolved.length) {
+      conditions.push({ locations: { hasSome: query.unresolved } });
+    }
+
+    return { OR: conditions };
+  }
+
+  /**
+   * buildWhere for an opportunity already loaded
+   */
+  matches(opportunity: LocatedOpportunity, query: LocationQuery): boolean {
+    return (
+      opportunity.placeIds.some(
+        (id) => query.placeIds.includes(id) || query.ancestorIds.includes(id)
+      ) ||
+      opportunity.placeAncestorIds.some((id) => query.placeIds.includes(id)) ||
+      opportunity.locations.some((location) =>
+        query.unresolved.includes(location)
+      )
+    );
+  }
+
+  /**
+   * Gazetteer cities within radiusKm of the city `near` names
+   */
+  findCitiesWithin(near: string, radiusKm: number): string[] {
+    const origin = this.resolve(near)
+      .map((id) => this.places.get(id)!)
+      .find((place) => place.lat !== undefined);
+
+    if (!origin) {
+      throw new BadRequestException(
+        `"${near}" is not a city with known coordinates`
+      );
+    }
+
+    return PLACES.filter(
+      (place) =>
+        place.lat !== undefined && this.distanceKm(origin, place) <= radiusKm
+    ).map((place) => place.id);
+  }
+
+  /**
+   * Names of the places locations resolve to and of the places containing
+   * them, for text matched by meaning rather than by place id
+   */
+  describe(locations: string[]): string {
+    const { placeIds, placeAncestorIds } = this.assignPlaces(locations);
+
+    return [...placeIds, ...placeAncestorIds]
+      .filter((id) => id !== WORLD_PLACE_ID)
+      .map((id) => this.places.get(id)!.name)
+      .join(', ');
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Maintenance
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Re-resolves the places of every opportunity, for rows created before
+   * places were stored or after the gazetteer changed
+   */
+  async normalizeOpportunityLocations(): Promise<NormalizationSummary> {
+    let processed = 0;
+    let updated = 0;
+    let lastId: string | undefined;
+
+    for (;;) {
+      const batch = await prisma.opportunity.findMany({
+        where: lastId ? { id: { gt: lastId } } : {},
+        select: {
+          id: true,
+          locations: true,
+          placeIds: true,
+          placeAncestorIds: true,
+        },
+        orderBy: { id: 'asc' },
+        take: NORMALIZE_BATCH_SIZE,
+      });
+      if (!batch.length) break;
+
+      for (const opportunity of batch) {
+        const assignment = this.assignPlaces(opportunity.locations);
+        if (
+          this.sameIds(assignment.placeIds, opportunity.placeIds) &&
+          this.sameIds(
+            assignment.placeAncestorIds,
+            opportunity.placeAncestorIds
+          )
+        ) {
+          continue;
+        }
+
+        await prisma.opportunity.update({
+          where: { id: opportunity.id },
+          data: assignment,
+        });
+        updated++;
+      }
+
+      processed += batch.length;
+      lastId = batch[batch.length - 1].id;
+    }
+
+    logger.info('Opportunity locations normalized', { processed, updated });
+
+    return { processed, updated };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Helper Methods
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Candidate place ids of each place named in a location, grouped by
+   * alternative: "Accra, Ghana or Lagos, Nigeria" has two groups
+   */
+  private findMentions(location: string): string[][][] {
+    const groups: string[][][] = [];
+
+    for (const alternative of location.split(ALTERNATIVE_SEPARATORS)) {
+      let group: string[][] = [];
+      groups.push(group);
+
+      for (const part of alternative.split(PART_SEPARATORS)) {
+        const text = this.normalize(part);
+        if (!text) continue;
+
+        const coded = this.byCode.get(text);
+        if (coded) {
+          group.push(coded);
+          continue;
+        }
+
+        // Longest known name at each word, so "South Africa" is not
+        // "Africa" and "Trinidad and Tobago" is one country
+        const words = text.split(' ');
+        for (let i = 0; i < words.length; ) {
+          let length = Math.min(this.maxNameWords, words.length - i);
+          for (; length > 0; length--) {
+            const ids = this.byName.get(words.slice(i, i + length).join(' '));
+            if (ids) {
+              group.push(ids);
+              break;
+            }
+          }
+
+          if (!length && CONJUNCTIONS.includes(words[i]) && group.length) {
+            group = [];
+            groups.push(group);
+          }
+          i += Math.max(length, 1);
+        }
+      }
+    }
+
+    return groups;
+  }
+
+  private index(map: Map<string, string[]>, name: string, id: string) {
+    const key = this.normalize(name);
+    const ids = map.get(key) ?? [];
+    if (!ids.includes(id)) ids.push(id);
+    map.set(key, ids);
+  }
+
+  /**
+   * The candidate related to the most other mentions of the location, the
+   * first one on a tie
+   */
+  private pickCandidate(candidates: string[], others: string[][]): string {
+    let best = candidates[0];
+    let bestScore = 0;
+    if (candidates.length === 1) return best;
+
+    for (const id of candidates) {
+      const score = others.filter((mention) =>
+        mention.some((other) => this.isRelated(id, other))
+      ).length;
+      if (score > bestScore) {
+        best = id;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  private isRelated(a: string, b: string): boolean {
+    return (
+      a === b ||
+      this.getAncestorIds(a).includes(b) ||
+      this.getAncestorIds(b).includes(a)
+    );
+  }
+
+  // Lowercase words without accents or punctuation: "Côte d'Ivoire" →
+  // "cote divoire"
+  private normalize(text: string): string {
+    return text
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      .replace(/['’]/g, '')
+      .replace(/[&+]/g, ' and ')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
+  private distanceKm(from: Place, to: Place): number {
+    const radians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = radians(to.lat! - from.lat!);
+    const dLon = radians(to.lon! - from.lon!);
+    const a =
+      Math.sin(dLat / 2) ** 2 +
+      Math.cos(radians(from.lat!)) *
+        Math.cos(radians(to.lat!)) *
+        Math.sin(dLon / 2) ** 2;
+
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+  }
+
+  private sameIds(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((id) => b.includes(id));
+  }
+}
+
+export const locationService = new LocationService();
+export default locationService;
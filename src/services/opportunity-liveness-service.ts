@@ -0,0 +1,472 @@
+import Bull from 'bull';
+import redis from '../config/redis';
+import logger from '../config/logger';
+import { config } from '../config/envars';
+import { prisma } from '../config/database';
+import aiRouter from '../constant/ai';
+import { classifyOpportunityLivenessPrompt } from '../constant/ai-prompts/liveness-prompt';
+import { FetcherFactory } from './fetchers/fetcher-factory';
+import { convertHtmlToMarkdown } from '../utils/html-to-md';
+import cleanLLMJson from '../utils/clean-llm-json';
+import { acquireLock, releaseLock } from '../utils/redis-lock';
+import {
+  NotFoundException,
+  BadRequestException,
+} from '../utils/http-exception';
+import { Opportunity } from '../generated/prisma/client';
+import { LivenessDetectionMethod } from '../generated/prisma/enums';
+import {
+  LivenessCheckSummary,
+  LivenessReportListResponse,
+  LivenessReportQueryParams,
+  LivenessReportResponse,
+  ReviewLivenessReportData,
+} from '../schemas/opportunity';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+type LivenessVerdict =
+  | { state: 'live' }
+  | { state: 'unreachable'; error: string }
+  | {
+      state: 'closed';
+      method: LivenessDetectionMethod;
+      reason: string;
+      httpStatus?: number;
+      evidence?: string;
+    };
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+const CHECK_JOB = 'check-liveness';
+const CHECK_CRON = '0 * * * *';
+const CHECK_JOB_ID = 'opportunity-liveness-check';
+
+const LOCK_KEY = 'opportunity_liveness:lock';
+const LOCK_TTL_MS = 30 * 60 * 1000;
+
+const BATCH_SIZE = 50;
+const RECHECK_HOURS = 72;
+// A reverted report means a moderator vouched for the opportunity
+const REVERT_GRACE_DAYS = 30;
+const MAX_PAGE_CHARS = 20000;
+const EVIDENCE_CHARS = 160;
+
+// Responses that mean the page is gone for good
+const CLOSED_STATUSES = new Set([404, 410]);
+
+const CLOSURE_PATTERNS = [
+  /(?:this|the) (?:opportunity|position|job|role|vacancy|call|programme|program|scholarship|posting|listing) (?:has|is) (?:now )?(?:closed|expired|been filled|no longer (?:available|open|active))/i,
+  /applications? (?:are|is|have|has) (?:now )?(?:closed|been closed)/i,
+  /(?:no longer|not currently) accepting applications/i,
+  /(?:this|the) (?:job|posting|listing|page) (?:has been|was) (?:removed|taken down|deleted)/i,
+  /(?:deadline|closing date) (?:has )?(?:passed|elapsed)/i,
+  /position (?:has been )?filled/i,
+];
+
+const findClosureEvidence = (text: string): string | null => {
+  for (const pattern of CLOSURE_PATTERNS) {
+    const match = pattern.exec(text);
+    if (!match) continue;
+
+    const start = Math.max(0, match.index - EVIDENCE_CHARS / 2);
+    return text
+      .slice(start, match.index + match[0].length + EVIDENCE_CHARS / 2)
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+  return null;
+};
+
+const isHttpUrl = (value: string | null | undefined): value is string =>
+  !!value && /^https?:\/\//i.test(value);
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Service
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Re-fetches the pages of active opportunities and deactivates those whose
+ * page is gone or says the opportunity has closed. Every deactivation is
+ * recorded as a liveness report for moderators to confirm or revert.
+ */
+class OpportunityLivenessService {
+  private queue: Bull.Queue;
+  private started = false;
+
+  constructor() {
+    this.queue = new Bull('opportunity-liveness', {
+      redis: {
+        host: redis.options.host,
+        port: redis.options.port,
+        password: redis.options.password,
+      },
+      defaultJobOptions: { removeOnComplete: 5, removeOnFail: 5 },
+    });
+  }
+
+  async start(): Promise<void> {
+    if (this.started || config.OPPORTUNITY_LIVENESS_ENABLED === 'false') {
+      return;
+    }
+    this.started = true;
+
+    this.queue.process(CHECK_JOB, 1, () => this.runCheck());
+    this.queue.on('failed', (job, err) => {
+      logger.error('Opportunity liveness check failed', {
+        jobId: job.id,
+        error: err.message,
+      });
+    });
+
+    await this.queue.add(
+      CHECK_JOB,
+      {},
+      {
+        jobId: CHECK_JOB_ID,
+        repeat: { cron: CHECK_CRON },
+      }
+    );
+
+    logger.info('Opportunity liveness checker started', { cron: CHECK_CRON });
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Check
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Checks the active opportunities that have gone longest without a check
+   */
+  async runCheck(): Promise<LivenessCheckSummary> {
+    const summary: LivenessCheckSummary = {
+      checked: 0,
+      closed: 0,
+      unreachable: 0,
+    };
+
+    const token = await acquireLock(LOCK_KEY, LOCK_TTL_MS);
+    if (!token) {
+      logger.debug('Liveness check lock held elsewhere, skipping run');
+      return summary;
+    }
+
+    try {
+      const now = new Date();
+      const recheckBefore = new Date(
+        now.getTime() - RECHECK_HOURS * 60 * 60 * 1000
+      );
+      const revertedSince = new Date(
+        now.getTime() - REVERT_GRACE_DAYS * 24 * 60 * 60 * 1000
+      );
+
+      const opportunities = await prisma.opportunity.findMany({
+        where: {
+          isActive: true,
+          deadline: { gte: now },
+          OR: [
+            { livenessCheckedAt: null },
+            { livenessCheckedAt: { lt: recheckBefore } },
+          ],
+          livenessReports: {
+            none: { status: 'REVERTED', reviewedAt: { gte: revertedSince } },
+          },
+        },
+        orderBy: { livenessCheckedAt: { sort: 'asc', nulls: 'first' } },
+        take: BATCH_SIZE,
+      });
+
+      const drafts = await prisma.aIDraft.findMany({
+        where: { opportunityId: { in: opportunities.map((o) => o.id) } },
+        select: { opportunityId: true, sourceUrl: true },
+      });
+      const sourceUrlById = new Map(
+        drafts.map((draft) => [draft.opportunityId, draft.sourceUrl])
+      );
+
+      for (const opportunity of opportunities) {
+        const urls = [
+          sourceUrlById.get(opportunity.id),
+          opportunity.applicationUrl,
+        ].filter(isHttpUrl);
+
+        const { url, verdict } = await this.checkUrls(opportunity, [
+          ...new Set(urls),
+        ]);
+
+        summary.checked++;
+        if (verdict.state === 'unreachable') summary.unreachable++;
+
+        if (verdict.state === 'closed' && url) {
+          await this.deactivate(opportunity, url, verdict);
+          summary.closed++;
+        } else {
+          await prisma.opportunity.update({
+            where: { id: opportunity.id },
+            data: { livenessCheckedAt: new Date() },
+          });
+        }
+      }
+
+      if (summary.checked > 0) {
+        logger.info('Opportunity liveness check finished', { ...summary });
+      }
+
+      return summary;
+    } finally {
+      await releaseLock(LOCK_KEY, token);
+    }
+  }
+
+  /**
+   * Checks each page of an opportunity until one shows it closed. The
+   * opportunity counts as unreachable only if no page could be fetched.
+   */
+  private async checkUrls(
+    opportunity: Opportunity,
+    urls: string[]
+  ): Promise<{ url?: string; verdict: LivenessVerdict }> {
+    let result: { url?: string; verdict: LivenessVerdict } = {
+      verdict: { state: 'unreachable', error: 'No page to check' },
+    };
+
+    for (const url of urls) {
+      const verdict = await this.checkUrl(opportunity, url);
+      if (verdict.state === 'closed') return { url, verdict };
+      if (verdict.state === 'live') result = { url, verdict };
+    }
+
+    return result;
+  }
+
+  private async checkUrl(
+    opportunity: Opportunity,
+    url: string
+  ): Promise<LivenessVerdict> {
+    const response = await FetcherFactory.getFetcher('HTTP').fetch(url);
+
+    if (!response.data) {
+      if (response.status && CLOSED_STATUSES.has(response.status)) {
+        return {
+          state: 'closed',
+          method: 'HTTP_STATUS',
+          reason: `Page returned HTTP ${response.status}`,
+          httpStatus: response.status,
+        };
+      }
+      return {
+        state: 'unreachable',
+        error: response.error || 'Empty response',
+      };
+    }
+
+    const markdown = convertHtmlToMarkdown(response.data).slice(
+      0,
+      MAX_PAGE_CHARS
+    );
+    const evidence = findClosureEvidence(markdown);
+
+    // Pages without a closure notice are live; only pages with one are
+    // worth asking the LLM about, since notices can refer to other listings
+    if (!evidence) return { state: 'live' };
+
+    try {
+      const classification: { closed: boolean; reason?: string } = cleanLLMJson(
+        {
+          response: await aiRouter.generate({
+            prompt: classifyOpportunityLivenessPrompt(markdown, opportunity),
+          }),
+          requiredFields: ['closed'],
+        }
+      );
+
+      if (!classification.closed) return { state: 'live' };
+
+      return {
+        state: 'closed',
+        method: 'LLM',
+        reason: classification.reason || 'Page says the opportunity is closed',
+        evidence,
+      };
+    } catch (error: any) {
+      logger.warn('Liveness classification failed, using keyword match', {
+        url,
+        error: error.message,
+      });
+
+      return {
+        state: 'closed',
+        method: 'KEYWORD',
+        reason: 'Page contains a closure notice',
+        evidence,
+      };
+    }
+  }
+
+  private async deactivate(
+    opportunity: Opportunity,
+    checkedUrl: string,
+    verdict: Extract<LivenessVerdict, { state: 'closed' }>
+  ): Promise<void> {
+    await prisma.$transaction([
+      prisma.opportunity.update({
+        where: { id: opportunity.id },
+        data: { isActive: false, livenessCheckedAt: new Date() },
+      }),
+      prisma.livenessReport.create({
+        data: {
+          opportunityId: opportunity.id,
+          checkedUrl,
+          httpStatus: verdict.httpStatus,
+          method: verdict.method,
+          reason: verdict.reason,
+          evidence: verdict.evidence,
+        },
+      }),
+    ]);
+
+    logger.info('Deactivated closed opportunity', {
+      opportunityId: opportunity.id,
+      checkedUrl,
+      method: verdict.method,
+      reason: verdict.reason,
+    });
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Public API
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Queues a liveness check outside the hourly schedule
+   */
+  async queueCheck(): Promise<{ jobId: string }> {
+    const job = await this.queue.add(CHECK_JOB, {});
+    return { jobId: String(job.id) };
+  }
+
+  async getReports(
+    filters: LivenessReportQueryParams
+  ): Promise<LivenessReportListResponse> {
+    const { page, limit, status, method, opportunityId } = filters;
+    const skip = (page - 1) * limit;
+
+    const where: any = {};
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (method) {
+      where.method = method;
+    }
+
+    if (opportunityId) {
+      where.opportunityId = opportunityId;
+    }
+
+    const [reports, total] = await Promise.all([
+      prisma.livenessReport.findMany({
+        where,
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          opportunity: {
+            select: {
+              id: true,
+              title: true,
+              organization: true,
+              isActive: true,
+              deadline: true,
+            },
+          },
+        },
+      }),
+      prisma.livenessReport.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      reports,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasNextPage: page < totalPages,
+        hasPreviousPage: page > 1,
+      },
+    };
+  }
+
+  /**
+   * Confirms a closure, or reverts it and reactivates the opportunity
+   */
+  async reviewReport(
+    id: string,
+    data: ReviewLivenessReportData,
+    reviewerId: string
+  ): Promise<LivenessReportResponse> {
+    const report = await prisma.livenessReport.findUnique({ where: { id } });
+
+    if (!report) {
+      throw new NotFoundException('Liveness report not found');
+    }
+
+    if (report.status !== 'PENDING_REVIEW') {
+      throw new BadRequestException('This report has already been reviewed');
+    }
+
+    const reverted = data.action === 'revert';
+
+    if (reverted) {
+      await prisma.opportunity.update({
+        where: { id: report.opportunityId },
+        data: { isActive: true },
+      });
+    }
+
+    const updatedReport = await prisma.livenessReport.update({
+      where: { id },
+      data: {
+        status: reverted ? 'REVERTED' : 'CONFIRMED',
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+      },
+      include: {
+        opportunity: {
+          select: {
+            id: true,
+            title: true,
+            organization: true,
+            isActive: true,
+            deadline: true,
+          },
+        },
+      },
+    });
+
+    logger.info('Liveness report reviewed', {
+      reportId: id,
+      opportunityId: report.opportunityId,
+      action: data.action,
+      reviewerId,
+    });
+
+    return updatedReport;
+  }
+
+  async shutdown(): Promise<void> {
+    await this.queue.close();
+    logger.info('Opportunity liveness checker shut down');
+  }
+}
+
+export const opportunityLivenessService = new OpportunityLivenessService();
+export default opportunityLivenessService;
@@ -0,0 +1,275 @@
+import { prisma } from '../config/database';
+import logger from '../config/logger';
+import { AIDraft, Opportunity, Prisma } from '../generated/prisma/client';
+import { ExtractionQualityStatus } from '../generated/prisma/enums';
+import {
+  AIDraftResponse,
+  RevisionDiffResponse,
+  RevisionFieldChange,
+} from '../schemas/ai-draft';
+import {
+  NotFoundException,
+  BadRequestException,
+} from '../utils/http-exception';
+import { locationService } from './location-service';
+import { compensationService } from './compensation-service';
+import { deduplicationService } from './deduplication-service';
+
+// Scraped payload and extraction quality stored with a crawled draft
+export interface DraftSourceData {
+  rawScrapedData: Prisma.InputJsonValue;
+  rawData: string;
+  qualityStatus: ExtractionQualityStatus;
+  flaggedFields: string[];
+  qualityReport: Prisma.InputJsonValue;
+}
+
+// Opportunity fields a re-crawl of the source page may propose changes to
+const REVISABLE_FIELDS = [
+  'title',
+  'organization',
+  'description',
+  'requirements',
+  'benefits',
+  'compensation',
+  'compensationType',
+  'locations',
+  'isRemote',
+  'deadline',
+  'applicationUrl',
+  'contactEmail',
+  'experienceLevel',
+  'duration',
+  'eligibility',
+] as const;
+
+type RevisableField = (typeof REVISABLE_FIELDS)[number];
+
+export type OpportunityPatch = Partial<Pick<Opportunity, RevisableField>>;
+
+const comparable = (value: unknown): unknown => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string') return value.trim();
+  if (Array.isArray(value)) return JSON.stringify(value.map(comparable));
+  return value ?? null;
+};
+
+const serialize = (value: unknown): unknown =>
+  value instanceof Date ? value.toISOString() : (value ?? null);
+
+class OpportunityRevisionService {
+  /**
+   * Field-level diff of a freshly crawled patch against the live opportunity.
+   * Fields missing from the patch are not considered changed.
+   */
+  diffFields(
+    opportunity: Opportunity,
+    patch: OpportunityPatch
+  ): RevisionFieldChange[] {
+    return REVISABLE_FIELDS.filter(
+      (field) =>
+        patch[field] !== undefined &&
+        comparable(patch[field]) !== comparable(opportunity[field])
+    ).map((field) => ({
+      field,
+      previous: serialize(opportunity[field]),
+      proposed: serialize(patch[field]),
+    }));
+  }
+
+  /**
+   * Creates a revision draft for the changes a re-crawl found on the source
+   * page of a published draft. A pending revision for the same opportunity
+   * is refreshed instead of adding another one. Returns null when the live
+   * opportunity already matches the crawl.
+   */
+  async proposeRevision(
+    publishedDraft: AIDraft,
+    patch: OpportunityPatch,
+    raw: DraftSourceData
+  ): Promise<AIDraft | null> {
+    const opportunityId = publishedDraft.opportunityId;
+    if (!opportunityId) return null;
+
+    const opportunity = await prisma.opportunity.findUnique({
+      where: { id: opportunityId },
+    });
+    if (!opportunity) return null;
+
+    const fieldChanges = this.diffFields(opportunity, patch);
+    const pendingRevision = await prisma.aIDraft.findFirst({
+      where: { revisionForId: opportunityId, status: 'PENDING' },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!fieldChanges.length) {
+      // The source page went back to what is live, so the pending revision
+      // no longer proposes anything
+      if (pendingRevision) {
+        await prisma.aIDraft.delete({ where: { id: pendingRevision.id } });
+      }
+      return null;
+    }
+
+    const data = {
+      ...this.pickRevisableFields(opportunity),
+      ...patch,
+      ...raw,
+      fieldChanges: fieldChanges as unknown as Prisma.InputJsonValue,
+    };
+
+    const revision = pendingRevision
+      ? await prisma.aIDraft.update({
+          where: { id: pendingRevision.id },
+          data,
+        })
+      : await prisma.aIDraft.create({
+          data: {
+            ...data,
+            crawlSourceId: publishedDraft.crawlSourceId,
+            sourceUrl: publishedDraft.sourceUrl,
+            isDetailsCrawled: publishedDraft.isDetailsCrawled,
+            status: 'PENDING',
+            revisionForId: opportunityId,
+          },
+        });
+
+    logger.info('Proposed revision for published opportunity', {
+      revisionDraftId: revision.id,
+      opportunityId,
+      fields: fieldChanges.map((change) => change.field),
+    });
+
+    return revision;
+  }
+
+  /**
+   * Patches the live opportunity with the changed fields of an approved
+   * revision draft. Values are taken from the draft so moderator edits made
+   * during review are applied. Runs in its own transaction unless one is
+   * passed in.
+   */
+  async applyRevision(
+    id: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<AIDraftResponse> {
+    if (!tx) {
+      return prisma.$transaction((client) => this.applyRevision(id, client));
+    }
+
+    const revision = await tx.aIDraft.findUnique({ where: { id } });
+
+    if (!revision) {
+      throw new NotFoundException('AI draft not found');
+    }
+
+    if (!revision.revisionForId) {
+      throw new BadRequestException('This draft is not a revision');
+    }
+
+    if (revision.status !== 'APPROVED') {
+      throw new BadRequestException('Only approved drafts can be published');
+    }
+
+    const opportunity = await tx.opportunity.findUnique({
+      where: { id: revision.revisionForId },
+    });
+
+    if (!opportunity) {
+      throw new NotFoundException(
+        'The opportunity this revision targets no longer exists'
+      );
+    }
+
+    const changedFields = this.getFieldChanges(revision).map(
+      (change) => change.field
+    );
+    const revisable = this.pickRevisableFields(revision);
+    const data = Object.fromEntries(
+      REVISABLE_FIELDS.filter((field) => changedFields.includes(field)).map(
+        (field) => [field, revisable[field]]
+      )
+    );
+
+    await tx.opportunity.update({
+      where: { id: opportunity.id },
+      data: {
+        ...data,
+        ...(changedFields.includes('locations') &&
+          locationService.assignPlaces(revisable.locations)),
+        ...compensationService.parse({ ...opportunity, ...data }),
+        fingerprint: deduplicationService.buildFingerprint({
+          ...opportunity,
+          ...data,
+        }),
+      },
+    });
+
+    const updatedDraft = await tx.aIDraft.update({
+      where: { id },
+      data: { status: 'PUBLISHED' },
+      include: {
+        crawlSource: {
+          select: {
+            id: true,
+            name: true,
+            url: true,
+          },
+        },
+      },
+    });
+
+    logger.info('Revision applied to published opportunity', {
+      aiDraftId: id,
+      opportunityId: opportunity.id,
+      fields: Object.keys(data),
+    });
+
+    return updatedDraft as AIDraftResponse;
+  }
+
+  async getRevisionDiff(id: string): Promise<RevisionDiffResponse> {
+    const revision = await prisma.aIDraft.findUnique({ where: { id } });
+
+    if (!revision) {
+      throw new NotFoundException('AI draft not found');
+    }
+
+    if (!revision.revisionForId) {
+      throw new BadRequestException('This draft is not a revision');
+    }
+
+    const opportunity = await prisma.opportunity.findUnique({
+      where: { id: revision.revisionForId },
+    });
+
+    return {
+      draftId: revision.id,
+      opportunityId: revision.revisionForId,
+      status: revision.status,
+      changes: this.getFieldChanges(revision).map((change) => ({
+        ...change,
+        current: opportunity
+          ? serialize(opportunity[change.field as RevisableField])
+          : null,
+      })),
+    };
+  }
+
+  private getFieldChanges(draft: AIDraft): RevisionFieldChange[] {
+    return Array.isArray(draft.fieldChanges)
+      ? (draft.fieldChanges as unknown as RevisionFieldChange[])
+      : [];
+  }
+
+  private pickRevisableFields(
+    source: Pick<Opportunity, RevisableField>
+  ): Pick<Opportunity, RevisableField> {
+    return Object.fromEntries(
+      REVISABLE_FIELDS.map((field) => [field, source[field]])
+    ) as Pick<Opportunity, RevisableField>;
+  }
+}
+
+export const opportunityRevisionService = new OpportunityRevisionService();
+export default opportunityRevisionService;
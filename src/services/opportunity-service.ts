@@ -1,4 +1,5 @@
 import { prisma } from '../config/database';
+import { Prisma } from '../generated/prisma/client';
 import {
   NotFoundException,
   ConflictException,
@@ -14,7 +15,109 @@ import {
   UpdateApplicationData,
   OpportunityResponse,
   OpportunityListResponse,
+  OpportunitySearchMatch,
+  OpportunityFacetName,
+  OpportunityFacets,
+  FacetCount,
 } from '../schemas/opportunity';
+import { buildTsQuery } from '../utils/search-query';
+import { locationService, DEFAULT_RADIUS_KM } from './location-service';
+import { compensationService } from './compensation-service';
+import { deduplicationService } from './deduplication-service';
+import { PageRequest, paginate } from '../utils/pagination';
+import { SqlFields, orderByToSql, whereToSql } from '../utils/sql-where';
+import { PaginationMeta, PaginationQueryParams } from '../schemas/pagination';
+
+type OpportunityFilters = Pick<
+  OpportunityQueryParams,
+  | OpportunityFacetName
+  | 'near'
+  | 'radiusKm'
+  | 'minCompensation'
+  | 'currency'
+  | 'fullyFunded'
+>;
+
+// Windows of the deadline filter, in days from now
+const DEADLINE_WINDOWS = { week: 7, month: 30, quarter: 90 } as const;
+
+// Most frequent locations returned by the locations facet
+const TOP_LOCATIONS = 10;
+
+// Full-text rank of a search match, as float8 so cursors round-trip it
+const SEARCH_RANK = Prisma.sql`ts_rank(o.search_vector, query)::float8`;
+
+// SQL of the fields buildWhere filters on and lists sort by, for queries
+// Prisma cannot express; o is the opportunities row
+const OPPORTUNITY_SQL_FIELDS: SqlFields = {
+  columns: Object.fromEntries(
+    Object.entries({
+      id: 'id',
+      isActive: 'is_active',
+      isRemote: 'is_remote',
+      experienceLevel: 'experience_level',
+      compensationType: 'compensation_type',
+      deadline: 'deadline',
+      createdAt: 'created_at',
+      title: 'title',
+      organization: 'organization',
+      locations: 'locations',
+      placeIds: 'place_ids',
+      placeAncestorIds: 'place_ancestor_ids',
+      isFullyFunded: 'is_fully_funded',
+      compensationCurrency: 'compensation_currency',
+      monthlyCompensation: 'monthly_compensation',
+      baseMonthlyCompensation: 'base_monthly_compensation',
+    }).map(([field, column]) => [field, Prisma.raw(`o.${column}`)])
+  ),
+  relations: {
+    opportunityCategories: {
+      from: Prisma.sql`opportunity_categories c WHERE c.opportunity_id = o.id`,
+      fields: {
+        columns: { opportunityTypeId: Prisma.sql`c.opportunity_type_id` },
+      },
+    },
+  },
+};
+
+const SEARCH_SQL_FIELDS: SqlFields = {
+  ...OPPORTUNITY_SQL_FIELDS,
+  columns: { ...OPPORTUNITY_SQL_FIELDS.columns, relevance: SEARCH_RANK },
+};
+
+// Sort fields of a search match, which cursors are built from
+interface SearchMatchRow {
+  id: string;
+  title: string;
+  organization: string;
+  deadline: Date;
+  createdAt: Date;
+  baseMonthlyCompensation: number;
+  relevance: number;
+}
+
+// ts_headline options; matched words are wrapped in <mark></mark>
+const HIGHLIGHT_OPTIONS = 'StartSel=<mark>, StopSel=</mark>';
+const SNIPPET_OPTIONS = `${HIGHLIGHT_OPTIONS}, MaxFragments=2, MinWords=10, MaxWords=30, FragmentDelimiter=" … "`;
+
+const opportunityInclude = {
+  opportunityCategories: {
+    include: {
+      opportunityType: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+    },
+  },
+  _count: {
+    select: {
+      applications: true,
+      savedJobs: true,
+    },
+  },
+};
 
 class OpportunityService {
   async createOpportunity(
@@ -36,6 +139,12 @@ class OpportunityService {
     const opportunity = await prisma.opportunity.create({
       data: {
         ...opportunityData,
+        ...locationService.assignPlaces(opportunityData.locations),
+        ...compensationService.parse(opportunityData),
+        fingerprint: deduplicationService.buildFingerprint({
+          ...opportunityData,
+          deadline: new Date(deadline),
+        }),
         deadline: new Date(deadline),
         author: author || 'System',
         opportunityCategories: {
@@ -75,134 +184,45 @@ class OpportunityService {
   async getOpportunities(
     params: OpportunityQueryParams
   ): Promise<OpportunityListResponse> {
-    const {
-      page,
-      limit,
-      search,
-      locations,
-      isRemote,
-      experienceLevel,
-      compensationType,
-      opportunityTypeIds,
-      deadline,
-      sortBy,
-      sortOrder,
-    } = params;
+    const { search, sortBy, sortOrder, facets } = params;
 
-    const skip = (page - 1) * limit;
-
-    // Build where clause
-    const where: any = {
-      isActive: true,
+    const tsQuery = search ? buildTsQuery(search) : null;
+    const where = this.buildWhere(params);
+    const request = {
+      ...params,
+      sortBy: this.sortField(sortBy, tsQuery),
+      sortOrder,
     };
 
-    if (search) {
-      where.OR = [
-        { title: { contains: search, mode: 'insensitive' } },
-        { organization: { contains: search, mode: 'insensitive' } },
-        { description: { contains: search, mode: 'insensitive' } },
-      ];
-    }
-
-    if (locations) {
-      const locationArray = locations.split(',').map((loc) => loc.trim());
-      where.locations = {
-        hasSome: locationArray,
-      };
-    }
-
-    if (isRemote !== undefined) {
-      where.isRemote = isRemote;
-    }
-
-    if (experienceLevel) {
-      where.experienceLevel = experienceLevel;
-    }
+    let opportunities: OpportunityResponse[];
+    let pagination: PaginationMeta;
 
-    if (compensationType) {
-      where.compensationType = compensationType;
-    }
-
-    if (opportunityTypeIds) {
-      const typeIdArray = opportunityTypeIds.split(',').map((id) => id.trim());
-      where.opportunityCategories = {
-        some: {
-          opportunityTypeId: { in: typeIdArray },
-        },
-      };
-    }
-
-    if (deadline) {
-      const now = new Date();
-      let deadlineFilter: Date;
-
-      switch (deadline) {
-        case 'week':
-          deadlineFilter = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000);
-          break;
-        case 'month':
-          deadlineFilter = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-          break;
-        case 'quarter':
-          deadlineFilter = new Date(now.getTime() + 90 * 24 * 60 * 60 * 1000);
-          break;
-        default:
-          deadlineFilter = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-      }
-
-      where.deadline = {
-        gte: now,
-        lte: deadlineFilter,
-      };
+    if (tsQuery) {
+      ({ opportunities, pagination } = await this.searchOpportunities(
+        tsQuery,
+        where,
+        request
+      ));
     } else {
-      // Only show opportunities with future deadlines
-      where.deadline = { gte: new Date() };
-    }
-
-    // Build orderBy clause
-    const orderBy: any = {};
-    orderBy[sortBy] = sortOrder;
-
-    const [opportunities, total] = await Promise.all([
-      prisma.opportunity.findMany({
+      const page = await paginate(request, {
         where,
-        skip,
-        take: limit,
-        orderBy,
-        include: {
-          opportunityCategories: {
-            include: {
-              opportunityType: {
-                select: {
-                  id: true,
-                  name: true,
-                },
-              },
-            },
-          },
-          _count: {
-            select: {
-              applications: true,
-              savedJobs: true,
-            },
-          },
-        },
-      }),
-      prisma.opportunity.count({ where }),
-    ]);
-
-    const totalPages = Math.ceil(total / limit);
+        findMany: (args) =>
+          prisma.opportunity.findMany({
+            ...args,
+            include: opportunityInclude,
+          }),
+        count: (where) => prisma.opportunity.count({ where }),
+      });
+      opportunities = page.items as OpportunityResponse[];
+      pagination = page.pagination;
+    }
 
     return {
-      opportunities: opportunities as OpportunityResponse[],
-      pagination: {
-        total,
-        page,
-        limit,
-        totalPages,
-        hasNextPage: page < totalPages,
-        hasPreviousPage: page > 1,
-      },
+      opportunities,
+      ...(facets?.length && {
+        facets: await this.getFacets(params, facets, tsQuery),
+      }),
+      pagination,
     };
   }
 
@@ -283,6 +303,14 @@ class OpportunityService {
       where: { id },
       data: {
         ...updateData,
+        ...(updateData.locations &&
+          locationService.assignPlaces(updateData.locations)),
+        ...compensationService.parse({ ...existingOpportunity, ...updateData }),
+        fingerprint: deduplicationService.buildFingerprint({
+          ...existingOpportunity,
+          ...updateData,
+          ...(deadline && { deadline: new Date(deadline) }),
+        }),
         ...(deadline && { deadline: new Date(deadline) }),
         ...(author !== undefined && { author }),
         ...(opportunityTypeIds && {
@@ -419,57 +447,31 @@ class OpportunityService {
     return { message: 'Job unsaved successfully' };
   }
 
-  async getUserSavedJobs(userId: string, page: number = 1, limit: number = 10) {
-    const skip = (page - 1) * limit;
-
-    const [savedJobs, total] = await Promise.all([
-      prisma.savedJob.findMany({
+  async getUserSavedJobs(userId: string, params: PaginationQueryParams) {
+    const { items, pagination } = await paginate(
+      { ...params, sortBy: 'savedAt', sortOrder: 'desc' },
+      {
         where: { userId },
-        skip,
-        take: limit,
-        orderBy: { savedAt: 'desc' },
-        include: {
-          opportunity: {
+        findMany: (args) =>
+          prisma.savedJob.findMany({
+            ...args,
             include: {
-              opportunityCategories: {
-                include: {
-                  opportunityType: {
-                    select: {
-                      id: true,
-                      name: true,
-                    },
-                  },
-                },
-              },
-              _count: {
-                select: {
-                  applications: true,
-                  savedJobs: true,
-                },
+              opportunity: {
+                include: opportunityInclude,
               },
             },
-          },
-        },
-      }),
-      prisma.savedJob.count({ where: { userId } }),
-    ]);
-
-    const totalPages = Math.ceil(total / limit);
+          }),
+        count: (where) => prisma.savedJob.count({ where }),
+      }
+    );
 
     return {
-      savedJobs: savedJobs.map((save) => ({
+      savedJobs: items.map((save) => ({
         id: save.id,
         savedAt: save.savedAt,
         opportunity: save.opportunity,
       })),
-      pagination: {
-        total,
-        page,
-        limit,
-        totalPages,
-        hasNextPage: page < totalPages,
-        hasPreviousPage: page > 1,
-      },
+      pagination,
     };
   }
 
@@ -537,51 +539,30 @@ class OpportunityService {
     return application;
   }
 
-  async getUserApplications(
-    userId: string,
-    page: number = 1,
-    limit: number = 10
-  ) {
-    const skip = (page - 1) * limit;
-
-    const [applications, total] = await Promise.all([
-      prisma.application.findMany({
+  async getUserApplications(userId: string, params: PaginationQueryParams) {
+    const { items, pagination } = await paginate(
+      { ...params, sortBy: 'appliedAt', sortOrder: 'desc' },
+      {
         where: { userId },
-        skip,
-        take: limit,
-        orderBy: { appliedAt: 'desc' },
-        include: {
-          opportunity: {
+        findMany: (args) =>
+          prisma.application.findMany({
+            ...args,
             include: {
-              opportunityCategories: {
+              opportunity: {
                 include: {
-                  opportunityType: {
-                    select: {
-                      id: true,
-                      name: true,
-                    },
-                  },
+                  opportunityCategories:
+                    opportunityInclude.opportunityCategories,
                 },
               },
             },
-          },
-        },
-      }),
-      prisma.application.count({ where: { userId } }),
-    ]);
-
-    const totalPages = Math.ceil(total / limit);
+          }),
+        count: (where) => prisma.application.count({ where }),
+      }
+    );
 
     return {
-      applications,
-      pagination: {
-        total,
-        page,
-        limit,
-        totalPages,
-        hasNextPage: page < totalPages,
-        hasPreviousPage: page > 1,
-      },
+      applications: items,
+      pagination,
     };
   }
 
@@ -715,6 +696,332 @@ class OpportunityService {
       recentApplications,
     };
   }
+
+  /**
+   * Where clause for the list filters. Only active opportunities with a
+   * deadline ahead are listed.
+   * Locations match through the gazetteer hierarchy, and minCompensation
+   * across currencies.
+   */
+  private buildWhere(filters: OpportunityFilters) {
+    const {
+      locations,
+      isRemote,
+      experienceLevel,
+      compensationType,
+      opportunityTypeIds,
+      deadline,
+      near,
+      radiusKm,
+      minCompensation,
+      currency,
+      fullyFunded,
+    } = filters;
+
+    const where: any = {
+      isActive: true,
+    };
+    // Location, radius and compensation conditions, which must all hold
+    const conditions: any[] = compensationService.buildWhere({
+      minCompensation,
+      currency,
+      fullyFunded,
+    });
+
+    if (locations) {
+      const locationArray = locations
+        .split(',')
+        .map((loc) => loc.trim())
+        .filter(Boolean);
+      if (locationArray.length) {
+        conditions.push(
+          locationService.buildWhere(locationService.buildQuery(locationArray))
+        );
+      }
+    }
+
+    if (near) {
+      conditions.push({
+        placeIds: {
+          hasSome: locationService.findCitiesWithin(
+            near,
+            radiusKm ?? DEFAULT_RADIUS_KM
+          ),
+        },
+      });
+    }
+
+    if (isRemote !== undefined) {
+      where.isRemote = isRemote;
+    }
+
+    if (experienceLevel) {
+      where.experienceLevel = experienceLevel;
+    }
+
+    if (compensationType) {
+      where.compensationType = compensationType;
+    }
+
+    if (opportunityTypeIds) {
+      const typeIdArray = opportunityTypeIds.split(',').map((id) => id.trim());
+      where.opportunityCategories = {
+        some: {
+          opportunityTypeId: { in: typeIdArray },
+        },
+      };
+    }
+
+    if (conditions.length) {
+      where.AND = conditions;
+    }
+
+    const now = new Date();
+    where.deadline = deadline
+      ? { gte: now, lte: this.daysFromNow(now, DEADLINE_WINDOWS[deadline]) }
+      : // Only show opportunities with future deadlines
+        { gte: now };
+
+    return where;
+  }
+
+  /**
+   * Result counts per value of the requested facets. Each facet is counted
+   * with every filter but its own, so values other than the selected one
+   * show how many results picking them would give.
+   */
+  private async getFacets(
+    filters: OpportunityFilters,
+    names: OpportunityFacetName[],
+    tsQuery: string | null
+  ): Promise<OpportunityFacets> {
+    const counts = await Promise.all(
+      names.map((name) =>
+        this.countFacet(
+          name,
+          this.fromMatches(
+            this.buildWhere({ ...filters, [name]: undefined }),
+            tsQuery
+          )
+        )
+      )
+    );
+
+    return Object.fromEntries(names.map((name, i) => [name, counts[i]]));
+  }
+
+  /**
+   * Counts one facet over the opportunities selected by fromMatches, each
+   * in a single grouped query
+   */
+  private async countFacet(
+    name: OpportunityFacetName,
+    fromMatches: Prisma.Sql
+  ): Promise<FacetCount[]> {
+    switch (name) {
+      case 'opportunityTypeIds': {
+        const rows = await prisma.$queryRaw<
+          { value: string; label: string; count: bigint }[]
+        >`
+          SELECT t.id AS value, t.name AS label, COUNT(*) AS count
+          FROM (SELECT o.id ${fromMatches}) matches
+          JOIN opportunity_categories c ON c.opportunity_id = matches.id
+          JOIN opportunity_types t ON t.id = c.opportunity_type_id
+          GROUP BY t.id, t.name
+        `;
+
+        return this.sortFacet(
+          rows.map((row) => ({ ...row, count: Number(row.count) }))
+        );
+      }
+
+      case 'experienceLevel':
+      case 'compensationType':
+      case 'isRemote': {
+        const column = OPPORTUNITY_SQL_FIELDS.columns[name];
+        const rows = await prisma.$queryRaw<{ value: string; count: bigint }[]>`
+          SELECT ${column}::text AS value, COUNT(*) AS count
+          ${fromMatches} AND ${column} IS NOT NULL
+          GROUP BY ${column}
+        `;
+
+        return this.sortFacet(
+          rows.map((row) => ({ value: row.value, count: Number(row.count) }))
+        );
+      }
+
+      case 'deadline': {
+        // Windows overlap like the filter: "month" includes "week"
+        const now = new Date();
+        const windows = Object.entries(DEADLINE_WINDOWS);
+        const [row] = await prisma.$queryRaw<Record<string, bigint>[]>`
+          SELECT ${Prisma.join(
+            windows.map(
+              ([value, days]) =>
+                Prisma.sql`COUNT(*) FILTER (WHERE o.deadline <= ${this.daysFromNow(now, days)}) AS ${Prisma.raw(value)}`
+            )
+          )}
+          ${fromMatches}
+        `;
+
+        return windows.map(([value]) => ({ value, count: Number(row[value]) }));
+      }
+
+      case 'locations': {
+        const rows = await prisma.$queryRaw<
+          { location: string; count: bigint }[]
+        >`
+          SELECT location, COUNT(*) AS count
+          FROM (SELECT o.locations ${fromMatches}) matches,
+            unnest(matches.locations) AS location
+          GROUP BY location
+          ORDER BY count DESC, location ASC
+          LIMIT ${TOP_LOCATIONS}
+        `;
+
+        return rows.map((row) => ({
+          value: row.location,
+          count: Number(row.count),
+        }));
+      }
+    }
+  }
+
+  private sortFacet(counts: FacetCount[]): FacetCount[] {
+    return counts.sort(
+      (a, b) =>
+        b.count - a.count ||
+        (a.label ?? a.value).localeCompare(b.label ?? b.value)
+    );
+  }
+
+  /**
+   * Row field a sortBy option orders by. Pay sorts on the amount converted
+   * to the base currency, and relevance needs a search.
+   */
+  private sortField(
+    sortBy: OpportunityQueryParams['sortBy'],
+    tsQuery: string | null
+  ): string {
+    if (sortBy === 'compensation') return 'baseMonthlyCompensation';
+    if (sortBy === 'relevance' && !tsQuery) return 'createdAt';
+    return sortBy;
+  }
+
+  private daysFromNow(now: Date, days: number): Date {
+    return new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * FROM and WHERE clauses of the opportunities passing a where from
+   * buildWhere and, when tsQuery is set, matching it; o is the opportunity
+   * row and query the tsquery. Lets queries Prisma cannot express apply
+   * the same filters as the Prisma ones.
+   */
+  private fromMatches(where: any, tsQuery: string | null): Prisma.Sql {
+    if (!tsQuery) {
+      return Prisma.sql`
+        FROM opportunities o
+        WHERE ${whereToSql(where, OPPORTUNITY_SQL_FIELDS)}
+      `;
+    }
+
+    return Prisma.sql`
+      FROM opportunities o, to_tsquery('english', ${tsQuery}) query
+      WHERE o.search_vector @@ query
+        AND ${whereToSql(where, SEARCH_SQL_FIELDS)}
+    `;
+  }
+
+  /**
+   * Page of full-text search matches. Prisma cannot match a tsquery or
+   * order by rank, so the filters from buildWhere, the sort and the count
+   * run as SQL next to the text match; only the page is then loaded with
+   * its relations. Ranks weigh title matches over organization matches over
+   * requirement and description matches.
+   */
+  private async searchOpportunities(
+    tsQuery: string,
+    where: any,
+    request: PageRequest
+  ): Promise<{
+    opportunities: OpportunityResponse[];
+    pagination: PaginationMeta;
+  }> {
+    const { items, pagination } = await paginate(request, {
+      where,
+      findMany: ({ where, orderBy, skip, take }) =>
+        prisma.$queryRaw<SearchMatchRow[]>`
+          SELECT
+            o.id,
+            o.title,
+            o.organization,
+            o.deadline,
+            o.created_at AS "createdAt",
+            o.base_monthly_compensation AS "baseMonthlyCompensation",
+            ${SEARCH_RANK} AS relevance
+          ${this.fromMatches(where, tsQuery)}
+          ORDER BY ${orderByToSql(orderBy, SEARCH_SQL_FIELDS)}
+          LIMIT ${take} OFFSET ${skip ?? 0}
+        `,
+      count: async (where) => {
+        const [row] = await prisma.$queryRaw<{ count: bigint }[]>`
+          SELECT COUNT(*) AS count ${this.fromMatches(where, tsQuery)}
+        `;
+        return Number(row.count);
+      },
+    });
+
+    const pageIds = items.map((match) => match.id);
+    const [rows, highlights] = await Promise.all([
+      prisma.opportunity.findMany({
+        where: { id: { in: pageIds } },
+        include: opportunityInclude,
+      }),
+      this.getSearchHighlights(tsQuery, pageIds),
+    ]);
+    const byId = new Map(rows.map((row) => [row.id, row]));
+
+    return {
+      opportunities: items.flatMap((match) => {
+        const opportunity = byId.get(match.id);
+        if (!opportunity) return [];
+
+        return [
+          {
+            ...(opportunity as OpportunityResponse),
+            search: {
+              rank: match.relevance,
+              titleHighlight: opportunity.title,
+              snippet: '',
+              ...highlights.get(match.id),
+            },
+          },
+        ];
+      }),
+      pagination,
+    };
+  }
+
+  private async getSearchHighlights(
+    tsQuery: string,
+    ids: string[]
+  ): Promise<Map<string, Omit<OpportunitySearchMatch, 'rank'>>> {
+    if (!ids.length) return new Map();
+
+    const rows = await prisma.$queryRaw<
+      { id: string; titleHighlight: string; snippet: string }[]
+    >`
+      SELECT
+        id,
+        ts_headline('english', title, query, ${HIGHLIGHT_OPTIONS}) AS "titleHighlight",
+        ts_headline('english', description, query, ${SNIPPET_OPTIONS}) AS snippet
+      FROM opportunities, to_tsquery('english', ${tsQuery}) query
+      WHERE id = ANY(${ids})
+    `;
+
+    return new Map(rows.map(({ id, ...highlight }) => [id, highlight]));
+  }
 }
 
 export const opportunityService = new OpportunityService();
@@ -0,0 +1,357 @@
+import retry from 'async-retry';
+import { prisma } from '../config/database';
+import logger from '../config/logger';
+import aiRouter from '../constant/ai';
+import { DEFAULT_OPPORTUNITY_TYPE } from '../constant/draft';
+import { classifyOpportunityTypePrompt } from '../constant/ai-prompts/opportunity-type-prompt';
+import cleanLLMJson from '../utils/clean-llm-json';
+import { NotFoundException } from '../utils/http-exception';
+import { AIDraft, Prisma } from '../generated/prisma/client';
+import {
+  AIDraftResponse,
+  OpportunityTypeSuggestion,
+} from '../schemas/ai-draft';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Constants
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Suggestions below this confidence are dropped
+const MIN_CONFIDENCE = 0.5;
+const MAX_SUGGESTIONS = 3;
+
+// Characters of the description sent to the LLM
+const MAX_DESCRIPTION_LENGTH = 4000;
+
+// Keywords per type name, lowercased. Types not listed here are matched on
+// their own name.
+const TYPE_KEYWORDS: Record<string, string[]> = {
+  job: [
+    'job',
+    'full-time',
+    'part-time',
+    'hiring',
+    'vacancy',
+    'position',
+    'salary',
+    'employment',
+  ],
+  internship: ['internship', 'intern', 'interns', 'traineeship', 'trainee'],
+  scholarship: [
+    'scholarship',
+    'scholarships',
+    'tuition',
+    'bursary',
+    'fully funded',
+    'masters',
+    'phd',
+    'undergraduate',
+  ],
+  fellowship: ['fellowship', 'fellowships', 'fellow', 'fellows'],
+  volunteer: ['volunteer', 'volunteers', 'volunteering', 'unpaid'],
+  contract: [
+    'contract',
+    'contractor',
+    'freelance',
+    'consultant',
+    'consultancy',
+  ],
+  grant: ['grant', 'grants', 'funding', 'seed funding', 'award'],
+  competition: ['competition', 'contest', 'challenge', 'hackathon', 'prize'],
+  conference: ['conference', 'summit', 'forum', 'symposium'],
+  training: ['training', 'bootcamp', 'course', 'workshop', 'programme'],
+};
+
+// Rules confidence per keyword found in the draft; keywords in the title
+// count once more
+const RULES_CONFIDENCE_PER_HIT = 0.25;
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────
+
+interface OpportunityTypeOption {
+  id: string;
+  name: string;
+}
+
+type ClassifiableDraft = Pick<
+  AIDraft,
+  | 'title'
+  | 'organization'
+  | 'description'
+  | 'requirements'
+  | 'eligibility'
+  | 'compensation'
+  | 'duration'
+  | 'rawScrapedData'
+>;
+
+export class OpportunityTypeClassifierService {
+  // ───────────────────────────────────────────────────────────────────────────
+  // Classification
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Suggests opportunity types for a draft. A type the crawl source labelled
+   * the listing with wins; otherwise the LLM picks from the existing types,
+   * and keyword rules take over when it fails. The default type is never
+   * suggested, as it is what drafts without suggestions are published with.
+   */
+  async classify(
+    draft: ClassifiableDraft,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<OpportunityTypeSuggestion[]> {
+    const types = await this.getCandidateTypes(db);
+    if (!types.length) return [];
+
+    const fromSource = this.matchSourceLabel(draft, types);
+    if (fromSource) return [fromSource];
+
+    try {
+      return await this.classifyWithLLM(draft, types);
+    } catch (error: any) {
+      logger.warn('LLM type classification failed, falling back to rules', {
+        error: error.message,
+      });
+      return this.classifyWithRules(draft, types);
+    }
+  }
+
+  /**
+   * Classifies a draft and stores the suggestions on it
+   */
+  async classifyDraft(id: string): Promise<AIDraftResponse> {
+    const draft = await prisma.aIDraft.findUnique({ where: { id } });
+
+    if (!draft) {
+      throw new NotFoundException('AI draft not found');
+    }
+
+    const suggestions = await this.classify(draft);
+    const updatedDraft = await prisma.aIDraft.update({
+      where: { id },
+      data: {
+        typeSuggestions: suggestions as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    logger.info('AI draft classified', {
+      aiDraftId: id,
+      types: suggestions.map((suggestion) => suggestion.name),
+    });
+
+    return updatedDraft as unknown as AIDraftResponse;
+  }
+
+  /**
+   * Classifies a newly crawled or updated draft. Failures are logged and
+   * never stop the crawl that produced the draft.
+   */
+  async classifyCrawledDraft(draftId: string): Promise<void> {
+    try {
+      await this.classifyDraft(draftId);
+    } catch (error: any) {
+      logger.error('Failed to classify draft', {
+        draftId,
+        error: error.message,
+      });
+    }
+  }
+
+  /**
+   * Opportunity types to publish a draft with when the moderator gave none:
+   * its stored suggestions that still exist, keyword rules for drafts that
+   * were never classified, and the default type as a last resort. Empty if
+   * even the default type is missing.
+   */
+  async getPublishTypeIds(
+    draft: ClassifiableDraft & Pick<AIDraft, 'typeSuggestions'>,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<string[]> {
+    const stored = draft.typeSuggestions as OpportunityTypeSuggestion[] | null;
+    const suggestions =
+      stored ?? this.classifyWithRules(draft, await this.getCandidateTypes(db));
+
+    if (suggestions.length) {
+      const existing = await db.opportunityType.findMany({
+        where: {
+          id: { in: suggestions.map((item) => item.opportunityTypeId) },
+        },
+        select: { id: true },
+      });
+      if (existing.length) return existing.map((type) => type.id);
+    }
+
+    const defaultType = await db.opportunityType.findFirst({
+      where: { name: DEFAULT_OPPORTUNITY_TYPE },
+    });
+    return defaultType ? [defaultType.id] : [];
+  }
+
+  private async classifyWithLLM(
+    draft: ClassifiableDraft,
+    types: OpportunityTypeOption[]
+  ): Promise<OpportunityTypeSuggestion[]> {
+    const response = await retry(
+      () =>
+        aiRouter.generate({
+          prompt: classifyOpportunityTypePrompt(
+            this.describe(draft),
+            types.map((type) => type.name)
+          ),
+        }),
+      { retries: 2, minTimeout: 1000, maxTimeout: 5000 }
+    );
+    const result: {
+      types?: { name?: string; confidence?: number; reason?: string }[];
+    } = cleanLLMJson({ response, requiredFields: ['types'] });
+
+    if (!Array.isArray(result.types)) {
+      throw new Error('Response types must be a list');
+    }
+
+    const byName = new Map(
+      types.map((type) => [type.name.toLowerCase(), type])
+    );
+    const suggestions: OpportunityTypeSuggestion[] = [];
+
+    for (const item of result.types) {
+      const type = byName.get(String(item.name ?? '').toLowerCase());
+      const confidence = Math.min(1, Math.max(0, Number(item.confidence)));
+      if (
+        !type ||
+        !(confidence >= MIN_CONFIDENCE) ||
+        suggestions.some((s) => s.opportunityTypeId === type.id)
+      ) {
+        continue;
+      }
+
+      suggestions.push({
+        opportunityTypeId: type.id,
+        name: type.name,
+        confidence,
+        method: 'LLM',
+        reason: item.reason || 'Suggested by the classifier',
+      });
+    }
+
+    return this.rank(suggestions);
+  }
+
+  private classifyWithRules(
+    draft: ClassifiableDraft,
+    types: OpportunityTypeOption[]
+  ): OpportunityTypeSuggestion[] {
+    const title = draft.title;
+    const body = this.describe(draft);
+    const suggestions: OpportunityTypeSuggestion[] = [];
+
+    for (const type of types) {
+      const keywords = TYPE_KEYWORDS[type.name.toLowerCase()] ?? [
+        type.name.toLowerCase(),
+      ];
+      const titleHits = this.matchKeywords(title, keywords);
+      const bodyHits = this.matchKeywords(body, keywords);
+      const confidence = Math.min(
+        1,
+        (titleHits.length * 2 + bodyHits.length) * RULES_CONFIDENCE_PER_HIT
+      );
+      if (confidence < MIN_CONFIDENCE) continue;
+
+      suggestions.push({
+        opportunityTypeId: type.id,
+        name: type.name,
+        confidence,
+        method: 'RULES',
+        reason: `Mentions ${[...new Set([...titleHits, ...bodyHits])]
+          .map((keyword) => `"${keyword}"`)
+          .join(', ')}`,
+      });
+    }
+
+    return this.rank(suggestions);
+  }
+
+  /**
+   * The type the crawl source put on the listing, when it names an
+   * existing type. Scrapers keep it in the raw data as opportunity_type
+   * (listings) or opportunityType (LLM details).
+   */
+  private matchSourceLabel(
+    draft: ClassifiableDraft,
+    types: OpportunityTypeOption[]
+  ): OpportunityTypeSuggestion | null {
+    const raw = (draft.rawScrapedData ?? {}) as Record<string, any>;
+    const label = [
+      raw.details?.opportunityType,
+      raw.listing?.opportunity_type,
+      raw.opportunity_type,
+      raw.opportunityType,
+    ].find((value) => typeof value === 'string' && value.trim());
+    if (!label) return null;
+
+    const singular = (value: string) =>
+      value.trim().toLowerCase().replace(/s$/, '');
+    const type = types.find((item) => singular(item.name) === singular(label));
+
+    return type
+      ? {
+          opportunityTypeId: type.id,
+          name: type.name,
+          confidence: 1,
+          method: 'SOURCE',
+          reason: `Listed as "${label.trim()}" by the source`,
+        }
+      : null;
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Helper Methods
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private getCandidateTypes(
+    db: Prisma.TransactionClient
+  ): Promise<OpportunityTypeOption[]> {
+    return db.opportunityType.findMany({
+      where: { name: { not: DEFAULT_OPPORTUNITY_TYPE } },
+      select: { id: true, name: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  private describe(draft: ClassifiableDraft): string {
+    return [
+      `Title: ${draft.title}`,
+      `Organization: ${draft.organization}`,
+      draft.compensation && `Compensation: ${draft.compensation}`,
+      draft.duration && `Duration: ${draft.duration}`,
+      draft.requirements.length &&
+        `Requirements: ${draft.requirements.join('; ')}`,
+      draft.eligibility.length &&
+        `Eligibility: ${draft.eligibility.join('; ')}`,
+      `Description: ${draft.description.slice(0, MAX_DESCRIPTION_LENGTH)}`,
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  private rank(
+    suggestions: OpportunityTypeSuggestion[]
+  ): OpportunityTypeSuggestion[] {
+    return suggestions
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  private matchKeywords(text: string, keywords: string[]): string[] {
+    return keywords.filter((keyword) => {
+      const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      return new RegExp(`(?<!\\w)${escaped}(?!\\w)`, 'i').test(text);
+    });
+  }
+}
+
+export const opportunityTypeClassifierService =
+  new OpportunityTypeClassifierService();
+export default opportunityTypeClassifierService;
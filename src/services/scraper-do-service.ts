@@ -2,35 +2,32 @@ import axios from 'axios';
 import retry from 'async-retry';
 import redis from '../config/redis';
 import { config } from '../config/envars';
+import { Fetcher, FetchResponse } from './fetchers/base-fetcher';
+import { parseRetryAfter } from '../utils/retry-after';
 
-type Response<T> = {
-  data: T;
-  error: string | null;
-};
-
-export class ScraperDoService {
-  private response: Response<null | string> = {
-    data: null,
-    error: null,
-  };
+export class ScraperDoService implements Fetcher {
+  fetcherType = 'SCRAPER_DO' as const;
 
   private getCacheKey(url: string): string {
     return `scraper:${url}`;
   }
 
-  async scrape(targetUrl: string) {
+  fetch(url: string): Promise<FetchResponse> {
+    return this.scrape(url);
+  }
+
+  async scrape(targetUrl: string): Promise<FetchResponse> {
     try {
       const cacheKey = this.getCacheKey(targetUrl);
       const cachedData = await redis.get(cacheKey);
 
       if (cachedData) {
         console.log('Cache hit for:', targetUrl);
-        this.response.data = cachedData;
-        return this.response;
+        return { data: cachedData, error: null };
       }
 
       return await retry(
-        async () => {
+        async (bail) => {
           const encodedUrl = encodeURIComponent(targetUrl);
           const render = 'false'; // render js
           const superProxy = 'true'; // proxy
@@ -40,24 +37,28 @@ export class ScraperDoService {
           const response = await axios({
             method: 'GET',
             url: apiUrl,
+            responseType: 'text',
+          }).catch((error) => {
+            // Throttling is handled by the rate limited fetcher
+            if ([429, 503].includes(error?.response?.status)) bail(error);
+            throw error;
           });
 
           const data = response?.data;
 
           if (!data) throw new Error('No data returned from scraper.do');
 
-          this.response.error = null;
-          this.response.data = data;
+          const body = typeof data === 'string' ? data : JSON.stringify(data);
 
-          // Cache the successful response
+          // Cache the raw body so cache hits return the same payload
           await redis.set(
             cacheKey,
-            JSON.stringify(data),
+            body,
             'EX',
             60 * 60 * 24 // Cache for 24 hours
           );
 
-          return this.response;
+          return { data: body, error: null };
         },
         {
           retries: 3,
@@ -69,8 +70,12 @@ export class ScraperDoService {
       );
     } catch (e: any) {
       console.log(`Error scraping ${targetUrl}: `, e);
-      this.response.error = e?.response?.message || e?.message;
-      return this.response;
+      return {
+        data: null,
+        error: e?.response?.message || e?.message,
+        status: e?.response?.status,
+        retryAfterMs: parseRetryAfter(e?.response?.headers?.['retry-after']),
+      };
     }
   }
 }
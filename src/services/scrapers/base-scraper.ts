@@ -1,4 +1,7 @@
 import { CreateOpportunityData } from '../../schemas/opportunity';
+import { ExtractionQualityReport } from '../../schemas/ai-draft';
+import { Fetcher } from '../fetchers/base-fetcher';
+import { scraperDo } from '../scraper-do-service';
 
 export interface OpportunityListing {
   opportunity_id: string;
@@ -7,6 +10,8 @@ export interface OpportunityListing {
   location?: string;
   deadline?: string;
   url?: string;
+  guid?: string; // Stable feed item identifier, used to skip seen items
+  excerpt?: string;
 }
 
 export interface OpportunityDetails {
@@ -27,6 +32,7 @@ export interface OpportunityDetails {
   duration?: string;
   eligibility: string[];
   rawData?: any; // Raw scraped data for debugging
+  quality?: ExtractionQualityReport; // Set by scrapers that extract with an LLM
 }
 
 export interface ScrapingResult {
@@ -37,7 +43,34 @@ export interface ScrapingResult {
 }
 
 export abstract class BaseScraper {
-  abstract scraperType: 'INDEED' | 'OPPORTUNITY_FOR_AFRICANS' | 'LINKEDIN';
+  abstract scraperType:
+    | 'INDEED'
+    | 'OPPORTUNITY_FOR_AFRICANS'
+    | 'LINKEDIN'
+    | 'GENERIC_SELECTOR'
+    | 'FEED';
+
+  protected fetcher: Fetcher = scraperDo;
+
+  /**
+   * Returns a copy of this scraper that fetches pages through the given
+   * fetcher, so registered singletons can be reused per crawl source
+   */
+  withFetcher(fetcher: Fetcher): this {
+    const scraper = Object.create(Object.getPrototypeOf(this));
+    return Object.assign(scraper, this, { fetcher });
+  }
+
+  /**
+   * Fetches a page body through the configured fetcher
+   */
+  protected async fetchHtml(url: string): Promise<string> {
+    const response = await this.fetcher.fetch(url);
+    if (!response?.data) {
+      throw new Error(response?.error || 'Error scraping ' + url);
+    }
+    return response.data;
+  }
 
   /**
    * Scrapes opportunity listings from a given URL
@@ -0,0 +1,297 @@
+import * as cheerio from 'cheerio';
+import {
+  BaseScraper,
+  OpportunityDetails,
+  OpportunityListing,
+  ScrapingResult,
+} from './base-scraper';
+import { convertHtmlToMarkdown } from '../../utils/html-to-md';
+import { extractFeedItemDetailsPrompt } from '../../constant/ai-prompts/feed-prompt';
+import { OpportunityDetailsResp } from '../../types/scraper.types';
+import { CreateOpportunityData } from '../../schemas/opportunity';
+import { extractionQualityService } from '../extraction-quality-service';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+type XmlSelection = ReturnType<cheerio.CheerioAPI>;
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  summary?: string;
+  content_text?: string;
+  content_html?: string;
+  author?: { name?: string };
+  authors?: Array<{ name?: string }>;
+}
+
+const MAX_EXCERPT_LENGTH = 2000;
+
+/**
+ * Ingests RSS 2.0, Atom and JSON Feed documents. Listings come straight from
+ * the feed (no LLM call); each item's guid lets the queue skip items it has
+ * already seen. Details are extracted from the linked page.
+ */
+export class FeedScraper extends BaseScraper {
+  scraperType = 'FEED' as const;
+
+  getDisplayName(): string {
+    return 'RSS / Atom / JSON Feed';
+  }
+
+  getSupportedDomains(): string[] {
+    return [];
+  }
+
+  // Feeds can live on any domain; the scraper type has to be chosen explicitly
+  isUrlCompatible(_url: string): boolean {
+    return false;
+  }
+
+  // Feed item links are stored as absolute URLs, so the id is the details page
+  constructOpportunityDetailsPage(opportunityId: string): string {
+    return opportunityId;
+  }
+
+  async scrapeOpportunityListing(url: string): Promise<ScrapingResult> {
+    try {
+      const body = await this.fetchHtml(url);
+      const listings = this.parseFeed(body, url);
+
+      return {
+        success: true,
+        opportunity_listings: listings,
+        total_found: listings.length,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        opportunity_listings: [],
+        total_found: 0,
+        errors: [error.message],
+      };
+    }
+  }
+
+  async scrapeOpportunityDetails(
+    opportunityId: string
+  ): Promise<OpportunityDetails> {
+    const html = await this.fetchHtml(opportunityId);
+    const markdown = convertHtmlToMarkdown(html);
+    const prompt = extractFeedItemDetailsPrompt(markdown);
+
+    const { data: extracted, quality } =
+      await extractionQualityService.extractDetails<OpportunityDetailsResp>(
+        prompt,
+        markdown
+      );
+
+    return {
+      id: opportunityId,
+      title: extracted.title || '',
+      organization: extracted.organization || '',
+      description: extracted.description || '',
+      requirements: extracted.requirements || [],
+      benefits: extracted.benefits || [],
+      compensation: extracted.compensation || undefined,
+      compensationType: extracted.compensationType || undefined,
+      locations: extracted.locations || [],
+      isRemote: !!extracted.isRemote,
+      deadline: extracted.deadline || '',
+      applicationUrl: extracted.applicationUrl || opportunityId,
+      contactEmail: extracted.contactEmail || '',
+      experienceLevel: extracted.experienceLevel || undefined,
+      duration: extracted.duration || '',
+      eligibility: extracted.eligibility || [],
+      rawData: extracted,
+      quality,
+    };
+  }
+
+  async convertToOpportunityFormat(
+    detailsData: OpportunityDetails,
+    opportunityTypeId: string
+  ): Promise<CreateOpportunityData> {
+    return {
+      title: detailsData.title,
+      organization: detailsData.organization,
+      description: detailsData.description,
+      requirements: detailsData.requirements,
+      benefits: detailsData.benefits,
+      compensation: detailsData.compensation || '',
+      compensationType: (detailsData.compensationType as any) || undefined,
+      locations: detailsData.locations,
+      isRemote: detailsData.isRemote,
+      deadline: detailsData.deadline,
+      applicationUrl: detailsData.applicationUrl || '',
+      contactEmail: detailsData.contactEmail || '',
+      experienceLevel: detailsData.experienceLevel || 'any',
+      duration: detailsData.duration || '',
+      eligibility: detailsData.eligibility,
+      opportunityTypeIds: [opportunityTypeId],
+    };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Feed Parsers
+  // ───────────────────────────────────────────────────────────────────────────
+
+  detectFormat(body: string): FeedFormat {
+    const trimmed = body.trim();
+    if (trimmed.startsWith('{')) return 'json';
+    if (/<feed[\s>]/i.test(trimmed.slice(0, 1000))) return 'atom';
+    if (/<(rss|rdf:RDF)[\s>]/i.test(trimmed.slice(0, 1000))) return 'rss';
+    throw new Error('Unrecognised feed format');
+  }
+
+  parseFeed(body: string, feedUrl: string): OpportunityListing[] {
+    const listings: OpportunityListing[] = [];
+    const seen = new Set<string>();
+
+    for (const listing of this.parseItems(body, feedUrl)) {
+      if (seen.has(listing.opportunity_id)) continue;
+      seen.add(listing.opportunity_id);
+      listings.push(listing);
+    }
+
+    return listings;
+  }
+
+  private parseItems(body: string, feedUrl: string): OpportunityListing[] {
+    switch (this.detectFormat(body)) {
+      case 'json':
+        return this.parseJsonFeed(body, feedUrl);
+      case 'atom':
+        return this.parseAtomFeed(body, feedUrl);
+      case 'rss':
+        return this.parseRssFeed(body, feedUrl);
+    }
+  }
+
+  private parseRssFeed(xml: string, feedUrl: string): OpportunityListing[] {
+    const $ = cheerio.load(xml, { xml: true });
+    const listings: OpportunityListing[] = [];
+
+    $('item').each((_, element) => {
+      const item = $(element);
+      const link = this.resolveUrl(
+        this.text(item.children('link')) || item.attr('rdf:about'),
+        feedUrl
+      );
+      const guid = this.text(item.children('guid')) || link;
+
+      const listing = this.buildListing({
+        link,
+        guid,
+        title: this.text(item.children('title')),
+        organization: this.text(item.children('dc\\:creator, author')),
+        content:
+          this.text(item.children('content\\:encoded')) ||
+          this.text(item.children('description')),
+      });
+      if (listing) listings.push(listing);
+    });
+
+    return listings;
+  }
+
+  private parseAtomFeed(xml: string, feedUrl: string): OpportunityListing[] {
+    const $ = cheerio.load(xml, { xml: true });
+    const listings: OpportunityListing[] = [];
+
+    $('entry').each((_, element) => {
+      const entry = $(element);
+      const links = entry.children('link');
+      const alternate = links
+        .filter(
+          (_, link) => ($(link).attr('rel') || 'alternate') === 'alternate'
+        )
+        .first();
+      const link = this.resolveUrl(
+        (alternate.length ? alternate : links.first()).attr('href'),
+        feedUrl
+      );
+
+      const listing = this.buildListing({
+        link,
+        guid: this.text(entry.children('id')) || link,
+        title: this.text(entry.children('title')),
+        organization: this.text(entry.children('author').children('name')),
+        content:
+          this.text(entry.children('content')) ||
+          this.text(entry.children('summary')),
+      });
+      if (listing) listings.push(listing);
+    });
+
+    return listings;
+  }
+
+  private parseJsonFeed(json: string, feedUrl: string): OpportunityListing[] {
+    const feed = JSON.parse(json);
+    if (!Array.isArray(feed?.items)) {
+      throw new Error('Invalid JSON Feed: missing items array');
+    }
+
+    return (feed.items as JsonFeedItem[])
+      .map((item) => {
+        const link = this.resolveUrl(item.url || item.external_url, feedUrl);
+
+        return this.buildListing({
+          link,
+          guid: item.id !== undefined ? String(item.id) : link,
+          title: item.title || '',
+          organization: item.authors?.[0]?.name || item.author?.name,
+          content: item.content_html || item.content_text || item.summary,
+        });
+      })
+      .filter((listing): listing is OpportunityListing => !!listing);
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Helper Methods
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private buildListing(item: {
+    link: string | null;
+    guid: string | null;
+    title: string;
+    organization?: string;
+    content?: string;
+  }): OpportunityListing | null {
+    if (!item.link || !item.title) return null;
+
+    const excerpt = item.content
+      ? convertHtmlToMarkdown(item.content).slice(0, MAX_EXCERPT_LENGTH)
+      : undefined;
+
+    return {
+      opportunity_id: item.link,
+      // Titles may carry escaped markup (Atom type="html", double-encoded RSS)
+      title: cheerio.load(item.title).text().replace(/\s+/g, ' ').trim(),
+      organization: item.organization || undefined,
+      url: item.link,
+      guid: item.guid || item.link,
+      excerpt,
+    };
+  }
+
+  private text(selection: XmlSelection): string {
+    return selection.first().text().trim();
+  }
+
+  private resolveUrl(href: string | undefined, baseUrl: string): string | null {
+    if (!href) return null;
+
+    try {
+      return new URL(href.trim(), baseUrl).toString();
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const feedScraper = new FeedScraper();
+export default feedScraper;
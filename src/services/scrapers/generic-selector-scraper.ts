@@ -0,0 +1,292 @@
+import * as cheerio from 'cheerio';
+import {
+  BaseScraper,
+  OpportunityDetails,
+  OpportunityListing,
+  ScrapingResult,
+} from './base-scraper';
+import { convertHtmlToMarkdown } from '../../utils/html-to-md';
+import { CreateOpportunityData } from '../../schemas/opportunity';
+import {
+  CssSelectorMap,
+  cssSelectorMapSchema,
+} from '../../schemas/crawl-source';
+import { isRemoteWork } from './job-attribute-mapper';
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+const DEFAULT_MAX_PAGES = 3;
+const DEFAULT_TITLE_SELECTOR = 'h1';
+const DEFAULT_DESCRIPTION_SELECTORS = ['article', 'main', 'body'];
+
+/**
+ * Scraper driven entirely by the selector map stored on the crawl source, so
+ * new sites can be onboarded without code changes or LLM calls. The instance
+ * registered in the factory is unconfigured; use withSelectors() per source.
+ */
+export class GenericSelectorScraper extends BaseScraper {
+  scraperType = 'GENERIC_SELECTOR' as const;
+
+  constructor(private readonly selectors?: CssSelectorMap) {
+    super();
+  }
+
+  /**
+   * Returns a scraper configured with the crawl source's cssSelectors JSON
+   */
+  withSelectors(cssSelectors: string | null | undefined) {
+    if (!cssSelectors) {
+      throw new Error('GENERIC_SELECTOR crawl sources require cssSelectors');
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(cssSelectors);
+    } catch {
+      throw new Error('cssSelectors is not valid JSON');
+    }
+
+    return new GenericSelectorScraper(cssSelectorMapSchema.parse(raw));
+  }
+
+  getDisplayName(): string {
+    return 'Generic CSS Selector';
+  }
+
+  getSupportedDomains(): string[] {
+    return [];
+  }
+
+  // Never auto-detected by URL; the scraper type has to be chosen explicitly
+  isUrlCompatible(_url: string): boolean {
+    return false;
+  }
+
+  // Listing links are stored as absolute URLs, so the id is the details page
+  constructOpportunityDetailsPage(opportunityId: string): string {
+    return opportunityId;
+  }
+
+  async scrapeOpportunityListing(url: string): Promise<ScrapingResult> {
+    try {
+      const selectors = this.getSelectors();
+      const maxPages = selectors.maxPages || DEFAULT_MAX_PAGES;
+      const listings: OpportunityListing[] = [];
+      const visited = new Set<string>();
+      const seen = new Set<string>();
+      let pageUrl: string | null = url;
+
+      while (pageUrl && visited.size < maxPages && !visited.has(pageUrl)) {
+        visited.add(pageUrl);
+
+        const html = await this.fetchHtml(pageUrl);
+        for (const listing of this.parseListings(html, pageUrl)) {
+          if (seen.has(listing.opportunity_id)) continue;
+          seen.add(listing.opportunity_id);
+          listings.push(listing);
+        }
+
+        pageUrl = this.parseNextPageUrl(html, pageUrl);
+      }
+
+      return {
+        success: true,
+        opportunity_listings: listings,
+        total_found: listings.length,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        opportunity_listings: [],
+        total_found: 0,
+        errors: [error.message],
+      };
+    }
+  }
+
+  async scrapeOpportunityDetails(
+    opportunityId: string
+  ): Promise<OpportunityDetails> {
+    const html = await this.fetchHtml(opportunityId);
+    return this.parseDetails(html, opportunityId);
+  }
+
+  async convertToOpportunityFormat(
+    detailsData: OpportunityDetails,
+    opportunityTypeId: string
+  ): Promise<CreateOpportunityData> {
+    return {
+      title: detailsData.title,
+      organization: detailsData.organization,
+      description: detailsData.description,
+      requirements: detailsData.requirements,
+      benefits: detailsData.benefits,
+      compensation: detailsData.compensation || '',
+      compensationType: (detailsData.compensationType as any) || undefined,
+      locations: detailsData.locations,
+      isRemote: detailsData.isRemote,
+      deadline: detailsData.deadline,
+      applicationUrl: detailsData.applicationUrl || '',
+      contactEmail: detailsData.contactEmail || '',
+      experienceLevel: detailsData.experienceLevel || 'any',
+      duration: detailsData.duration || '',
+      eligibility: detailsData.eligibility,
+      opportunityTypeIds: [opportunityTypeId],
+    };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Markup Parsers
+  // ───────────────────────────────────────────────────────────────────────────
+
+  parseListings(html: string, pageUrl: string): OpportunityListing[] {
+    const selectors = this.getSelectors();
+    const $ = cheerio.load(html);
+    const listings: OpportunityListing[] = [];
+
+    $(selectors.item).each((_, element) => {
+      const item = $(element);
+      const title = this.extract(item, selectors.title);
+      const href =
+        this.extract(item, this.withAttribute(selectors.link, 'href')) ||
+        item.attr('href');
+      const link = this.resolveUrl(href, pageUrl);
+      if (!title || !link) return;
+
+      listings.push({
+        opportunity_id: link,
+        title,
+        organization: this.extract(item, selectors.organization) || undefined,
+        location: this.extract(item, selectors.location) || undefined,
+        deadline: this.extract(item, selectors.deadline) || undefined,
+        url: link,
+      });
+    });
+
+    return listings;
+  }
+
+  parseNextPageUrl(html: string, pageUrl: string): string | null {
+    const { nextPage } = this.getSelectors();
+    if (!nextPage) return null;
+
+    const $ = cheerio.load(html);
+    const href = this.extract($.root(), this.withAttribute(nextPage, 'href'));
+    return this.resolveUrl(href, pageUrl);
+  }
+
+  parseDetails(html: string, pageUrl: string): OpportunityDetails {
+    const details = this.getSelectors().details || {};
+    const $ = cheerio.load(html);
+    const root = $.root();
+
+    const descriptionHtml = this.findHtml(
+      $,
+      details.description
+        ? [details.description]
+        : DEFAULT_DESCRIPTION_SELECTORS
+    );
+    const location = this.extract(root, details.location);
+    const title = this.extract(root, details.title || DEFAULT_TITLE_SELECTOR);
+
+    return {
+      id: pageUrl,
+      title,
+      organization: this.extract(root, details.organization),
+      description: descriptionHtml
+        ? convertHtmlToMarkdown(descriptionHtml)
+        : '',
+      requirements: this.extractList($, details.requirements),
+      benefits: this.extractList($, details.benefits),
+      locations: location ? [location] : [],
+      isRemote: isRemoteWork(location, title),
+      deadline: this.extract(root, details.deadline),
+      applicationUrl:
+        this.resolveUrl(
+          this.extract(
+            root,
+            details.applicationUrl &&
+              this.withAttribute(details.applicationUrl, 'href')
+          ),
+          pageUrl
+        ) || pageUrl,
+      eligibility: this.extractList($, details.eligibility),
+      rawData: { selectors: details },
+    };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Helper Methods
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private getSelectors(): CssSelectorMap {
+    if (!this.selectors) {
+      throw new Error('Generic selector scraper is not configured');
+    }
+    return this.selectors;
+  }
+
+  /**
+   * Reads the text of the first match, or an attribute for "selector@attr"
+   */
+  private extract(scope: Selection, selector?: string): string {
+    if (!selector) return '';
+
+    const [css, attribute] = this.splitSelector(selector);
+    const match = css ? scope.find(css).first() : scope;
+    const value = attribute ? match.attr(attribute) : match.text();
+
+    return (value || '').replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Each matched element becomes an entry; matched lists are split per <li>
+   */
+  private extractList($: cheerio.CheerioAPI, selector?: string): string[] {
+    if (!selector) return [];
+
+    const [css] = this.splitSelector(selector);
+    const matches = $(css);
+    const items = matches.find('li').length ? matches.find('li') : matches;
+
+    return items
+      .map((_, element) => $(element).text().replace(/\s+/g, ' ').trim())
+      .get()
+      .filter(Boolean);
+  }
+
+  private findHtml($: cheerio.CheerioAPI, selectors: string[]): string {
+    for (const selector of selectors) {
+      const html = $(selector).first().html()?.trim();
+      if (html) return html;
+    }
+    return '';
+  }
+
+  private splitSelector(selector: string): [string, string | undefined] {
+    const match = selector.match(/^(.*)@([\w:-]+)$/);
+    if (!match) return [selector.trim(), undefined];
+    return [match[1].trim(), match[2]];
+  }
+
+  private withAttribute(selector: string, attribute: string): string {
+    return this.splitSelector(selector)[1]
+      ? selector
+      : `${selector}@${attribute}`;
+  }
+
+  private resolveUrl(href: string | undefined, baseUrl: string): string | null {
+    if (!href || href.startsWith('#') || href.startsWith('javascript:')) {
+      return null;
+    }
+
+    try {
+      return new URL(href, baseUrl).toString();
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const genericSelectorScraper = new GenericSelectorScraper();
+export default genericSelectorScraper;
@@ -1,9 +1,43 @@
+import * as cheerio from 'cheerio';
+import retry from 'async-retry';
 import {
   BaseScraper,
   OpportunityDetails,
+  OpportunityListing,
   ScrapingResult,
 } from './base-scraper';
+import { convertHtmlToMarkdown } from '../../utils/html-to-md';
+import cleanLLMJson from '../../utils/clean-llm-json';
+import {
+  extractIndeedDetailsPrompt,
+  extractIndeedListingsPrompt,
+} from '../../constant/ai-prompts/indeed-prompt';
+import { OpportunityDetailsResp } from '../../types/scraper.types';
 import { CreateOpportunityData } from '../../schemas/opportunity';
+import aiRouter from '../../constant/ai';
+import {
+  CheckedExtraction,
+  extractionQualityService,
+} from '../extraction-quality-service';
+import logger from '../../config/logger';
+import {
+  isRemoteWork,
+  mapCompensationType,
+  mapExperienceLevel,
+} from './job-attribute-mapper';
+
+export interface IndeedJobDetailsMarkup {
+  title: string;
+  organization: string;
+  location: string;
+  salary: string;
+  jobTypes: string[];
+  descriptionHtml: string;
+  applicationUrl?: string;
+}
+
+const DEFAULT_HOST = 'www.indeed.com';
+const MAX_LISTING_PAGES = 3;
 
 export class IndeedScraper extends BaseScraper {
   scraperType = 'INDEED' as const;
@@ -13,7 +47,27 @@ export class IndeedScraper extends BaseScraper {
   }
 
   getSupportedDomains(): string[] {
-    return ['indeed.com', 'www.indeed.com', 'ng.indeed.com', 'za.indeed.com'];
+    return [
+      'indeed.com',
+      'www.indeed.com',
+      'ng.indeed.com',
+      'za.indeed.com',
+      'eg.indeed.com',
+      'ma.indeed.com',
+      'uk.indeed.com',
+      'ie.indeed.com',
+      'ca.indeed.com',
+      'au.indeed.com',
+      'nz.indeed.com',
+      'in.indeed.com',
+      'sg.indeed.com',
+      'ae.indeed.com',
+      'de.indeed.com',
+      'fr.indeed.com',
+      'nl.indeed.com',
+      'es.indeed.com',
+      'it.indeed.com',
+    ];
   }
 
   isUrlCompatible(url: string): boolean {
@@ -25,36 +79,120 @@ export class IndeedScraper extends BaseScraper {
     }
   }
 
+  /**
+   * Opportunity IDs are the Indeed job key ("jk"), prefixed with the regional
+   * host when the job was found outside www.indeed.com, e.g. "ng.indeed.com:3f9b2c1d"
+   */
   constructOpportunityDetailsPage(opportunityId: string): string {
-    return `https://indeed.com/viewjob?jk=${opportunityId}`;
+    const { host, jobKey } = this.parseOpportunityId(opportunityId);
+    return `https://${host}/viewjob?jk=${encodeURIComponent(jobKey)}`;
   }
 
   async scrapeOpportunityListing(url: string): Promise<ScrapingResult> {
-    // TODO: Implement Indeed listing scraping
-    console.log(`IndeedScraper: Scraping listing from ${url}`);
+    try {
+      const listings: OpportunityListing[] = [];
+      const seen = new Set<string>();
+      let pageUrl: string | null = url;
 
-    return {
-      success: false,
-      opportunity_listings: [],
-      total_found: 0,
-      errors: ['Indeed scraper not yet implemented'],
-    };
+      for (let page = 0; pageUrl && page < MAX_LISTING_PAGES; page++) {
+        const html = await this.fetchHtml(pageUrl);
+
+        let pageListings = this.parseJobCards(html, pageUrl);
+        if (!pageListings.length) {
+          logger.warn('Indeed job cards not found, falling back to AI', {
+            url: pageUrl,
+          });
+          pageListings = await this.extractListingsWithAI(html, pageUrl);
+        }
+
+        for (const listing of pageListings) {
+          if (seen.has(listing.opportunity_id)) continue;
+          seen.add(listing.opportunity_id);
+          listings.push(listing);
+        }
+
+        pageUrl = this.parseNextPageUrl(html, pageUrl);
+      }
+
+      return {
+        success: true,
+        opportunity_listings: listings,
+        total_found: listings.length,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        opportunity_listings: [],
+        total_found: 0,
+        errors: [error.message],
+      };
+    }
   }
 
   async scrapeOpportunityDetails(
     opportunityId: string
   ): Promise<OpportunityDetails> {
-    // TODO: Implement Indeed details scraping
-    console.log(`IndeedScraper: Scraping details for ${opportunityId}`);
+    const pageUrl = this.constructOpportunityDetailsPage(opportunityId);
+    const html = await this.fetchHtml(pageUrl);
+
+    const markup = this.parseJobDetails(html, pageUrl);
+    const markdown = convertHtmlToMarkdown(markup.descriptionHtml || html);
+    const source = [
+      markup.title,
+      markup.organization,
+      markup.location,
+      markdown,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+    const { data: extracted, repair } = await this.extractDetailsWithAI(source);
+
+    const compensation = markup.salary || extracted.compensation || undefined;
 
-    throw new Error('Indeed scraper not yet implemented');
+    const details: OpportunityDetails = {
+      id: opportunityId,
+      title: markup.title || extracted.title || '',
+      organization: markup.organization || extracted.organization || '',
+      description: extracted.description || markdown,
+      requirements: extracted.requirements || [],
+      benefits: extracted.benefits || [],
+      compensation,
+      compensationType:
+        mapCompensationType(compensation, ...markup.jobTypes) ||
+        extracted.compensationType ||
+        undefined,
+      locations: markup.location
+        ? [markup.location]
+        : extracted.locations || [],
+      isRemote:
+        isRemoteWork(markup.location, ...markup.jobTypes) ||
+        !!extracted.isRemote,
+      deadline: extracted.deadline || '',
+      applicationUrl:
+        markup.applicationUrl || extracted.applicationUrl || pageUrl,
+      contactEmail: extracted.contactEmail || '',
+      experienceLevel: mapExperienceLevel(
+        ...markup.jobTypes,
+        extracted.experienceLevel,
+        markup.title
+      ),
+      duration: extracted.duration || '',
+      eligibility: extracted.eligibility || [],
+      rawData: { markup: { ...markup, descriptionHtml: undefined }, extracted },
+    };
+
+    // Rate the combined details so values taken from the markup are not
+    // reported with the confidence of the LLM output they replaced
+    return {
+      ...details,
+      quality: extractionQualityService.assess(details, { source, ...repair }),
+    };
   }
 
   async convertToOpportunityFormat(
     detailsData: OpportunityDetails,
     opportunityTypeId: string
   ): Promise<CreateOpportunityData> {
-    // TODO: Implement Indeed data conversion
     return {
       title: detailsData.title,
       organization: detailsData.organization,
@@ -62,18 +200,206 @@ export class IndeedScraper extends BaseScraper {
       requirements: detailsData.requirements,
       benefits: detailsData.benefits,
       compensation: detailsData.compensation || '',
-      compensationType: (detailsData.compensationType as any) || 'UNKNOWN',
+      compensationType: (detailsData.compensationType as any) || undefined,
       locations: detailsData.locations,
       isRemote: detailsData.isRemote,
       deadline: detailsData.deadline,
       applicationUrl: detailsData.applicationUrl || '',
       contactEmail: detailsData.contactEmail || '',
-      experienceLevel: detailsData.experienceLevel || '',
+      experienceLevel: detailsData.experienceLevel || 'any',
       duration: detailsData.duration || '',
       eligibility: detailsData.eligibility,
       opportunityTypeIds: [opportunityTypeId],
     };
   }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Markup Parsers
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Deterministically parses the job cards of an Indeed search results page
+   */
+  parseJobCards(html: string, pageUrl: string): OpportunityListing[] {
+    const $ = cheerio.load(html);
+    const host = this.getHost(pageUrl);
+    const listings: OpportunityListing[] = [];
+
+    $('a[data-jk], a.jcs-JobTitle, h2.jobTitle a').each((_, element) => {
+      const link = $(element);
+      const href = link.attr('href') || '';
+      const jobKey =
+        link.attr('data-jk') || this.getJobKeyFromHref(href, pageUrl);
+      if (!jobKey) return;
+
+      const card = link.closest('.job_seen_beacon, .cardOutline, .result, li');
+      const title = (
+        link.find('span[title]').attr('title') ||
+        link.find('span').first().text() ||
+        link.text()
+      ).trim();
+      if (!title) return;
+
+      listings.push({
+        opportunity_id: this.buildOpportunityId(host, jobKey),
+        title,
+        organization:
+          this.text(card.find('[data-testid="company-name"], .companyName')) ||
+          undefined,
+        location:
+          this.text(
+            card.find('[data-testid="text-location"], .companyLocation')
+          ) || undefined,
+        url: `https://${host}/viewjob?jk=${jobKey}`,
+      });
+    });
+
+    return listings;
+  }
+
+  /**
+   * Deterministically parses the header, salary and description of an
+   * Indeed job posting page
+   */
+  parseJobDetails(html: string, pageUrl: string): IndeedJobDetailsMarkup {
+    const $ = cheerio.load(html);
+
+    const jobTypes = $(
+      '#salaryInfoAndJobType span, [data-testid="jobsearch-JobMetadataHeader-item"], [aria-label="Job type"] li'
+    )
+      .map((_, element) =>
+        $(element)
+          .text()
+          .replace(/^[\s\-–]+/, '')
+          .trim()
+      )
+      .get()
+      .filter((value) => value && !/[0-9]/.test(value) && value !== '-');
+
+    const applyHref =
+      $('#applyButtonLinkContainer a').attr('href') ||
+      $('a[data-testid="apply-button"]').attr('href') ||
+      $('button[data-href]').attr('data-href');
+
+    return {
+      title: this.text(
+        $(
+          'h1.jobsearch-JobInfoHeader-title, [data-testid="jobsearch-JobInfoHeader-title"], h1'
+        ).first()
+      ).replace(/\s*-\s*job post$/i, ''),
+      organization: this.text(
+        $(
+          '[data-testid="inlineHeader-companyName"], [data-company-name="true"]'
+        ).first()
+      ),
+      location: this.text(
+        $(
+          '[data-testid="inlineHeader-companyLocation"], [data-testid="job-location"], #jobLocationText'
+        ).first()
+      ),
+      salary: this.text(
+        $('[data-testid="salary-snippet"], #salaryInfoAndJobType span')
+          .filter((_, element) => /[0-9]/.test($(element).text()))
+          .first()
+      ),
+      jobTypes: Array.from(new Set(jobTypes)),
+      descriptionHtml: $('#jobDescriptionText').html()?.trim() || '',
+      applicationUrl: applyHref
+        ? new URL(applyHref, pageUrl).toString()
+        : undefined,
+    };
+  }
+
+  parseNextPageUrl(html: string, pageUrl: string): string | null {
+    const $ = cheerio.load(html);
+    const href = $(
+      'a[data-testid="pagination-page-next"], a[aria-label="Next Page"], a[aria-label="Next"]'
+    )
+      .first()
+      .attr('href');
+    return href ? new URL(href, pageUrl).toString() : null;
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // AI Extraction
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private async extractListingsWithAI(
+    html: string,
+    pageUrl: string
+  ): Promise<OpportunityListing[]> {
+    const prompt = extractIndeedListingsPrompt(convertHtmlToMarkdown(html));
+    const host = this.getHost(pageUrl);
+
+    const result: { opportunity_listings?: OpportunityListing[] } = await retry(
+      async () =>
+        cleanLLMJson({
+          response: await aiRouter.generate({ prompt }),
+          requiredFields: ['opportunity_listings'],
+        }),
+      { retries: 3, minTimeout: 1000, maxTimeout: 5000 }
+    );
+
+    return (result.opportunity_listings || [])
+      .filter((listing) => listing?.opportunity_id && listing.title)
+      .map((listing) => ({
+        ...listing,
+        opportunity_id: this.buildOpportunityId(host, listing.opportunity_id),
+        url: `https://${host}/viewjob?jk=${listing.opportunity_id}`,
+      }));
+  }
+
+  private extractDetailsWithAI(
+    markdown: string
+  ): Promise<CheckedExtraction<OpportunityDetailsResp>> {
+    return extractionQualityService.extractDetails<OpportunityDetailsResp>(
+      extractIndeedDetailsPrompt(markdown),
+      markdown
+    );
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Helper Methods
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private text(selection: ReturnType<cheerio.CheerioAPI>): string {
+    return selection.text().replace(/\s+/g, ' ').trim();
+  }
+
+  private getHost(url: string): string {
+    try {
+      const hostname = new URL(url).hostname;
+      return hostname === 'indeed.com' ? DEFAULT_HOST : hostname;
+    } catch {
+      return DEFAULT_HOST;
+    }
+  }
+
+  private getJobKeyFromHref(href: string, pageUrl: string): string | null {
+    if (!href) return null;
+    try {
+      const params = new URL(href, pageUrl).searchParams;
+      return params.get('jk') || params.get('vjk');
+    } catch {
+      return null;
+    }
+  }
+
+  private buildOpportunityId(host: string, jobKey: string): string {
+    return host === DEFAULT_HOST ? jobKey : `${host}:${jobKey}`;
+  }
+
+  private parseOpportunityId(opportunityId: string): {
+    host: string;
+    jobKey: string;
+  } {
+    const separator = opportunityId.lastIndexOf(':');
+    if (separator === -1) return { host: DEFAULT_HOST, jobKey: opportunityId };
+    return {
+      host: opportunityId.slice(0, separator),
+      jobKey: opportunityId.slice(separator + 1),
+    };
+  }
 }
 
 export const indeedScraper = new IndeedScraper();
@@ -0,0 +1,90 @@
+export type ExperienceLevel =
+  | 'entry'
+  | 'mid'
+  | 'senior'
+  | 'executive'
+  | 'internship'
+  | 'any';
+
+export type CompensationType =
+  | 'salary'
+  | 'stipend'
+  | 'scholarship_amount'
+  | 'hourly'
+  | 'volunteer';
+
+const joinHints = (hints: Array<string | null | undefined>) =>
+  hints
+    .filter((hint): hint is string => !!hint)
+    .join(' ')
+    .toLowerCase();
+
+/**
+ * Maps seniority labels, employment types and job titles from job boards
+ * onto the experience levels accepted by the opportunity schemas
+ */
+export function mapExperienceLevel(
+  ...hints: Array<string | null | undefined>
+): ExperienceLevel {
+  const text = joinHints(hints);
+  if (!text) return 'any';
+
+  if (/\b(intern|internship|apprentice(ship)?)\b/.test(text)) {
+    return 'internship';
+  }
+  if (
+    /\b(executive|director|vice president|vp|chief|c-level|head of)\b/.test(
+      text
+    )
+  ) {
+    return 'executive';
+  }
+  if (/\b(mid-senior|senior|sr\.?|lead|principal|staff)\b/.test(text)) {
+    return 'senior';
+  }
+  if (/\b(mid|mid-level|intermediate|associate)\b/.test(text)) {
+    return 'mid';
+  }
+  if (
+    /\b(entry|entry-level|junior|jr\.?|graduate|trainee|fresher)\b/.test(text)
+  ) {
+    return 'entry';
+  }
+
+  return 'any';
+}
+
+/**
+ * Infers the compensation type from salary snippets and employment types,
+ * e.g. "₦150,000 a month" → salary, "$25 an hour" → hourly
+ */
+export function mapCompensationType(
+  ...hints: Array<string | null | undefined>
+): CompensationType | undefined {
+  const text = joinHints(hints);
+  if (!text) return undefined;
+
+  if (/\b(volunteer|unpaid)\b/.test(text)) return 'volunteer';
+  if (/\bstipend\b/.test(text)) return 'stipend';
+  if (/\b(scholarship|tuition)\b/.test(text)) return 'scholarship_amount';
+  if (/(\bhour\b|\bhourly\b|\/\s?hr\b|per hour)/.test(text)) return 'hourly';
+  if (
+    /(\b(salary|year|yearly|annum|annual|month|monthly|week|weekly)\b|\/\s?(yr|mo|wk)\b)/.test(
+      text
+    ) &&
+    /\d/.test(text)
+  ) {
+    return 'salary';
+  }
+
+  return undefined;
+}
+
+/**
+ * Detects remote or hybrid-remote work from location or job type text
+ */
+export function isRemoteWork(
+  ...hints: Array<string | null | undefined>
+): boolean {
+  return /\b(remote|work from home|wfh|telecommute)\b/.test(joinHints(hints));
+}
@@ -1,9 +1,52 @@
+import * as cheerio from 'cheerio';
 import {
   BaseScraper,
   OpportunityDetails,
+  OpportunityListing,
   ScrapingResult,
 } from './base-scraper';
+import { convertHtmlToMarkdown } from '../../utils/html-to-md';
+import { extractLinkedInDetailsPrompt } from '../../constant/ai-prompts/linkedin-prompt';
+import { OpportunityDetailsResp } from '../../types/scraper.types';
 import { CreateOpportunityData } from '../../schemas/opportunity';
+import {
+  CheckedExtraction,
+  extractionQualityService,
+} from '../extraction-quality-service';
+import {
+  ExperienceLevel,
+  isRemoteWork,
+  mapCompensationType,
+  mapExperienceLevel,
+} from './job-attribute-mapper';
+
+export interface LinkedInJobPostingMarkup {
+  title: string;
+  organization: string;
+  location: string;
+  salary: string;
+  seniorityLevel: string;
+  employmentType: string;
+  jobFunction: string;
+  industries: string;
+  descriptionHtml: string;
+  applicationUrl?: string;
+}
+
+const GUEST_SEARCH_URL =
+  'https://www.linkedin.com/jobs-guest/jobs/api/seeMoreJobPostings/search';
+const GUEST_POSTING_URL =
+  'https://www.linkedin.com/jobs-guest/jobs/api/jobPosting';
+const MAX_LISTING_PAGES = 4;
+
+const SENIORITY_LEVELS: Record<string, ExperienceLevel> = {
+  internship: 'internship',
+  'entry level': 'entry',
+  associate: 'mid',
+  'mid-senior level': 'senior',
+  director: 'executive',
+  executive: 'executive',
+};
 
 export class LinkedInScraper extends BaseScraper {
   scraperType = 'LINKEDIN' as const;
@@ -29,32 +72,109 @@ export class LinkedInScraper extends BaseScraper {
     return `https://www.linkedin.com/jobs/view/${opportunityId}`;
   }
 
+  /**
+   * Pages through the public (logged-out) job search results. A regular
+   * /jobs/search URL is translated to the guest endpoint with the same
+   * keywords, location and filter parameters.
+   */
   async scrapeOpportunityListing(url: string): Promise<ScrapingResult> {
-    // TODO: Implement LinkedIn listing scraping
-    console.log(`LinkedInScraper: Scraping listing from ${url}`);
+    try {
+      const listings: OpportunityListing[] = [];
+      const seen = new Set<string>();
+      let start = this.getStartOffset(url);
 
-    return {
-      success: false,
-      opportunity_listings: [],
-      total_found: 0,
-      errors: ['LinkedIn scraper not yet implemented'],
-    };
+      for (let page = 0; page < MAX_LISTING_PAGES; page++) {
+        const html = await this.fetchHtml(this.buildGuestSearchUrl(url, start));
+        const pageListings = this.parseJobCards(html);
+        if (!pageListings.length) break;
+
+        for (const listing of pageListings) {
+          if (seen.has(listing.opportunity_id)) continue;
+          seen.add(listing.opportunity_id);
+          listings.push(listing);
+        }
+
+        start += pageListings.length;
+      }
+
+      return {
+        success: true,
+        opportunity_listings: listings,
+        total_found: listings.length,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        opportunity_listings: [],
+        total_found: 0,
+        errors: [error.message],
+      };
+    }
   }
 
   async scrapeOpportunityDetails(
     opportunityId: string
   ): Promise<OpportunityDetails> {
-    // TODO: Implement LinkedIn details scraping
-    console.log(`LinkedInScraper: Scraping details for ${opportunityId}`);
+    const html = await this.fetchHtml(`${GUEST_POSTING_URL}/${opportunityId}`);
+    const markup = this.parseJobPosting(html);
+
+    if (!markup.title && !markup.descriptionHtml) {
+      throw new Error(`LinkedIn job posting not found: ${opportunityId}`);
+    }
+
+    const markdown = convertHtmlToMarkdown(markup.descriptionHtml || html);
+    const source = [
+      markup.title,
+      markup.organization,
+      markup.location,
+      markdown,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+    const { data: extracted, repair } = await this.extractDetailsWithAI(source);
 
-    throw new Error('LinkedIn scraper not yet implemented');
+    const compensation = markup.salary || extracted.compensation || undefined;
+
+    const details: OpportunityDetails = {
+      id: opportunityId,
+      title: markup.title || extracted.title || '',
+      organization: markup.organization || extracted.organization || '',
+      description: extracted.description || markdown,
+      requirements: extracted.requirements || [],
+      benefits: extracted.benefits || [],
+      compensation,
+      compensationType: mapCompensationType(
+        markup.employmentType,
+        compensation
+      ),
+      locations: markup.location
+        ? [markup.location]
+        : extracted.locations || [],
+      isRemote:
+        isRemoteWork(markup.location, markup.title) || !!extracted.isRemote,
+      deadline: extracted.deadline || '',
+      applicationUrl:
+        markup.applicationUrl ||
+        this.constructOpportunityDetailsPage(opportunityId),
+      contactEmail: extracted.contactEmail || '',
+      experienceLevel: this.mapSeniorityLevel(markup),
+      duration: extracted.duration || '',
+      eligibility: extracted.eligibility || [],
+      rawData: { markup: { ...markup, descriptionHtml: undefined }, extracted },
+    };
+
+    // Rate the combined details so values taken from the markup are not
+    // reported with the confidence of the LLM output they replaced
+    return {
+      ...details,
+      quality: extractionQualityService.assess(details, { source, ...repair }),
+    };
   }
 
   async convertToOpportunityFormat(
     detailsData: OpportunityDetails,
     opportunityTypeId: string
   ): Promise<CreateOpportunityData> {
-    // TODO: Implement LinkedIn data conversion
     return {
       title: detailsData.title,
       organization: detailsData.organization,
@@ -62,18 +182,166 @@ export class LinkedInScraper extends BaseScraper {
       requirements: detailsData.requirements,
       benefits: detailsData.benefits,
       compensation: detailsData.compensation || '',
-      compensationType: (detailsData.compensationType as any) || 'UNKNOWN',
+      compensationType: (detailsData.compensationType as any) || undefined,
       locations: detailsData.locations,
       isRemote: detailsData.isRemote,
       deadline: detailsData.deadline,
       applicationUrl: detailsData.applicationUrl || '',
       contactEmail: detailsData.contactEmail || '',
-      experienceLevel: detailsData.experienceLevel || '',
+      experienceLevel: detailsData.experienceLevel || 'any',
       duration: detailsData.duration || '',
       eligibility: detailsData.eligibility,
       opportunityTypeIds: [opportunityTypeId],
     };
   }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Markup Parsers
+  // ───────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Parses the job cards returned by the guest job search endpoint
+   */
+  parseJobCards(html: string): OpportunityListing[] {
+    const $ = cheerio.load(html);
+    const listings: OpportunityListing[] = [];
+
+    $('.base-card, .job-search-card').each((_, element) => {
+      const card = $(element);
+      const link =
+        card.find('a.base-card__full-link').attr('href') ||
+        card.attr('href') ||
+        '';
+      const jobId =
+        this.getJobIdFromUrn(card.attr('data-entity-urn')) ||
+        this.getJobIdFromUrl(link);
+      if (!jobId) return;
+
+      const title = this.text(card.find('.base-search-card__title'));
+      if (!title) return;
+
+      listings.push({
+        opportunity_id: jobId,
+        title,
+        organization:
+          this.text(card.find('.base-search-card__subtitle')) || undefined,
+        location:
+          this.text(card.find('.job-search-card__location')) || undefined,
+        url: this.constructOpportunityDetailsPage(jobId),
+      });
+    });
+
+    return listings;
+  }
+
+  /**
+   * Parses the top card, job criteria and description of a guest job posting
+   */
+  parseJobPosting(html: string): LinkedInJobPostingMarkup {
+    const $ = cheerio.load(html);
+
+    const criteria: Record<string, string> = {};
+    $('.description__job-criteria-item').each((_, element) => {
+      const item = $(element);
+      const label = this.text(
+        item.find('.description__job-criteria-subheader')
+      ).toLowerCase();
+      criteria[label] = this.text(item.find('.description__job-criteria-text'));
+    });
+
+    return {
+      title: this.text(
+        $('.top-card-layout__title, .topcard__title, h1, h2').first()
+      ),
+      organization: this.text($('.topcard__org-name-link').first()),
+      location: this.text(
+        $(
+          '.topcard__flavor--bullet, .topcard__flavor.topcard__flavor--bullet'
+        ).first()
+      ),
+      salary: this.text($('.compensation__salary, .salary').first()),
+      seniorityLevel: criteria['seniority level'] || '',
+      employmentType: criteria['employment type'] || '',
+      jobFunction: criteria['job function'] || '',
+      industries: criteria['industries'] || '',
+      descriptionHtml: (
+        $('.show-more-less-html__markup').first().html() ||
+        $('.description__text').first().html() ||
+        ''
+      ).trim(),
+      applicationUrl: this.parseOffsiteApplyUrl($),
+    };
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Helper Methods
+  // ───────────────────────────────────────────────────────────────────────────
+
+  private mapSeniorityLevel(markup: LinkedInJobPostingMarkup): ExperienceLevel {
+    if (/intern/i.test(markup.employmentType)) return 'internship';
+
+    const mapped = SENIORITY_LEVELS[markup.seniorityLevel.toLowerCase()];
+    return mapped || mapExperienceLevel(markup.employmentType, markup.title);
+  }
+
+  /**
+   * Off-site "Apply" links are embedded in an HTML comment inside code#applyUrl
+   */
+  private parseOffsiteApplyUrl($: cheerio.CheerioAPI): string | undefined {
+    const raw = $('code#applyUrl').html() || '';
+    const match = raw.match(/"(https?:\/\/[^"]+)"/);
+    if (!match) return undefined;
+
+    try {
+      const redirect = new URL(match[1]);
+      return redirect.searchParams.get('url') || redirect.toString();
+    } catch {
+      return undefined;
+    }
+  }
+
+  private buildGuestSearchUrl(url: string, start: number): string {
+    const source = new URL(url);
+    const target = new URL(GUEST_SEARCH_URL);
+
+    source.searchParams.forEach((value, key) => {
+      if (key !== 'start') target.searchParams.set(key, value);
+    });
+    target.searchParams.set('start', String(start));
+
+    return target.toString();
+  }
+
+  private getStartOffset(url: string): number {
+    try {
+      return parseInt(new URL(url).searchParams.get('start') || '0') || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  private getJobIdFromUrn(urn: string | undefined): string | null {
+    const match = urn?.match(/jobPosting:(\d+)/);
+    return match ? match[1] : null;
+  }
+
+  private getJobIdFromUrl(url: string): string | null {
+    const match = url.match(/\/jobs\/view\/(?:[^/?]*-)?(\d+)/);
+    return match ? match[1] : null;
+  }
+
+  private extractDetailsWithAI(
+    markdown: string
+  ): Promise<CheckedExtraction<OpportunityDetailsResp>> {
+    return extractionQualityService.extractDetails<OpportunityDetailsResp>(
+      extractLinkedInDetailsPrompt(markdown),
+      markdown
+    );
+  }
+
+  private text(selection: ReturnType<cheerio.CheerioAPI>): string {
+    return selection.text().replace(/\s+/g, ' ').trim();
+  }
 }
 
 export const linkedInScraper = new LinkedInScraper();
@@ -3,7 +3,6 @@ import {
   OpportunityDetails,
   ScrapingResult,
 } from './base-scraper';
-import scraperDo from '../scraper-do-service';
 import { convertHtmlToMarkdown } from '../../utils/html-to-md.js';
 import {
   extractOpportunityDetailsPrompt,
@@ -16,6 +15,7 @@ import {
 } from '../../types/scraper.types';
 import { CreateOpportunityData } from '../../schemas/opportunity';
 import aiRouter from '../../constant/ai';
+import { extractionQualityService } from '../extraction-quality-service';
 
 export class OpportunityForAfricansScraper extends BaseScraper {
   scraperType = 'OPPORTUNITY_FOR_AFRICANS' as const;
@@ -54,7 +54,7 @@ export class OpportunityForAfricansScraper extends BaseScraper {
     // Note: Caching is now handled at the queue service level for consistency
 
     try {
-      const response = await scraperDo.scrape(url);
+      const response = await this.fetcher.fetch(url);
       const data = response?.data;
 
       if (!data) {
@@ -103,7 +103,7 @@ export class OpportunityForAfricansScraper extends BaseScraper {
 
     const opportunityDetailsPage =
       this.constructOpportunityDetailsPage(opportunityId);
-    const response = await scraperDo.scrape(opportunityDetailsPage);
+    const response = await this.fetcher.fetch(opportunityDetailsPage);
     const data = response?.data;
 
     if (!data) {
@@ -115,18 +115,11 @@ export class OpportunityForAfricansScraper extends BaseScraper {
     const markdownConversion = convertHtmlToMarkdown(data);
     const prompt = extractOpportunityDetailsPrompt(markdownConversion);
 
-    const result = await retry(
-      async () => {
-        const aiResp = await aiRouter.generate({
-          prompt,
-        });
-        const cleanedResponse = this.cleanAIResponse(aiResp);
-        return JSON.parse(cleanedResponse);
-      },
-      { retries: 3, minTimeout: 1000, maxTimeout: 5000 }
-    );
-
-    const opportunityDetailsResp: OpportunityDetailsResp = result;
+    const { data: opportunityDetailsResp, quality } =
+      await extractionQualityService.extractDetails<OpportunityDetailsResp>(
+        prompt,
+        markdownConversion
+      );
 
     const opportunityDetails: OpportunityDetails = {
       id: opportunityId,
@@ -146,6 +139,7 @@ export class OpportunityForAfricansScraper extends BaseScraper {
       duration: opportunityDetailsResp.duration || '',
       eligibility: opportunityDetailsResp.eligibility || [],
       rawData: opportunityDetailsResp,
+      quality,
     };
 
     // Note: Details caching is handled at the queue service level
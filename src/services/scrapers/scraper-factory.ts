@@ -2,8 +2,23 @@ import { BaseScraper } from './base-scraper';
 import { opportunityForAfricansScraper } from './opportunity-for-africans-scraper';
 import { indeedScraper } from './indeed-scraper';
 import { linkedInScraper } from './linkedin-scraper';
+import { genericSelectorScraper } from './generic-selector-scraper';
+import { feedScraper } from './feed-scraper';
+import { FetcherType } from '../fetchers/base-fetcher';
+import { FetcherFactory } from '../fetchers/fetcher-factory';
 
-export type ScraperType = 'INDEED' | 'OPPORTUNITY_FOR_AFRICANS' | 'LINKEDIN';
+export type ScraperType =
+  | 'INDEED'
+  | 'OPPORTUNITY_FOR_AFRICANS'
+  | 'LINKEDIN'
+  | 'GENERIC_SELECTOR'
+  | 'FEED';
+
+export interface ScraperSourceConfig {
+  cssSelectors?: string | null;
+  fetcherType?: FetcherType;
+  requestsPerMinute?: number | null;
+}
 
 export class ScraperFactory {
   private static scrapers: Map<ScraperType, BaseScraper> = new Map();
@@ -12,16 +27,33 @@ export class ScraperFactory {
     this.scrapers.set('OPPORTUNITY_FOR_AFRICANS', opportunityForAfricansScraper);
     this.scrapers.set('INDEED', indeedScraper);
     this.scrapers.set('LINKEDIN', linkedInScraper);
+    this.scrapers.set('GENERIC_SELECTOR', genericSelectorScraper);
+    this.scrapers.set('FEED', feedScraper);
   }
 
   /**
-   * Get scraper instance by type
+   * Get scraper instance by type. When a crawl source config is given, the
+   * scraper uses the source's fetcher and, for selector-driven scrapers,
+   * its cssSelectors JSON.
    */
-  static getScraper(type: ScraperType): BaseScraper {
-    const scraper = this.scrapers.get(type);
+  static getScraper(
+    type: ScraperType,
+    source?: ScraperSourceConfig
+  ): BaseScraper {
+    let scraper = this.scrapers.get(type);
     if (!scraper) {
       throw new Error(`Scraper not found for type: ${type}`);
     }
+    if (type === 'GENERIC_SELECTOR') {
+      scraper = genericSelectorScraper.withSelectors(source?.cssSelectors);
+    }
+    if (source?.fetcherType) {
+      scraper = scraper.withFetcher(
+        FetcherFactory.getFetcher(source.fetcherType, {
+          requestsPerMinute: source.requestsPerMinute,
+        })
+      );
+    }
     return scraper;
   }
 
@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import { prisma } from '../config/database';
+import { OpportunityListing } from './scrapers/base-scraper';
+
+export interface ListingPartition {
+  // Listings that are new or changed since they were last handed off
+  pending: OpportunityListing[];
+  unchanged: OpportunityListing[];
+  // Keys of pending listings that were seen before with different content
+  changedKeys: Set<string>;
+}
+
+// Published listings whose details page was not crawled for this long are
+// re-fetched even when the listing itself is unchanged
+const DETAILS_RECHECK_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalize = (value?: string) =>
+  (value || '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+class SeenListingService {
+  /**
+   * Stable identity of a listing within its crawl source
+   */
+  buildListingKey(listing: OpportunityListing): string {
+    return listing.guid || listing.opportunity_id || listing.url || '';
+  }
+
+  /**
+   * Hash of the listing fields a source page change would show up in
+   */
+  hashListing(listing: OpportunityListing): string {
+    const content = [
+      listing.title,
+      listing.organization,
+      listing.location,
+      listing.deadline,
+      listing.excerpt,
+    ].map(normalize);
+
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify(content))
+      .digest('hex');
+  }
+
+  /**
+   * Splits listings into those that need a details crawl and those whose
+   * content is unchanged since the last crawl. Unchanged listings have
+   * their lastSeenAt refreshed.
+   */
+  async partition(
+    crawlSourceId: string,
+    listings: OpportunityListing[]
+  ): Promise<ListingPartition> {
+    const keys = listings.map((listing) => this.buildListingKey(listing));
+    const seen = await prisma.seenListing.findMany({
+      where: { crawlSourceId, listingKey: { in: keys.filter(Boolean) } },
+      select: { listingKey: true, contentHash: true },
+    });
+    const hashByKey = new Map(
+      seen.map((entry) => [entry.listingKey, entry.contentHash])
+    );
+
+    const partition: ListingPartition = {
+      pending: [],
+      unchanged: [],
+      changedKeys: new Set(),
+    };
+
+    listings.forEach((listing, index) => {
+      const key = keys[index];
+      const previousHash = key ? hashByKey.get(key) : undefined;
+
+      if (!previousHash) {
+        partition.pending.push(listing);
+      } else if (previousHash === this.hashListing(listing)) {
+        partition.unchanged.push(listing);
+      } else {
+        partition.pending.push(listing);
+        partition.changedKeys.add(key);
+      }
+    });
+
+    if (partition.unchanged.length) {
+      await prisma.seenListing.updateMany({
+        where: {
+          crawlSourceId,
+          listingKey: {
+            in: partition.unchanged.map((l) => this.buildListingKey(l)),
+          },
+        },
+        data: { lastSeenAt: new Date() },
+      });
+    }
+
+    return partition;
+  }
+
+  /**
+   * Unchanged listings to crawl again anyway: those whose draft is published
+   * and whose details page is due a re-check. A deadline extension or a
+   * requirements edit often only shows on the details page, so the listing
+   * hash alone would never propose a revision for it.
+   */
+  async findDetailsRechecks(
+    crawlSourceId: string,
+    unchanged: OpportunityListing[],
+    getSourceUrl: (listing: OpportunityListing) => string
+  ): Promise<OpportunityListing[]> {
+    if (!unchanged.length) return [];
+
+    const cutoff = new Date(Date.now() - DETAILS_RECHECK_DAYS * DAY_MS);
+    const due = await prisma.seenListing.findMany({
+      where: {
+        crawlSourceId,
+        listingKey: { in: unchanged.map((l) => this.buildListingKey(l)) },
+        OR: [{ detailsCheckedAt: null }, { detailsCheckedAt: { lt: cutoff } }],
+      },
+      select: { listingKey: true },
+    });
+    const dueKeys = new Set(due.map((entry) => entry.listingKey));
+    const candidates = unchanged.filter((listing) =>
+      dueKeys.has(this.buildListingKey(listing))
+    );
+    if (!candidates.length) return [];
+
+    const published = await prisma.aIDraft.findMany({
+      where: {
+        crawlSourceId,
+        status: 'PUBLISHED',
+        revisionForId: null,
+        sourceUrl: { in: candidates.map(getSourceUrl) },
+      },
+      select: { sourceUrl: true },
+    });
+    const publishedUrls = new Set(published.map((draft) => draft.sourceUrl));
+
+    return candidates.filter((listing) =>
+      publishedUrls.has(getSourceUrl(listing))
+    );
+  }
+
+  /**
+   * Records a listing as handed off with its current content. Called once
+   * its draft was created or updated so failed crawls are retried next time.
+   * Pass detailsChecked when the details page was crawled for it.
+   */
+  async markSeen(
+    crawlSourceId: string,
+    listing: OpportunityListing,
+    detailsChecked = false
+  ): Promise<void> {
+    const listingKey = this.buildListingKey(listing);
+    if (!listingKey) return;
+
+    const contentHash = this.hashListing(listing);
+    const now = new Date();
+
+    const existing = await prisma.seenListing.findUnique({
+      where: { crawlSourceId_listingKey: { crawlSourceId, listingKey } },
+      select: { contentHash: true },
+    });
+
+    await prisma.seenListing.upsert({
+      where: { crawlSourceId_listingKey: { crawlSourceId, listingKey } },
+      create: {
+        crawlSourceId,
+        listingKey,
+        contentHash,
+        ...(detailsChecked && { detailsCheckedAt: now }),
+      },
+      update: {
+        contentHash,
+        lastSeenAt: now,
+        ...(existing?.contentHash !== contentHash && { lastChangedAt: now }),
+        ...(detailsChecked && { detailsCheckedAt: now }),
+      },
+    });
+  }
+}
+
+export const seenListingService = new SeenListingService();
+export default seenListingService;
@@ -9,14 +9,13 @@ import {
   UserListResponse,
 } from '../schemas/user-management';
 import { NotFoundException, ConflictException } from '../utils/http-exception';
+import { paginate } from '../utils/pagination';
 
 class UserManagementService {
   private readonly saltRounds = 12;
 
   async getUsers(params: UserQueryParams): Promise<UserListResponse> {
-    const { page, limit, search, role, isEmailVerified, isOnboardingComplete } = params;
-
-    const skip = (page - 1) * limit;
+    const { search, role, isEmailVerified, isOnboardingComplete } = params;
 
     const where: any = {};
 
@@ -39,50 +38,39 @@ class UserManagementService {
       where.isOnboardingComplete = isOnboardingComplete;
     }
 
-    const [users, total] = await Promise.all([
-      prisma.user.findMany({
+    const { items, pagination } = await paginate(
+      { ...params, sortBy: 'createdAt', sortOrder: 'desc' },
+      {
         where,
-        skip,
-        take: limit,
-        orderBy: {
-          createdAt: 'desc',
-        },
-        select: {
-          id: true,
-          email: true,
-          name: true,
-          phone: true,
-          avatar: true,
-          role: true,
-          isEmailVerified: true,
-          jobFunction: true,
-          preferredLocations: true,
-          workAuthorization: true,
-          remoteWork: true,
-          resumeUrl: true,
-          isOnboardingComplete: true,
-          onboardingCompletedAt: true,
-          createdAt: true,
-          updatedAt: true,
-        },
-      }),
-      prisma.user.count({ where }),
-    ]);
-
-    const totalPages = Math.ceil(total / limit);
-    const hasNextPage = page < totalPages;
-    const hasPreviousPage = page > 1;
+        findMany: (args) =>
+          prisma.user.findMany({
+            ...args,
+            select: {
+              id: true,
+              email: true,
+              name: true,
+              phone: true,
+              avatar: true,
+              role: true,
+              isEmailVerified: true,
+              jobFunction: true,
+              preferredLocations: true,
+              workAuthorization: true,
+              remoteWork: true,
+              resumeUrl: true,
+              isOnboardingComplete: true,
+              onboardingCompletedAt: true,
+              createdAt: true,
+              updatedAt: true,
+            },
+          }),
+        count: (where) => prisma.user.count({ where }),
+      }
+    );
 
     return {
-      users: users as UserResponse[],
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages,
-        hasNextPage,
-        hasPreviousPage,
-      },
+      users: items as UserResponse[],
+      pagination,
     };
   }
 
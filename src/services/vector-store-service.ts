@@ -6,6 +6,7 @@ import { initializePinecone } from '../config/pinecone';
 import { config } from '../config/envars';
 import { prisma } from '../config/database';
 import logger from '../config/logger';
+import { locationService } from './location-service';
 
 class VectorStoreService {
   private pineconeStore: PineconeStore | null = null;
@@ -74,6 +75,7 @@ class VectorStoreService {
         Description: ${opportunity.description}
         Organization: ${opportunity.organization}
         Locations: ${opportunity.locations?.join(', ') || 'Not specified'}
+        Places: ${locationService.describe(opportunity.locations) || 'Not specified'}
         Compensation: ${opportunity.compensation || 'Not specified'}
         Compensation Type: ${opportunity.compensationType || 'Not specified'}
         Type: ${opportunity.opportunityCategories?.map((cat) => cat.opportunityType?.name).join(', ') || 'General'}
@@ -131,6 +133,7 @@ class VectorStoreService {
         Email: ${user.email}
         Job Function: ${user.jobFunction || 'Not specified'}
         Preferred Locations: ${user.preferredLocations?.join(', ') || 'Not specified'}
+        Preferred Places: ${locationService.describe(user.preferredLocations) || 'Not specified'}
         Work Authorization: ${user.workAuthorization || 'Not specified'}
         Remote Work Preference: ${user.remoteWork ? 'Yes' : 'No'}
       `.trim();
@@ -172,7 +175,7 @@ class VectorStoreService {
         });
 
         if (user) {
-          searchQuery += ` Job Function: ${user.jobFunction || ''} Preferred Locations: ${user.preferredLocations?.join(', ') || ''} Remote Work: ${user.remoteWork ? 'Yes' : 'No'}`;
+          searchQuery += ` Job Function: ${user.jobFunction || ''} Preferred Locations: ${user.preferredLocations?.join(', ') || ''} Preferred Places: ${locationService.describe(user.preferredLocations)} Remote Work: ${user.remoteWork ? 'Yes' : 'No'}`;
         }
       }
 
@@ -0,0 +1,136 @@
+import { parseExpression } from 'cron-parser';
+
+export type CrawlFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface CrawlScheduleConfig {
+  frequency: CrawlFrequency;
+  cronExpression?: string | null;
+  timezone?: string | null;
+  crawlWindowStart?: string | null;
+  crawlWindowEnd?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FREQUENCY_INTERVALS: Record<CrawlFrequency, number> = {
+  DAILY: DAY_MS,
+  WEEKLY: 7 * DAY_MS,
+  MONTHLY: 30 * DAY_MS,
+};
+
+export const isValidCronExpression = (expression: string): boolean => {
+  try {
+    parseExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const isValidTimezone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const minutesInTimezone = (date: Date, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const value = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value || 0);
+
+  return value('hour') * 60 + value('minute');
+};
+
+/**
+ * Whether `date` falls inside the source's daily crawl window. Windows may
+ * wrap past midnight (e.g. 22:00–04:00). No window means always allowed.
+ */
+export const isWithinCrawlWindow = (
+  config: CrawlScheduleConfig,
+  date: Date
+): boolean => {
+  const { crawlWindowStart, crawlWindowEnd } = config;
+  if (!crawlWindowStart || !crawlWindowEnd) return true;
+
+  const now = minutesInTimezone(date, config.timezone || 'UTC');
+  const start = toMinutes(crawlWindowStart);
+  const end = toMinutes(crawlWindowEnd);
+
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
+
+const nextWindowOpening = (config: CrawlScheduleConfig, from: Date): Date => {
+  const [hours, minutes] = config.crawlWindowStart!.split(':').map(Number);
+
+  return parseExpression(`${minutes} ${hours} * * *`, {
+    currentDate: from,
+    tz: config.timezone || 'UTC',
+  })
+    .next()
+    .toDate();
+};
+
+/**
+ * Moves `date` forward to the next opening of the crawl window if it falls
+ * outside it
+ */
+export const alignToCrawlWindow = (
+  config: CrawlScheduleConfig,
+  date: Date
+): Date => {
+  if (isWithinCrawlWindow(config, date)) return date;
+  return nextWindowOpening(config, date);
+};
+
+/**
+ * Computes when a source should next be crawled: the next cron occurrence
+ * when a cron expression is set, otherwise `from` plus the frequency
+ * interval, then aligned to the crawl window
+ */
+export const computeNextCrawlAt = (
+  config: CrawlScheduleConfig,
+  from: Date = new Date()
+): Date => {
+  const next = config.cronExpression
+    ? parseExpression(config.cronExpression, {
+        currentDate: from,
+        tz: config.timezone || 'UTC',
+      })
+        .next()
+        .toDate()
+    : new Date(from.getTime() + FREQUENCY_INTERVALS[config.frequency]);
+
+  return alignToCrawlWindow(config, next);
+};
+
+/**
+ * Lists the next `count` crawl times after `from`
+ */
+export const getUpcomingCrawlTimes = (
+  config: CrawlScheduleConfig,
+  from: Date,
+  count: number
+): Date[] => {
+  const times: Date[] = [];
+  let cursor = from;
+
+  for (let i = 0; i < count; i++) {
+    cursor = computeNextCrawlAt(config, cursor);
+    times.push(cursor);
+  }
+
+  return times;
+};
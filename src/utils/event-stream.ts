@@ -0,0 +1,62 @@
+import { Response } from 'express';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  onClose(listener: () => void): void;
+}
+
+/**
+ * Switches the response to a Server-Sent Events stream. A comment line is
+ * sent periodically so proxies do not drop idle connections.
+ */
+export function openEventStream(res: Response): EventStream {
+  const closeListeners: Array<() => void> = [];
+  let closed = false;
+
+  res.status(200);
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  // The compression middleware buffers writes until flushed
+  const write = (chunk: string) => {
+    res.write(chunk);
+    (res as Response & { flush?: () => void }).flush?.();
+  };
+
+  const heartbeat = setInterval(
+    () => write(': ping\n\n'),
+    HEARTBEAT_INTERVAL_MS
+  );
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    closeListeners.forEach((listener) => listener());
+  };
+
+  res.on('close', finish);
+
+  return {
+    send(event, data) {
+      if (closed) return;
+      write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      finish();
+      res.end();
+    },
+    onClose(listener) {
+      closeListeners.push(listener);
+    },
+  };
+}
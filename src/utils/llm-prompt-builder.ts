@@ -21,7 +21,7 @@ type PromptComponent = {
 /**
  * Class for building structured prompts for LLMs (Large Language Models).
  */
-class LLMPromptBuilder {
+export class LLMPromptBuilder {
   private components: PromptComponent[];
   private globalContext: Record<string, any>;
   private userInputs: Record<string, any>;
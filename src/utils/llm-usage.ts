@@ -0,0 +1,47 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface LLMUsage {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+const usageStorage = new AsyncLocalStorage<LLMUsage>();
+
+export const createLLMUsage = (): LLMUsage => ({
+  calls: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+});
+
+/**
+ * Runs `fn` with `usage` as the accumulator for every LLM call made inside
+ * it, however deep in the call stack. Read `usage` afterwards, even if `fn`
+ * throws.
+ */
+export const withLLMUsage = <T>(usage: LLMUsage, fn: () => Promise<T>) =>
+  usageStorage.run(usage, fn);
+
+/**
+ * Adds a completion's token usage to the active accumulator, if any
+ */
+export const recordLLMUsage = (usage?: CompletionUsage | null) => {
+  const current = usageStorage.getStore();
+  if (!current) return;
+
+  const promptTokens = usage?.prompt_tokens || 0;
+  const completionTokens = usage?.completion_tokens || 0;
+
+  current.calls++;
+  current.promptTokens += promptTokens;
+  current.completionTokens += completionTokens;
+  current.totalTokens += usage?.total_tokens || promptTokens + completionTokens;
+};
@@ -0,0 +1,193 @@
+import { BadRequestException } from './http-exception';
+import { PaginationMeta } from '../schemas/pagination';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface PageRequest {
+  page: number;
+  limit: number;
+  cursor?: string;
+  // Must be a non-nullable field of the rows
+  sortBy: string;
+  sortOrder: SortOrder;
+}
+
+interface ListQuery<T> {
+  where: any;
+  findMany: (args: {
+    where: any;
+    orderBy: Record<string, SortOrder>[];
+    skip?: number;
+    take: number;
+  }) => Promise<T[]>;
+  count: (where: any) => Promise<number>;
+}
+
+// What a cursor encodes. d marks values that were dates before JSON.
+interface CursorPayload {
+  s: string;
+  o: SortOrder;
+  v: string | number | boolean;
+  d?: true;
+  id: string;
+}
+
+type SortValue = string | number | boolean | Date;
+
+/**
+ * Runs a list query in page mode (skip and take, with a total count) or,
+ * when request.cursor is set, in cursor mode: the rows after the cursor,
+ * without a count. Rows are ordered by sortBy and then by id, so rows that
+ * share a sort value keep their order and cursor pages neither repeat nor
+ * skip rows while new ones are inserted.
+ */
+export async function paginate<T extends { id: string }>(
+  request: PageRequest,
+  query: ListQuery<T>
+): Promise<{ items: T[]; pagination: PaginationMeta }> {
+  const { limit, sortBy, sortOrder } = request;
+  const orderBy = [{ [sortBy]: sortOrder }, { id: sortOrder }];
+
+  if (!request.cursor) {
+    const [items, total] = await Promise.all([
+      query.findMany({
+        where: query.where,
+        orderBy,
+        skip: (request.page - 1) * limit,
+        take: limit,
+      }),
+      query.count(query.where),
+    ]);
+
+    return {
+      items,
+      pagination: pageModeMeta(request, total, items, (item) =>
+        sortValueOf(item, sortBy)
+      ),
+    };
+  }
+
+  const after = decodeCursor(request.cursor, request);
+  const op = sortOrder === 'desc' ? 'lt' : 'gt';
+  const rows = await query.findMany({
+    where: {
+      AND: [
+        query.where,
+        {
+          OR: [
+            { [sortBy]: { [op]: after.value } },
+            { [sortBy]: after.value, id: { [op]: after.id } },
+          ],
+        },
+      ],
+    },
+    orderBy,
+    take: limit + 1,
+  });
+
+  return cursorModeMeta(request, rows, (item) => sortValueOf(item, sortBy));
+}
+
+function pageModeMeta<T extends { id: string }>(
+  request: PageRequest,
+  total: number,
+  items: T[],
+  sortValue: (row: T) => SortValue
+): PaginationMeta {
+  const totalPages = Math.ceil(total / request.limit);
+  const hasNextPage = request.page < totalPages;
+  const last = items[items.length - 1];
+
+  return {
+    total,
+    page: request.page,
+    limit: request.limit,
+    totalPages,
+    hasNextPage,
+    hasPreviousPage: request.page > 1,
+    nextCursor:
+      hasNextPage && last
+        ? encodeCursor(request, sortValue(last), last.id)
+        : null,
+  };
+}
+
+// rows holds up to limit + 1 rows; the extra one only signals a next page
+function cursorModeMeta<T extends { id: string }>(
+  request: PageRequest,
+  rows: T[],
+  sortValue: (row: T) => SortValue
+): { items: T[]; pagination: PaginationMeta } {
+  const items = rows.slice(0, request.limit);
+  const hasNextPage = rows.length > request.limit;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    pagination: {
+      limit: request.limit,
+      hasNextPage,
+      hasPreviousPage: true,
+      nextCursor:
+        hasNextPage && last
+          ? encodeCursor(request, sortValue(last), last.id)
+          : null,
+    },
+  };
+}
+
+function encodeCursor(
+  request: PageRequest,
+  value: SortValue,
+  id: string
+): string {
+  const payload: CursorPayload =
+    value instanceof Date
+      ? {
+          s: request.sortBy,
+          o: request.sortOrder,
+          v: value.toISOString(),
+          d: true,
+          id,
+        }
+      : { s: request.sortBy, o: request.sortOrder, v: value, id };
+
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(
+  cursor: string,
+  request: PageRequest
+): { value: SortValue; id: string } {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (
+    !payload ||
+    typeof payload.id !== 'string' ||
+    !['string', 'number', 'boolean'].includes(typeof payload.v)
+  ) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (payload.s !== request.sortBy || payload.o !== request.sortOrder) {
+    throw new BadRequestException(
+      'Cursor was issued for a different sortBy or sortOrder'
+    );
+  }
+
+  const value = payload.d ? new Date(payload.v as string) : payload.v;
+  if (value instanceof Date && isNaN(value.getTime())) {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  return { value, id: payload.id };
+}
+
+function sortValueOf(row: object, sortBy: string): SortValue {
+  return (row as Record<string, SortValue>)[sortBy];
+}
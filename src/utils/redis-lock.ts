@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+import redis from '../config/redis';
+import logger from '../config/logger';
+
+// Deletes the lock only if the caller still holds it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Takes a lock shared by every API instance. Returns the token needed to
+ * release it, or null if another instance holds it.
+ */
+export async function acquireLock(
+  key: string,
+  ttlMs: number
+): Promise<string | null> {
+  const token = crypto.randomUUID();
+  const acquired = await redis.set(key, token, 'PX', ttlMs, 'NX');
+  return acquired === 'OK' ? token : null;
+}
+
+export async function releaseLock(key: string, token: string): Promise<void> {
+  try {
+    await redis.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+  } catch (error: any) {
+    logger.warn('Failed to release lock', { key, error: error.message });
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Converts a Retry-After header (delay in seconds or an HTTP date) to
+ * milliseconds from now
+ */
+export const parseRetryAfter = (
+  value: string | string[] | undefined | null,
+  now: number = Date.now()
+): number | undefined => {
+  const header = Array.isArray(value) ? value[0] : value;
+  if (!header) return undefined;
+
+  const trimmed = header.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+
+  return Math.max(0, date - now);
+};
@@ -0,0 +1,99 @@
+interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsPolicy {
+  isAllowed(path: string): boolean;
+  crawlDelayMs?: number;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelayMs?: number;
+}
+
+export const ALLOW_ALL: RobotsPolicy = { isAllowed: () => true };
+
+const toPattern = (path: string) =>
+  new RegExp(
+    '^' +
+      path
+        .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\\\$$/, '$')
+  );
+
+/**
+ * Parses a robots.txt body into the policy for the given user agent. The most
+ * specific user-agent group wins (falling back to "*"), and within a group
+ * the longest matching rule decides, with Allow winning ties.
+ */
+export function parseRobotsTxt(body: string, userAgent: string): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const seconds = parseFloat(value);
+      if (!isNaN(seconds)) current.crawlDelayMs = seconds * 1000;
+    }
+  }
+
+  const agent = userAgent.toLowerCase();
+  const group =
+    groups.find((g) =>
+      g.agents.some((name) => name !== '*' && agent.includes(name))
+    ) || groups.find((g) => g.agents.includes('*'));
+
+  if (!group) return ALLOW_ALL;
+
+  const rules = group.rules.map((rule) => ({
+    ...rule,
+    pattern: toPattern(rule.path),
+  }));
+
+  return {
+    crawlDelayMs: group.crawlDelayMs,
+    isAllowed(path: string) {
+      let match: (typeof rules)[number] | null = null;
+
+      for (const rule of rules) {
+        if (!rule.pattern.test(path)) continue;
+        if (
+          !match ||
+          rule.path.length > match.path.length ||
+          (rule.path.length === match.path.length && rule.allow)
+        ) {
+          match = rule;
+        }
+      }
+
+      return match ? match.allow : true;
+    },
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Converts a user search into a Postgres to_tsquery expression:
+ * - words must all match: `data analyst` → `data & analyst`
+ * - "quoted phrases" match adjacent words: `"machine learning"`
+ * - a trailing * matches prefixes: `engin*` → `engin:*`
+ * - a leading - excludes a word or phrase: `-unpaid`
+ *
+ * Only letters and digits reach the query, so the result is always valid
+ * tsquery syntax. Returns null when the search has no usable words.
+ */
+export function buildTsQuery(search: string): string | null {
+  const terms: string[] = [];
+  const tokens = search.matchAll(/(-?)"([^"]*)"?|(-?)(\S+)/g);
+
+  for (const [, phraseNot, phrase, wordNot, word] of tokens) {
+    const isPhrase = phrase !== undefined;
+    const text = isPhrase ? phrase : word;
+    const isPrefix = !isPhrase && text.endsWith('*');
+    const lexemes = text.match(/[\p{L}\p{N}]+/gu);
+    if (!lexemes) continue;
+
+    if (isPrefix) {
+      lexemes[lexemes.length - 1] += ':*';
+    }
+
+    const term = lexemes.length > 1 ? `(${lexemes.join(' <-> ')})` : lexemes[0];
+    terms.push((isPhrase ? phraseNot : wordNot) ? `!${term}` : term);
+  }
+
+  // A query made only of exclusions would match almost everything
+  if (!terms.some((term) => !term.startsWith('!'))) return null;
+
+  return terms.join(' & ');
+}
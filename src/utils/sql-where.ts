@@ -0,0 +1,109 @@
+import { Prisma } from '../generated/prisma/client';
+import { SortOrder } from './pagination';
+
+export interface SqlFields {
+  // SQL expression of each filterable or sortable field
+  columns: Record<string, Prisma.Sql>;
+  // To-many relations filtered with `some`: the FROM clause of the related
+  // rows, already joined to the outer row, and their own fields
+  relations?: Record<string, { from: Prisma.Sql; fields: SqlFields }>;
+}
+
+const COMPARISONS: Record<string, string> = {
+  equals: '=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+};
+
+/**
+ * Compiles a Prisma where object to a SQL condition, so raw queries apply
+ * exactly the filters built for Prisma instead of a hand-written copy.
+ * Covers the subset the list filters use: AND, OR, equality, comparisons,
+ * `in`, `hasSome` and `some` on relations. Anything else throws, so a new
+ * filter cannot be silently dropped from the raw queries.
+ */
+export function whereToSql(
+  where: Record<string, any>,
+  fields: SqlFields
+): Prisma.Sql {
+  const conditions = Object.entries(where)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      if (key === 'AND' || key === 'OR') {
+        const nested = (Array.isArray(value) ? value : [value]).map(
+          (item: Record<string, any>) => whereToSql(item, fields)
+        );
+        return joinConditions(nested, key);
+      }
+
+      const relation = fields.relations?.[key];
+      if (relation) {
+        if (!value?.some) {
+          throw new Error(`Unsupported filter on relation "${key}"`);
+        }
+        return Prisma.sql`EXISTS (SELECT 1 FROM ${relation.from} AND ${whereToSql(value.some, relation.fields)})`;
+      }
+
+      const column = fields.columns[key];
+      if (!column) {
+        throw new Error(`No SQL column for filter field "${key}"`);
+      }
+      return fieldToSql(column, value);
+    });
+
+  return joinConditions(conditions, 'AND');
+}
+
+/**
+ * Compiles a Prisma orderBy list, e.g. [{ createdAt: 'desc' }, { id: 'desc' }]
+ */
+export function orderByToSql(
+  orderBy: Record<string, SortOrder>[],
+  fields: SqlFields
+): Prisma.Sql {
+  const terms = orderBy.flatMap((entry) =>
+    Object.entries(entry).map(([key, order]) => {
+      const column = fields.columns[key];
+      if (!column) {
+        throw new Error(`No SQL column for sort field "${key}"`);
+      }
+      return Prisma.sql`${column} ${Prisma.raw(order === 'asc' ? 'ASC' : 'DESC')}`;
+    })
+  );
+
+  return Prisma.join(terms, ', ');
+}
+
+function fieldToSql(column: Prisma.Sql, filter: unknown): Prisma.Sql {
+  if (filter === null) return Prisma.sql`${column} IS NULL`;
+  if (typeof filter !== 'object' || filter instanceof Date) {
+    return Prisma.sql`${column} = ${filter}`;
+  }
+
+  const conditions = Object.entries(filter)
+    .filter(([, value]) => value !== undefined)
+    .map(([operator, value]) => {
+      if (operator === 'in') return Prisma.sql`${column} = ANY(${value})`;
+      if (operator === 'hasSome') {
+        return Prisma.sql`${column} && ${value}::text[]`;
+      }
+      if (COMPARISONS[operator]) {
+        return Prisma.sql`${column} ${Prisma.raw(COMPARISONS[operator])} ${value}`;
+      }
+      throw new Error(`Unsupported filter operator "${operator}"`);
+    });
+
+  return joinConditions(conditions, 'AND');
+}
+
+function joinConditions(
+  conditions: Prisma.Sql[],
+  operator: 'AND' | 'OR'
+): Prisma.Sql {
+  // Like Prisma, an empty AND matches every row and an empty OR none
+  if (!conditions.length)
+    return Prisma.raw(operator === 'AND' ? 'TRUE' : 'FALSE');
+  return Prisma.sql`(${Prisma.join(conditions, ` ${operator} `)})`;
+}
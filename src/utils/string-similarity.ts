@@ -0,0 +1,102 @@
+/**
+ * Normalise free text for comparison:
+ * - lowercases and strips accents
+ * - replaces punctuation with spaces
+ * - collapses whitespace
+ */
+export function normalizeText(value: string | null | undefined): string {
+  if (!value) return '';
+
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalise a URL so that tracking parameters, fragments, "www." and
+ * trailing slashes do not make the same page look different.
+ */
+export function normalizeUrl(value: string | null | undefined): string {
+  if (!value) return '';
+
+  try {
+    const url = new URL(value.trim());
+    const host = url.hostname.toLowerCase().replace(/^www\./, '');
+    const path = url.pathname.replace(/\/+$/, '');
+
+    const params = new URLSearchParams();
+    Array.from(url.searchParams.keys())
+      .filter((key) => !/^(utm_|ref$|fbclid$|gclid$)/i.test(key))
+      .sort()
+      .forEach((key) => params.set(key, url.searchParams.get(key) || ''));
+
+    const query = params.toString();
+    return `${host}${path}${query ? `?${query}` : ''}`;
+  } catch {
+    return value.trim().toLowerCase();
+  }
+}
+
+function bigrams(value: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  const compact = value.replace(/\s+/g, ' ');
+
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+
+  return grams;
+}
+
+/**
+ * Sørensen–Dice coefficient over character bigrams (0 = nothing in common, 1 = identical)
+ */
+export function diceCoefficient(a: string, b: string): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b);
+
+  if (!left && !right) return 1;
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let overlap = 0;
+
+  for (const [gram, count] of leftGrams) {
+    overlap += Math.min(count, rightGrams.get(gram) || 0);
+  }
+
+  return (2 * overlap) / (left.length - 1 + (right.length - 1));
+}
+
+/**
+ * Jaccard similarity of the word sets of two strings, ignoring word order
+ */
+export function tokenSetSimilarity(a: string, b: string): number {
+  const left = new Set(normalizeText(a).split(' ').filter(Boolean));
+  const right = new Set(normalizeText(b).split(' ').filter(Boolean));
+
+  if (!left.size && !right.size) return 1;
+  if (!left.size || !right.size) return 0;
+
+  let intersection = 0;
+  left.forEach((token) => {
+    if (right.has(token)) intersection++;
+  });
+
+  return intersection / (left.size + right.size - intersection);
+}
+
+/**
+ * Fuzzy similarity that tolerates both typos and reordered words
+ */
+export function textSimilarity(a: string, b: string): number {
+  return Math.max(diceCoefficient(a, b), tokenSetSimilarity(a, b));
+}
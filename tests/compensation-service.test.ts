@@ -0,0 +1,123 @@
+import {
+  compensationService,
+  parseCurrencyRates,
+} from '../src/services/compensation-service';
+
+const parse = (compensation: string, compensationType?: string) =>
+  compensationService.parse({ compensation, compensationType });
+
+describe('CompensationService', () => {
+  describe('parse', () => {
+    it('reads a range with its currency and period', () => {
+      expect(parse('₦150,000 - ₦200,000 monthly')).toEqual({
+        compensationMin: 150000,
+        compensationMax: 200000,
+        compensationCurrency: 'NGN',
+        compensationPeriod: 'MONTH',
+        monthlyCompensation: 200000,
+        baseMonthlyCompensation: 129.03,
+        isFullyFunded: false,
+      });
+    });
+
+    it('applies a multiplier to both ends of a range', () => {
+      expect(parse('$50-70k per year')).toMatchObject({
+        compensationMin: 50000,
+        compensationMax: 70000,
+        compensationCurrency: 'USD',
+        compensationPeriod: 'YEAR',
+        monthlyCompensation: 5833.33,
+        baseMonthlyCompensation: 5833.33,
+      });
+    });
+
+    it('keeps open-ended amounts open', () => {
+      expect(parse('Up to €2,000 per month')).toMatchObject({
+        compensationMin: null,
+        compensationMax: 2000,
+        compensationCurrency: 'EUR',
+      });
+      expect(parse('From GHS 3,000 a month')).toMatchObject({
+        compensationMin: 3000,
+        compensationMax: null,
+        compensationCurrency: 'GHS',
+      });
+    });
+
+    it.each([
+      ['KES 80,000 p.m.', 'MONTH'],
+      ['KES 80,000 pm', 'MONTH'],
+      ['NGN 50,000 p/m', 'MONTH'],
+      ['£15 per hour', 'HOUR'],
+      ['$200 per day', 'DAY'],
+      ['$500 weekly', 'WEEK'],
+      ['KES 960,000 p.a.', 'YEAR'],
+      ['One-time grant of $5,000', 'ONE_TIME'],
+    ])('reads the period of "%s"', (compensation, period) => {
+      expect(parse(compensation).compensationPeriod).toBe(period);
+    });
+
+    it('converts periods to a monthly amount', () => {
+      expect(parse('KES 80,000 p.m.')).toMatchObject({
+        compensationCurrency: 'KES',
+        monthlyCompensation: 80000,
+      });
+      expect(parse('£15 per hour').monthlyCompensation).toBe(2600);
+      expect(parse('One-time grant of $5,000').monthlyCompensation).toBeNull();
+    });
+
+    it('skips numbers that are not amounts', () => {
+      expect(parse('6 months stipend of GHS 2,000')).toMatchObject({
+        compensationMin: 2000,
+        compensationCurrency: 'GHS',
+      });
+      expect(parse('2026 cohort, $1,200 monthly').compensationMin).toBe(1200);
+    });
+
+    it('does not compare amounts without a currency', () => {
+      expect(parse('5000 per month')).toMatchObject({
+        compensationMin: 5000,
+        compensationCurrency: null,
+        monthlyCompensation: null,
+        baseMonthlyCompensation: 0,
+      });
+    });
+
+    it('detects fully funded opportunities in the text or title', () => {
+      expect(parse('Fully funded scholarship')).toMatchObject({
+        compensationMin: null,
+        isFullyFunded: true,
+      });
+      expect(
+        compensationService.parse({
+          title: 'Chevening Scholarships (Fully-Funded)',
+          compensation: 'Tuition and stipend',
+        }).isFullyFunded
+      ).toBe(true);
+    });
+
+    it('records unpaid and volunteer roles as zero pay', () => {
+      for (const parsed of [
+        parse('Unpaid'),
+        parse('Travel covered', 'volunteer'),
+      ]) {
+        expect(parsed).toMatchObject({
+          compensationMin: 0,
+          compensationMax: 0,
+          monthlyCompensation: null,
+          baseMonthlyCompensation: 0,
+        });
+      }
+    });
+  });
+
+  describe('parseCurrencyRates', () => {
+    it('reads valid CODE=rate entries and skips the rest', () => {
+      expect(parseCurrencyRates('ngn=1600, GHS=15.2,XYZ=0,bad')).toEqual({
+        NGN: 1600,
+        GHS: 15.2,
+      });
+      expect(parseCurrencyRates(undefined)).toEqual({});
+    });
+  });
+});
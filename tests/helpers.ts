@@ -0,0 +1,11 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Reads a recorded page from fixtures/scrapers/<scraper>/<file>
+ */
+export const readFixture = (scraper: string, file: string): string =>
+  fs.readFileSync(
+    path.join(__dirname, '..', 'fixtures', 'scrapers', scraper, file),
+    'utf8'
+  );
@@ -0,0 +1,16 @@
+/**
+ * Stands in for src/config/redis so importing services does not open a
+ * connection. Parser tests never reach Redis; any call fails loudly.
+ */
+const redis = new Proxy(
+  {},
+  {
+    get: (_, property) => {
+      throw new Error(
+        `Redis is not available in tests (redis.${String(property)})`
+      );
+    },
+  }
+);
+
+export default redis;
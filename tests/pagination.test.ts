@@ -0,0 +1,220 @@
+import { PageRequest, SortOrder, paginate } from '../src/utils/pagination';
+
+interface Row {
+  id: string;
+  title: string;
+  createdAt: Date;
+}
+
+const rows: Row[] = [
+  { id: 'a', title: 'Analyst', createdAt: new Date('2026-10-01T00:00:00Z') },
+  { id: 'b', title: 'Designer', createdAt: new Date('2026-10-02T00:00:00Z') },
+  { id: 'c', title: 'Designer', createdAt: new Date('2026-10-02T00:00:00Z') },
+  { id: 'd', title: 'Engineer', createdAt: new Date('2026-10-03T00:00:00Z') },
+  { id: 'e', title: 'Fellow', createdAt: new Date('2026-10-04T00:00:00Z') },
+];
+
+type Value = string | Date;
+
+const compare = (a: Value, b: Value) => {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+// The where subset paginate builds: AND, OR, equality, lt and gt
+const matches = (row: Row, where: any): boolean =>
+  Object.entries(where ?? {}).every(([key, condition]: [string, any]) => {
+    if (key === 'AND') return condition.every((c: any) => matches(row, c));
+    if (key === 'OR') return condition.some((c: any) => matches(row, c));
+
+    const value = row[key as keyof Row];
+    if (condition?.lt !== undefined) return compare(value, condition.lt) < 0;
+    if (condition?.gt !== undefined) return compare(value, condition.gt) > 0;
+    return compare(value, condition) === 0;
+  });
+
+const listQuery = (where: any = {}) => ({
+  where,
+  findMany: jest.fn(
+    async (args: {
+      where: any;
+      orderBy: Record<string, SortOrder>[];
+      skip?: number;
+      take: number;
+    }) => {
+      const sorted = rows
+        .filter((row) => matches(row, args.where))
+        .sort((x, y) => {
+          for (const entry of args.orderBy) {
+            const [field, order] = Object.entries(entry)[0];
+            const result = compare(
+              x[field as keyof Row],
+              y[field as keyof Row]
+            );
+            if (result) return order === 'asc' ? result : -result;
+          }
+          return 0;
+        });
+      const skip = args.skip ?? 0;
+      return sorted.slice(skip, skip + args.take);
+    }
+  ),
+  count: jest.fn(
+    async (where: any) => rows.filter((row) => matches(row, where)).length
+  ),
+});
+
+const request = (overrides: Partial<PageRequest> = {}): PageRequest => ({
+  page: 1,
+  limit: 2,
+  sortBy: 'createdAt',
+  sortOrder: 'desc',
+  ...overrides,
+});
+
+const decode = (cursor: string) =>
+  JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+
+const ids = (items: Row[]) => items.map((row) => row.id);
+
+describe('paginate', () => {
+  it('returns a page with its total in page mode', async () => {
+    const query = listQuery();
+    const { items, pagination } = await paginate(request({ page: 2 }), query);
+
+    expect(ids(items)).toEqual(['c', 'b']);
+    expect(pagination).toMatchObject({
+      total: 5,
+      page: 2,
+      totalPages: 3,
+      hasNextPage: true,
+      hasPreviousPage: true,
+    });
+    expect(query.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ skip: 2, take: 2 })
+    );
+  });
+
+  it('walks every row once in cursor mode, breaking ties by id', async () => {
+    const query = listQuery();
+    const seen: string[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await paginate(
+        request({ sortBy: 'title', sortOrder: 'asc', cursor }),
+        query
+      );
+      seen.push(...ids(page.items));
+      cursor = page.pagination.nextCursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('continues after a tie on the sort value', async () => {
+    const first = await paginate(request({ sortBy: 'title' }), listQuery());
+    expect(ids(first.items)).toEqual(['e', 'd']);
+
+    const second = await paginate(
+      request({ sortBy: 'title', cursor: first.pagination.nextCursor! }),
+      listQuery()
+    );
+    expect(ids(second.items)).toEqual(['c', 'b']);
+
+    const third = await paginate(
+      request({ sortBy: 'title', cursor: second.pagination.nextCursor! }),
+      listQuery()
+    );
+    expect(ids(third.items)).toEqual(['a']);
+  });
+
+  it('round-trips dates through the cursor', async () => {
+    const first = await paginate(request(), listQuery());
+    const cursor = first.pagination.nextCursor!;
+
+    expect(decode(cursor)).toMatchObject({
+      s: 'createdAt',
+      v: '2026-10-03T00:00:00.000Z',
+      d: true,
+      id: 'd',
+    });
+
+    const query = listQuery();
+    await paginate(request({ cursor }), query);
+    const { where } = query.findMany.mock.calls[0][0];
+    expect(where.AND[1].OR[0].createdAt.lt).toEqual(
+      new Date('2026-10-03T00:00:00Z')
+    );
+  });
+
+  it('fetches limit + 1 rows to detect a next page', async () => {
+    const query = listQuery();
+    const first = await paginate(request({ limit: 4 }), query);
+    const last = await paginate(
+      request({ limit: 4, cursor: first.pagination.nextCursor! }),
+      query
+    );
+
+    expect(query.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ take: 5 })
+    );
+    expect(query.count).toHaveBeenCalledTimes(1);
+    expect(ids(last.items)).toEqual(['a']);
+    expect(last.pagination).toEqual({
+      limit: 4,
+      hasNextPage: false,
+      hasPreviousPage: true,
+      nextCursor: null,
+    });
+  });
+
+  it('has no next cursor when the rows fit exactly', async () => {
+    const first = await paginate(request({ limit: 3 }), listQuery());
+    const second = await paginate(
+      request({ limit: 3, cursor: first.pagination.nextCursor! }),
+      listQuery()
+    );
+
+    expect(ids(second.items)).toEqual(['b', 'a']);
+    expect(second.pagination.hasNextPage).toBe(false);
+    expect(second.pagination.nextCursor).toBeNull();
+  });
+
+  it('rejects a cursor issued for a different sortBy or sortOrder', async () => {
+    const { pagination } = await paginate(request(), listQuery());
+    const cursor = pagination.nextCursor!;
+
+    await expect(
+      paginate(request({ sortBy: 'title', cursor }), listQuery())
+    ).rejects.toThrow('Cursor was issued for a different sortBy or sortOrder');
+    await expect(
+      paginate(request({ sortOrder: 'asc', cursor }), listQuery())
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it('rejects malformed cursors', async () => {
+    const invalid = [
+      'not-a-cursor',
+      Buffer.from(JSON.stringify({ s: 'createdAt', o: 'desc' })).toString(
+        'base64url'
+      ),
+      Buffer.from(
+        JSON.stringify({
+          s: 'createdAt',
+          o: 'desc',
+          v: 'not a date',
+          d: true,
+          id: 'a',
+        })
+      ).toString('base64url'),
+    ];
+
+    for (const cursor of invalid) {
+      await expect(paginate(request({ cursor }), listQuery())).rejects.toThrow(
+        'Invalid cursor'
+      );
+    }
+  });
+});
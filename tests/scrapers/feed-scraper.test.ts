@@ -0,0 +1,117 @@
+import { FeedScraper } from '../../src/services/scrapers/feed-scraper';
+import { readFixture } from '../helpers';
+
+describe('FeedScraper', () => {
+  const scraper = new FeedScraper();
+
+  describe('RSS', () => {
+    const body = readFixture('feed', 'rss.xml');
+    const listings = scraper.parseFeed(
+      body,
+      'https://scholarshipportal.example.org/feed/'
+    );
+
+    it('detects the format', () => {
+      expect(scraper.detectFormat(body)).toBe('rss');
+    });
+
+    it('keys items by link and keeps the guid', () => {
+      expect(
+        listings.map(({ opportunity_id, guid }) => ({ opportunity_id, guid }))
+      ).toEqual([
+        {
+          opportunity_id:
+            'https://scholarshipportal.example.org/chevening-scholarships-2026/',
+          guid: 'https://scholarshipportal.example.org/?p=48211',
+        },
+        {
+          opportunity_id:
+            'https://scholarshipportal.example.org/africa-climate-fellowship-2026/',
+          guid: 'https://scholarshipportal.example.org/?p=48197',
+        },
+      ]);
+    });
+
+    it('reads the creator and an excerpt of the content', () => {
+      expect(listings[0]).toMatchObject({
+        title:
+          'Chevening Scholarships 2026/2027 for Study in the UK (Fully Funded)',
+        organization: 'Scholarship Portal Africa',
+      });
+      expect(listings[0].excerpt).toContain('Chevening Scholarships are');
+    });
+  });
+
+  describe('Atom', () => {
+    const body = readFixture('feed', 'atom.xml');
+    const listings = scraper.parseFeed(
+      body,
+      'https://fellowships.example.com/feed.atom'
+    );
+
+    it('detects the format', () => {
+      expect(scraper.detectFormat(body)).toBe('atom');
+    });
+
+    it('keys entries by their alternate link and keeps the id', () => {
+      expect(
+        listings.map(({ opportunity_id, guid }) => ({ opportunity_id, guid }))
+      ).toEqual([
+        {
+          opportunity_id:
+            'https://fellowships.example.com/posts/mandela-washington-fellowship-2027',
+          guid: 'tag:fellowships.example.com,2026:post-3311',
+        },
+        {
+          opportunity_id:
+            'https://fellowships.example.com/posts/google-phd-fellowship-africa',
+          guid: 'tag:fellowships.example.com,2026:post-3298',
+        },
+      ]);
+    });
+
+    it('reads the author name', () => {
+      expect(listings[0].organization).toBe('U.S. Department of State');
+      expect(listings[1].title).toBe('Google PhD Fellowship Program – Africa');
+    });
+  });
+
+  describe('JSON Feed', () => {
+    const body = readFixture('feed', 'feed.json');
+    const listings = scraper.parseFeed(
+      body,
+      'https://grantsweekly.example.net/feed.json'
+    );
+
+    it('detects the format', () => {
+      expect(scraper.detectFormat(body)).toBe('json');
+    });
+
+    it('falls back to external_url and stringifies numeric ids', () => {
+      expect(
+        listings.map(({ opportunity_id, guid }) => ({ opportunity_id, guid }))
+      ).toEqual([
+        {
+          opportunity_id:
+            'https://grantsweekly.example.net/2026/06/tony-elumelu-entrepreneurship-programme',
+          guid: '2026-06-02-tony-elumelu',
+        },
+        {
+          opportunity_id:
+            'https://www.example.org/opportunities/african-women-in-science-grant',
+          guid: '1042',
+        },
+      ]);
+    });
+
+    it('reads the first author name', () => {
+      expect(listings[0].organization).toBe('Tony Elumelu Foundation');
+    });
+  });
+
+  it('rejects bodies that are not a feed', () => {
+    expect(() => scraper.detectFormat('<html></html>')).toThrow(
+      'Unrecognised feed format'
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { genericSelectorScraper } from '../../src/services/scrapers/generic-selector-scraper';
+import { readFixture } from '../helpers';
+
+const LISTING_URL = 'https://scholarshub.example.org/scholarships?page=2';
+const DETAILS_URL =
+  'https://scholarshub.example.org/scholarships/mastercard-foundation-scholars-2026';
+
+const cssSelectors = JSON.stringify({
+  item: 'article.opportunity-card',
+  title: '.opportunity-card__title',
+  link: '.opportunity-card__title a',
+  organization: '.opportunity-card__org',
+  location: '.opportunity-card__location',
+  deadline: '.opportunity-card__deadline@datetime',
+  nextPage: 'a.pagination__next',
+  details: {
+    title: 'h1.post-title',
+    organization: '.post-meta__org',
+    description: '.post-content',
+    deadline: '.post-meta__deadline',
+    location: '.post-meta__location',
+    requirements: 'ul.requirements',
+    benefits: 'ul.benefits',
+    eligibility: 'ul.eligibility',
+    applicationUrl: 'a.apply-button',
+  },
+});
+
+describe('GenericSelectorScraper', () => {
+  const scraper = genericSelectorScraper.withSelectors(cssSelectors);
+
+  it('requires a valid selector map', () => {
+    expect(() => genericSelectorScraper.withSelectors(null)).toThrow(
+      'GENERIC_SELECTOR crawl sources require cssSelectors'
+    );
+    expect(() => genericSelectorScraper.withSelectors('{')).toThrow(
+      'cssSelectors is not valid JSON'
+    );
+  });
+
+  describe('parseListings', () => {
+    const html = readFixture('generic-selector', 'listing-page.html');
+
+    it('uses the absolute details URL as the listing ID', () => {
+      const listings = scraper.parseListings(html, LISTING_URL);
+
+      expect(listings).toEqual([
+        {
+          opportunity_id: DETAILS_URL,
+          title: 'Mastercard Foundation Scholars Program 2026',
+          organization: 'Mastercard Foundation',
+          location: 'Kigali, Rwanda',
+          deadline: '2026-08-31',
+          url: DETAILS_URL,
+        },
+        {
+          opportunity_id:
+            'https://scholarshub.example.org/fellowships/young-african-leaders?utm_source=list',
+          title: 'Young African Leaders Fellowship',
+          organization: 'YALI Network',
+          location: 'Remote',
+          deadline: undefined,
+          url: 'https://scholarshub.example.org/fellowships/young-african-leaders?utm_source=list',
+        },
+      ]);
+    });
+
+    it('resolves the next page link against the page URL', () => {
+      expect(scraper.parseNextPageUrl(html, LISTING_URL)).toBe(
+        'https://scholarshub.example.org/scholarships?page=3'
+      );
+    });
+  });
+
+  describe('parseDetails', () => {
+    const details = scraper.parseDetails(
+      readFixture('generic-selector', 'details-page.html'),
+      DETAILS_URL
+    );
+
+    it('reads each mapped field', () => {
+      expect(details).toMatchObject({
+        id: DETAILS_URL,
+        title: 'Mastercard Foundation Scholars Program 2026',
+        organization: 'Mastercard Foundation',
+        locations: ['Kigali, Rwanda'],
+        isRemote: false,
+        deadline: '31 August 2026',
+        applicationUrl: 'https://apply.mastercardfdn.example.org/scholars/2026',
+      });
+      expect(details.description).toContain('fully funded undergraduate');
+    });
+
+    it('splits matched lists into one entry per item', () => {
+      expect(details.requirements).toEqual([
+        'Academic transcripts',
+        'Two recommendation letters',
+        'Personal statement',
+      ]);
+      expect(details.benefits).toEqual([
+        'Full tuition',
+        'Accommodation and living stipend',
+        'Return airfare',
+      ]);
+      expect(details.eligibility).toEqual([
+        'Citizens of any African country',
+        'Admitted to a partner university for the 2026/27 academic year',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { IndeedScraper } from '../../src/services/scrapers/indeed-scraper';
+import {
+  mapCompensationType,
+  mapExperienceLevel,
+} from '../../src/services/scrapers/job-attribute-mapper';
+import { readFixture } from '../helpers';
+
+const SEARCH_URL = 'https://ng.indeed.com/jobs?q=graduate+trainee&l=Lagos';
+const DETAILS_URL = 'https://ng.indeed.com/viewjob?jk=9a1f3c2b7d4e6f80';
+
+describe('IndeedScraper', () => {
+  const scraper = new IndeedScraper();
+
+  describe('parseJobCards', () => {
+    const html = readFixture('indeed', 'listing-page.html');
+
+    it('parses every job card with a host-scoped ID', () => {
+      const listings = scraper.parseJobCards(html, SEARCH_URL);
+
+      expect(listings.map((listing) => listing.opportunity_id)).toEqual([
+        'ng.indeed.com:9a1f3c2b7d4e6f80',
+        'ng.indeed.com:4b7e0c19a2d35f61',
+        'ng.indeed.com:e51d8a7c03b96f24',
+      ]);
+      expect(listings[0]).toEqual({
+        opportunity_id: 'ng.indeed.com:9a1f3c2b7d4e6f80',
+        title: 'Graduate Trainee - Finance',
+        organization: 'Stanbic IBTC',
+        location: 'Lagos',
+        url: 'https://ng.indeed.com/viewjob?jk=9a1f3c2b7d4e6f80',
+      });
+      expect(listings[1].location).toBe('Remote in Lagos');
+    });
+
+    it('resolves the next page link against the page URL', () => {
+      expect(scraper.parseNextPageUrl(html, SEARCH_URL)).toBe(
+        'https://ng.indeed.com/jobs?q=graduate+trainee&l=Lagos&start=10'
+      );
+    });
+
+    it('returns no next page when the pagination link is missing', () => {
+      expect(scraper.parseNextPageUrl('<html></html>', SEARCH_URL)).toBeNull();
+    });
+  });
+
+  describe('parseJobDetails', () => {
+    const markup = scraper.parseJobDetails(
+      readFixture('indeed', 'job-details.html'),
+      DETAILS_URL
+    );
+
+    it('parses the header, salary and job types', () => {
+      expect(markup).toMatchObject({
+        title: 'Graduate Trainee - Finance',
+        organization: 'Stanbic IBTC',
+        location: 'Lagos',
+        salary: '₦250,000 a month',
+        jobTypes: ['Full-time'],
+        applicationUrl:
+          'https://careers.stanbicibtc.com/jobs/graduate-trainee-finance-2026?source=indeed',
+      });
+      expect(markup.descriptionHtml).toContain('About the programme');
+    });
+
+    it('maps the salary and title onto opportunity attributes', () => {
+      expect(mapCompensationType(markup.salary, ...markup.jobTypes)).toBe(
+        'salary'
+      );
+      expect(mapExperienceLevel(...markup.jobTypes, markup.title)).toBe(
+        'entry'
+      );
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { LinkedInScraper } from '../../src/services/scrapers/linkedin-scraper';
+import { Fetcher } from '../../src/services/fetchers/base-fetcher';
+import { readFixture } from '../helpers';
+
+const GUEST_SEARCH_URL =
+  'https://www.linkedin.com/jobs-guest/jobs/api/seeMoreJobPostings/search';
+
+describe('LinkedInScraper', () => {
+  const scraper = new LinkedInScraper();
+  const searchPage = readFixture('linkedin', 'search-page.html');
+
+  describe('parseJobCards', () => {
+    it('parses the job ID from each card URN', () => {
+      const listings = scraper.parseJobCards(searchPage);
+
+      expect(listings.map((listing) => listing.opportunity_id)).toEqual([
+        '4012345678',
+        '4019876543',
+        '4003141592',
+      ]);
+      expect(listings[0]).toEqual({
+        opportunity_id: '4012345678',
+        title: 'Graduate Trainee',
+        organization: 'Flutterwave',
+        location: 'Lagos, Lagos State, Nigeria',
+        url: 'https://www.linkedin.com/jobs/view/4012345678',
+      });
+    });
+  });
+
+  describe('scrapeOpportunityListing', () => {
+    it('pages the guest search endpoint by offset until a page is empty', async () => {
+      const requested: string[] = [];
+      const fetcher: Fetcher = {
+        fetcherType: 'FIXTURE',
+        fetch: async (url) => {
+          requested.push(url);
+          const start = new URL(url).searchParams.get('start');
+          return {
+            data: start === '0' ? searchPage : '<ul></ul>',
+            error: null,
+          };
+        },
+      };
+
+      const result = await scraper
+        .withFetcher(fetcher)
+        .scrapeOpportunityListing(
+          'https://www.linkedin.com/jobs/search?keywords=graduate&location=Nigeria'
+        );
+
+      expect(result.success).toBe(true);
+      expect(result.total_found).toBe(3);
+      expect(requested).toEqual([
+        `${GUEST_SEARCH_URL}?keywords=graduate&location=Nigeria&start=0`,
+        `${GUEST_SEARCH_URL}?keywords=graduate&location=Nigeria&start=3`,
+      ]);
+    });
+  });
+
+  describe('parseJobPosting', () => {
+    const markup = scraper.parseJobPosting(
+      readFixture('linkedin', 'job-posting.html')
+    );
+
+    it('parses the top card and job criteria', () => {
+      expect(markup).toMatchObject({
+        title: 'Product Design Intern (Remote)',
+        organization: 'Moniepoint Inc.',
+        location: 'Nigeria',
+        salary: '₦400,000.00/mo - ₦550,000.00/mo',
+        seniorityLevel: 'Internship',
+        employmentType: 'Internship',
+        jobFunction: 'Design, Art/Creative, and Information Technology',
+        industries: 'Financial Services',
+      });
+      expect(markup.descriptionHtml).toContain('About Moniepoint');
+    });
+
+    it('unwraps the off-site apply redirect', () => {
+      expect(markup.applicationUrl).toBe(
+        'https://careers.moniepoint.com/jobs/product-design-intern?source=linkedin'
+      );
+    });
+
+    it('maps the seniority criterion onto an experience level', () => {
+      expect(scraper['mapSeniorityLevel'](markup)).toBe('internship');
+      expect(
+        scraper['mapSeniorityLevel']({
+          ...markup,
+          seniorityLevel: 'Mid-Senior level',
+          employmentType: 'Full-time',
+        })
+      ).toBe('senior');
+    });
+  });
+});